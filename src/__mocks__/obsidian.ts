@@ -19,11 +19,13 @@ export class App {
 export class TFile {
   path: string;
   basename: string;
+  extension: string;
   stat: { mtime: number };
 
   constructor(path: string, basename: string, stat: { mtime: number }) {
     this.path = path;
     this.basename = basename;
+    this.extension = path.split('.').pop() || '';
     this.stat = stat;
   }
 }
@@ -0,0 +1,89 @@
+import { TextEncoder } from 'util';
+
+/**
+ * Recorded response bodies from real provider endpoints, split where the
+ * network delivered them so the replay matches what the plugin sees.
+ */
+export const RECORDED_STREAMS = {
+  anthropic: [
+    'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_01","type":"message","role":"assistant","content":[],"model":"claude-3-5-haiku-latest","stop_reason":null,"usage":{"input_tokens":25,"output_tokens":1}}}\n\n',
+    'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\nevent: ping\ndata: {"type": "ping"}\n\n',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hello"}}\n\n',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":", world!"}}\n\n',
+    'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n\nevent: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn","stop_sequence":null},"usage":{"output_tokens":5}}\n\n',
+    'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+  ],
+  ollama: [
+    '{"model":"gemma3:12b","created_at":"2025-04-20T10:00:00.000Z","message":{"role":"assistant","content":"Hello"},"done":false}\n',
+    '{"model":"gemma3:12b","created_at":"2025-04-20T10:00:00.050Z","message":{"role":"assistant","content":", world"},"done":false}\n{"model":"gemma3:12b","created_at":"2025-04-20T10:00:00.100Z","message":{"role":"assistant","content":"!"},"done":false}\n',
+    '{"model":"gemma3:12b","created_at":"2025-04-20T10:00:00.150Z","message":{"role":"assistant","content":""},"done_reason":"stop","done":true,"total_duration":150000000,"prompt_eval_count":26,"eval_count":4}\n',
+  ],
+};
+
+/**
+ * Build a fetch Response whose body replays the given chunks in order
+ */
+export function createStreamResponse(chunks: (string | Uint8Array)[], status = 200, headers: Record<string, string> = {}) {
+  const encoder = new TextEncoder();
+  const queue = chunks.map(chunk => typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+    },
+    text: jest.fn().mockResolvedValue(chunks.join('')),
+    json: jest.fn().mockImplementation(async () => JSON.parse(chunks.join(''))),
+    body: {
+      getReader: () => ({
+        read: jest.fn().mockImplementation(async () => {
+          const value = queue.shift();
+          return value ? { done: false, value } : { done: true, value: undefined };
+        }),
+        cancel: jest.fn().mockResolvedValue(undefined),
+      }),
+    },
+  };
+}
+
+/**
+ * Re-split a recorded stream into byte chunks of the given size, cutting
+ * through lines, field names and multi-byte characters alike
+ */
+export function splitBytes(chunks: string[], size: number): Uint8Array[] {
+  const bytes = new TextEncoder().encode(chunks.join(''));
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    parts.push(bytes.slice(i, i + size));
+  }
+  return parts;
+}
+
+/**
+ * Build a fetch Response for a non-streaming JSON body
+ */
+export function createJsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}) {
+  return createStreamResponse([JSON.stringify(data)], status, headers);
+}
+
+/**
+ * Replace global fetch with a stub that answers each request with the next
+ * response in the list. The returned mock records the requests it received.
+ */
+export function stubFetch(...responses: ReturnType<typeof createStreamResponse>[]): jest.Mock {
+  const stub = jest.fn();
+  for (const response of responses) {
+    stub.mockResolvedValueOnce(response);
+  }
+  global.fetch = stub;
+  return stub;
+}
+
+/**
+ * Return the parsed JSON body of the nth request made through a stubbed fetch
+ */
+export function getRequestBody(stub: jest.Mock, call = 0) {
+  return JSON.parse(stub.mock.calls[call][1].body);
+}
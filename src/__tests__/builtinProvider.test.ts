@@ -0,0 +1,62 @@
+import { requestUrl } from 'obsidian';
+import { Settings } from '../settings';
+import { createProvider, getProviderConfig, supportsEmbeddings } from '../providers';
+import { BUILTIN_EMBEDDING_DIMENSIONS, embedText } from '../providers/builtinProvider';
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+jest.mock('obsidian', () => ({
+  requestUrl: jest.fn()
+}));
+
+const settings = { debugMode: false } as Settings;
+
+const cosine = (a: Float32Array, b: Float32Array) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('BuiltinProvider', () => {
+  const provider = createProvider(getProviderConfig({ provider: 'builtin', openaiModel: '' }), settings);
+
+  it('should embed without any request', async () => {
+    const { vectors, usage } = await provider.embedWithUsage(['first text', 'second text']);
+
+    expect(supportsEmbeddings('builtin')).toBe(true);
+    expect(provider.description).toBe('Built-in (hashed-ngrams-v1)');
+    expect(vectors).toHaveLength(2);
+    expect(vectors[0]).toHaveLength(BUILTIN_EMBEDDING_DIMENSIONS);
+    expect(usage).toBeUndefined();
+    expect(requestUrl).not.toHaveBeenCalled();
+  });
+
+  it('should refuse completions', async () => {
+    await expect(provider.complete({ messages: [], maxTokens: 1, temperature: 0 }))
+      .rejects.toThrow('The built-in provider only computes embeddings');
+  });
+
+  it('should return the same unit-length vector for the same text', () => {
+    const vector = embedText('Sourdough bread needs a lively starter');
+
+    expect(embedText('Sourdough bread needs a lively starter')).toEqual(vector);
+    expect(cosine(vector, vector)).toBeCloseTo(1);
+  });
+
+  it('should ignore case and punctuation', () => {
+    expect(embedText('Bread, starter & flour!')).toEqual(embedText('bread starter flour'));
+  });
+
+  it('should place texts sharing words closer than unrelated ones', () => {
+    const query = embedText('baking sourdough bread');
+    const related = embedText('My sourdough bread recipe: feed the starter, then bake the loaf');
+    const inflected = embedText('Notes on baked breads');
+    const unrelated = embedText('Quarterly tax filing deadlines for freelancers');
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    expect(cosine(query, inflected)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should return a zero vector for text without words', () => {
+    expect(Array.from(embedText(' -- ')).every(value => value === 0)).toBe(true);
+  });
+});
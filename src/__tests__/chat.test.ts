@@ -226,11 +226,13 @@ describe('AIHelperChatView', () => {
         maxNotesToSearch: 20,
         displayWelcomeMessage: false,
         similarity: 0.5,
-        maxContextLength: 4000,
+        contextWindow: 0,
         titleMatchBoost: 0.5,
         enableStreaming: true,
         maxRecencyBoost: 0.5,
-        recencyBoostWindow: 7
+        recencyBoostWindow: 7,
+        enableAgentMode: false,
+        maxToolIterations: 5
       },
       embeddingSettings: {
         provider: 'local',
@@ -241,8 +243,8 @@ describe('AIHelperChatView', () => {
         localModel: 'text-embedding-all-minilm-l6-v2-embedding',
         chunkSize: 1000,
         chunkOverlap: 200,
-        dimensions: 384,
-        updateMode: 'none'
+        updateMode: 'none',
+        maxConcurrentRequests: 2
       },
       summarizeSettings: {
         provider: 'local',
@@ -499,6 +501,7 @@ describe('AIHelperChatView', () => {
           file: {
             path: 'test.md',
             basename: 'test',
+            extension: 'md',
             stat: {
               mtime: Date.now()
             }
@@ -512,6 +515,7 @@ describe('AIHelperChatView', () => {
           file: {
             path: 'test2.md',
             basename: 'test2',
+            extension: 'md',
             stat: {
               mtime: Date.now()
             }
@@ -914,6 +918,24 @@ describe('AIHelperChatView', () => {
       expect(relevantNotes.length).toBe(2); // Using our mock implementation
     });
 
+    it('should embed the query as written and let the store prepare it', async () => {
+      const RealEmbeddingStore = jest.requireActual('../chat/embeddingStore').EmbeddingStore as typeof EmbeddingStore;
+      const store = new RealEmbeddingStore(mockSettings, {} as VectorStore, mockApp);
+      const embed = jest.fn().mockResolvedValue(new Float32Array(384));
+      (store as any).embeddingModel = { embed, embedBatch: jest.fn() };
+      (chatView as any).embeddingStore = store;
+      const query = 'What did Maria say about the Budget?';
+
+      await AIHelperChatView.prototype.findRelevantNotes.call(chatView, query);
+      mockSettings.embeddingSettings.rawText = true;
+      await AIHelperChatView.prototype.findRelevantNotes.call(chatView, query);
+
+      const [normalized, raw] = embed.mock.calls.map(call => call[0]);
+      expect(normalized).not.toMatch(/[A-Z?]/);
+      expect(normalized).toBe(jest.requireActual('../nlp').processQuery(query, mockSettings).processed);
+      expect(raw).toBe(query);
+    });
+
     it('should limit results to max notes setting', async () => {
       const query = 'test query';
       const maxNotes = 1; // Only return top result
@@ -0,0 +1,14 @@
+import { hashContent } from '../chat/contentHash';
+
+describe('hashContent', () => {
+  it('should return the same hash for the same text', () => {
+    expect(hashContent('Some note text')).toBe(hashContent('Some note text'));
+    expect(hashContent('')).toMatch(/^[0-9a-f]+$/);
+  });
+
+  it('should tell small edits apart', () => {
+    const hashes = ['teh cat', 'the cat', 'the cat ', 'the cät', 'The cat'].map(hashContent);
+
+    expect(new Set(hashes).size).toBe(hashes.length);
+  });
+});
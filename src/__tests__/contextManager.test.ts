@@ -2,6 +2,7 @@ import { ContextManager } from '../chat/contextManager';
 import { VectorStore, NoteChunk } from '../chat/vectorStore';
 import { Settings } from '../settings';
 import { TFile } from 'obsidian';
+import { estimateMessageTokens, estimateTokens } from '../chat/tokenBudget';
 
 // Mock the required dependencies
 jest.mock('../chat/vectorStore');
@@ -30,7 +31,6 @@ describe('ContextManager', () => {
                 localModel: 'text-embedding-all-minilm-l6-v2-embedding',
                 chunkSize: 1000,
                 chunkOverlap: 200,
-                dimensions: 384,
                 updateMode: 'onUpdate'
             },
             summarizeSettings: {
@@ -55,7 +55,7 @@ describe('ContextManager', () => {
                 maxNotesToSearch: 20,
                 displayWelcomeMessage: true,
                 similarity: 0.5,
-                maxContextLength: 4000,
+                contextWindow: 1500,
                 titleMatchBoost: 0.5
             },
             openChatOnStartup: false
@@ -98,7 +98,7 @@ describe('ContextManager', () => {
             expect(notes[0].includedInContext).toBe(true);
         });
 
-        it('should respect max context length and set includedInContext flag appropriately', () => {
+        it('should respect the token budget and set includedInContext flag appropriately', () => {
             const notes = [
                 {
                     file: { ...mockFile, basename: 'test1', path: 'test1.md' } as TFile,
@@ -122,7 +122,8 @@ describe('ContextManager', () => {
 
             const context = contextManager.buildContext('keyword', notes, 0);
 
-            expect(context.length).toBeLessThanOrEqual(mockSettings.chatSettings.maxContextLength);
+            // 1500 token window minus 500 reserved for the response
+            expect(estimateTokens(context)).toBeLessThanOrEqual(1000);
             // At least the first note should be included
             expect(notes[0].includedInContext).toBe(true);
             // The last note should not be included due to context length limitations
@@ -184,9 +185,92 @@ describe('ContextManager', () => {
 
             expect(context).toContain("I couldn't find any notes specifically related to your query");
         });
+
+        it('should drop chunks that do not fit instead of cutting them', () => {
+            const notes = [
+                {
+                    file: mockFile,
+                    content: '',
+                    relevance: 0.9,
+                    includedInContext: false
+                }
+            ];
+            mockVectorStore.getAllChunks.mockReturnValue([
+                { content: 'keyword ' + 'long '.repeat(990) },
+                { content: 'keyword short chunk' }
+            ] as NoteChunk[]);
+
+            const context = contextManager.buildContext('keyword', notes, 0);
+
+            expect(context).not.toContain('long');
+            expect(context).toContain('keyword short chunk');
+            expect(notes[0].includedInContext).toBe(true);
+        });
+
+        it('should leave room for tokens already used by the prompt', () => {
+            const notes = [
+                {
+                    file: mockFile,
+                    content: 'Test content with keyword',
+                    relevance: 0.8,
+                    includedInContext: false
+                }
+            ];
+
+            const context = contextManager.buildContext('keyword', notes, 1000);
+
+            expect(context).toBe('');
+            expect(notes[0].includedInContext).toBe(false);
+        });
+    });
+
+    describe('buildConversationHistory', () => {
+        it('should drop the oldest messages that do not fit the budget', () => {
+            const messages = [
+                { role: 'user' as const, content: 'first question ' + 'padding '.repeat(50) },
+                { role: 'assistant' as const, content: 'first answer' },
+                { role: 'user' as const, content: 'second question' }
+            ];
+
+            const history = contextManager.buildConversationHistory(messages, 'Welcome', true, 20);
+
+            expect(history).not.toContain('first question');
+            expect(history).toContain('assistant: first answer');
+            expect(history).toContain('user: second question');
+        });
+    });
+
+    describe('prepareModelMessages', () => {
+        it('should keep the system prompt, query, history and notes within the prompt budget', () => {
+            const notes = Array.from({ length: 10 }, (_, i) => ({
+                file: { ...mockFile, basename: `note${i}`, path: `note${i}.md` } as TFile,
+                content: `keyword ${'text '.repeat(150)}`,
+                relevance: 1 - i / 10,
+                includedInContext: false
+            }));
+            const messages = [
+                ...Array.from({ length: 20 }, (_, i) => ({
+                    role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+                    content: `message ${i} ${'chat '.repeat(40)}`
+                })),
+                { role: 'user' as const, content: 'What about keyword?' }
+            ];
+
+            const modelMessages = contextManager.prepareModelMessages('What about keyword?', notes, messages, 'Welcome');
+
+            expect(estimateMessageTokens(modelMessages)).toBeLessThanOrEqual(1000);
+            expect(modelMessages[modelMessages.length - 1]).toEqual({ role: 'user', content: 'What about keyword?' });
+            // The most recent history survives, older messages are dropped
+            expect(modelMessages[1].content).toContain('message 19');
+            expect(modelMessages[1].content).not.toContain('message 0 ');
+            // Some but not all notes fit
+            const included = notes.filter(note => note.includedInContext).length;
+            expect(included).toBeGreaterThan(0);
+            expect(included).toBeLessThan(notes.length);
+        });
     });
 
-    describe('extractRelevantExcerpt', () => {
+    describe('extractRelevantChunks', () => {
         it('should use specific chunk when chunkIndex is provided', () => {
             const note = {
                 file: mockFile,
@@ -198,12 +282,29 @@ describe('ContextManager', () => {
             const mockChunk = { content: 'Specific chunk content' };
             mockVectorStore.getChunk.mockReturnValue(mockChunk as NoteChunk);
 
-            const excerpt = contextManager['extractRelevantExcerpt'](note, 'keyword');
+            const chunks = contextManager['extractRelevantChunks'](note, 'keyword');
 
-            expect(excerpt).toBe('Specific chunk content');
+            expect(chunks).toEqual(['Specific chunk content']);
             expect(mockVectorStore.getChunk).toHaveBeenCalledWith('test.md', 0);
         });
 
+        it('should name the section a chunk sits in', () => {
+            const note = {
+                file: mockFile,
+                content: 'Test content',
+                relevance: 0.8,
+                chunkIndex: 2
+            };
+            mockVectorStore.getChunk.mockReturnValue({
+                content: 'The budget is tight.',
+                location: { headings: ['Project X', 'Risks', 'Budget'], startLine: 8, endLine: 10, start: 80, end: 120 }
+            } as NoteChunk);
+
+            const chunks = contextManager['extractRelevantChunks'](note, 'keyword');
+
+            expect(chunks).toEqual(['Section: Project X > Risks > Budget\nThe budget is tight.']);
+        });
+
         it('should find relevant chunks when no chunkIndex is provided', () => {
             const note = {
                 file: mockFile,
@@ -217,10 +318,10 @@ describe('ContextManager', () => {
             ];
             mockVectorStore.getAllChunks.mockReturnValue(mockChunks as NoteChunk[]);
 
-            const excerpt = contextManager['extractRelevantExcerpt'](note, 'keyword');
+            const chunks = contextManager['extractRelevantChunks'](note, 'keyword');
 
-            // The excerpt should only contain the relevant chunk
-            expect(excerpt).toBe('Chunk with keyword and more context');
+            // Only the relevant chunk should be returned
+            expect(chunks).toEqual(['Chunk with keyword and more context']);
             expect(mockVectorStore.getAllChunks).toHaveBeenCalledWith('test.md');
         });
 
@@ -233,9 +334,10 @@ describe('ContextManager', () => {
 
             mockVectorStore.getAllChunks.mockReturnValue([]);
 
-            const excerpt = contextManager['extractRelevantExcerpt'](note, 'keyword');
+            const chunks = contextManager['extractRelevantChunks'](note, 'keyword');
 
-            expect(excerpt).toContain('Test content with keyword');
+            expect(chunks).toHaveLength(1);
+            expect(chunks[0]).toContain('Test content with keyword');
         });
     });
 
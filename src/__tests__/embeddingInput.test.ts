@@ -0,0 +1,92 @@
+import {
+  DEFAULT_EMBEDDING_INPUT,
+  applyTemplate,
+  documentInputKey,
+  getEmbeddingInput,
+  getRecommendedTemplates,
+  prepareEmbeddingInput,
+  sameEmbeddingInput
+} from '../chat/embeddingInput';
+import { EmbeddingSettings, Settings } from '../settings';
+
+const settings = (embeddingSettings: Partial<EmbeddingSettings>) =>
+  ({ embeddingSettings, chatSettings: {} } as unknown as Settings);
+
+describe('applyTemplate', () => {
+  it('should put the text in place of the placeholder, or after a prefix', () => {
+    expect(applyTemplate('search_query: {text}', 'bread')).toBe('search_query: bread');
+    expect(applyTemplate('passage: ', 'bread')).toBe('passage: bread');
+    expect(applyTemplate('', 'bread')).toBe('bread');
+    expect(applyTemplate('<{text}>', '$& costs')).toBe('<$& costs>');
+  });
+});
+
+describe('getRecommendedTemplates', () => {
+  it('should know the instructions of common embedding models', () => {
+    expect(getRecommendedTemplates('nomic-embed-text')).toEqual({
+      query: 'search_query: {text}',
+      document: 'search_document: {text}'
+    });
+    expect(getRecommendedTemplates('intfloat/multilingual-e5-large')).toEqual({
+      query: 'query: {text}',
+      document: 'passage: {text}'
+    });
+    expect(getRecommendedTemplates('mxbai-embed-large')!.document).toBe('');
+    expect(getRecommendedTemplates('text-embedding-3-small')).toBeUndefined();
+  });
+});
+
+describe('prepareEmbeddingInput', () => {
+  const templates = { 'nomic-embed-text': { query: 'search_query: {text}', document: 'search_document: {text}' } };
+
+  it('should apply the query or document template of the model', () => {
+    const raw = settings({ rawText: true, templates });
+    const nomic = getEmbeddingInput(raw.embeddingSettings, 'nomic-embed-text');
+
+    expect(prepareEmbeddingInput('Sourdough Bread', 'query', nomic, raw)).toBe('search_query: Sourdough Bread');
+    expect(prepareEmbeddingInput('Sourdough Bread', 'document', nomic, raw)).toBe('search_document: Sourdough Bread');
+    expect(prepareEmbeddingInput('Sourdough Bread', 'query', getEmbeddingInput(raw.embeddingSettings, 'all-minilm'), raw))
+      .toBe('Sourdough Bread');
+  });
+
+  it('should normalize the text before the template unless raw text is enabled', () => {
+    const normalized = settings({ templates });
+    const input = prepareEmbeddingInput('The Sourdough Bread!', 'query', getEmbeddingInput(normalized.embeddingSettings, 'nomic-embed-text'), normalized);
+
+    expect(input.startsWith('search_query: ')).toBe(true);
+    expect(input).not.toMatch(/[A-Z!]/);
+  });
+});
+
+describe('documentInputKey', () => {
+  const input = (rawText: boolean, document: string, query = '') => ({ rawText, templates: { query, document } });
+
+  it('should be empty for the normalized text earlier versions embedded', () => {
+    expect(documentInputKey(DEFAULT_EMBEDDING_INPUT)).toBe('');
+    expect(documentInputKey(input(false, '{text}', 'query: '))).toBe('');
+  });
+
+  it('should change with raw text and the document template', () => {
+    const keys = [
+      documentInputKey(input(true, '')),
+      documentInputKey(input(false, 'passage: ')),
+      documentInputKey(input(false, 'passage: {text}'))
+    ];
+
+    expect(keys[0]).not.toBe('');
+    expect(keys[1]).not.toBe(keys[0]);
+    expect(keys[2]).toBe(keys[1]);
+  });
+});
+
+describe('sameEmbeddingInput', () => {
+  const input = (rawText: boolean, query: string, document = '') => ({ rawText, templates: { query, document } });
+
+  it('should tell apart inputs whose vectors can not be compared', () => {
+    expect(sameEmbeddingInput(input(false, 'query: '), input(false, 'query: {text}'))).toBe(true);
+    expect(sameEmbeddingInput(input(false, ''), DEFAULT_EMBEDDING_INPUT)).toBe(true);
+    expect(sameEmbeddingInput(input(true, ''), DEFAULT_EMBEDDING_INPUT)).toBe(false);
+    expect(sameEmbeddingInput(input(false, 'query: '), DEFAULT_EMBEDDING_INPUT)).toBe(false);
+    expect(sameEmbeddingInput(input(false, '', 'passage: '), DEFAULT_EMBEDDING_INPUT)).toBe(false);
+  });
+});
@@ -56,9 +56,13 @@ import { App } from 'obsidian';
 import { VectorStore } from '../chat/vectorStore';
 import { NoteEmbedding } from '../chat';
 import { logDebug, logError } from '../utils';
+import { hashContent } from '../chat/contentHash';
 
 const TFile = jest.requireMock('obsidian').TFile;
 
+// A file that passes the instanceof TFile checks of the store
+const vaultFile = (path: string) => Object.assign(Object.create(TFile.prototype), TFile(path));
+
 // Extend VectorStore mock with isEmpty
 class MockVectorStore {
     addEmbedding = jest.fn();
@@ -79,6 +83,7 @@ class MockVectorStore {
         position: 0
     }]);
     clear = jest.fn();
+    setDimensions = jest.fn();
 }
 
 jest.mock('../chat/vectorStore', () => {
@@ -115,7 +120,10 @@ function setupEmbeddingTest(customSettings = {}) {
                     }
                     throw new Error('File not found');
                 }),
-                exists: jest.fn().mockResolvedValue(true)
+                exists: jest.fn().mockImplementation(async (path: string) => path.endsWith('embeddings.json')),
+                writeBinary: jest.fn().mockResolvedValue(undefined),
+                readBinary: jest.fn(),
+                remove: jest.fn().mockResolvedValue(undefined)
             },
             getAbstractFileByPath: jest.fn().mockImplementation((path) => {
                 if (path === 'test.md') {
@@ -124,6 +132,12 @@ function setupEmbeddingTest(customSettings = {}) {
                 return null;
             }),
             getMarkdownFiles: jest.fn().mockReturnValue([TFile('test.md')])
+        },
+        workspace: {
+            getActiveFile: jest.fn().mockReturnValue(null)
+        },
+        metadataCache: {
+            getFileCache: jest.fn().mockReturnValue(null)
         }
     } as unknown as App;
 
@@ -137,8 +151,8 @@ function setupEmbeddingTest(customSettings = {}) {
             localModel: 'text-embedding-all-minilm-l6-v2-embedding',
             chunkSize: 1000,
             chunkOverlap: 200,
-            dimensions: 384,
-            updateMode: 'onUpdate'
+            updateMode: 'onUpdate',
+            maxConcurrentRequests: 1
         },
         debugMode: true,
         ...customSettings
@@ -174,7 +188,6 @@ function setupInitTest() {
     const mockSettings = {
         embeddingSettings: {
             provider: 'local',
-            dimensions: 384,
             localApiUrl: 'http://localhost:8080/v1/embeddings',
             localModel: 'test-model',
             openaiApiUrl: 'https://api.openai.com/v1/embeddings',
@@ -223,7 +236,7 @@ describe('EmbeddingStore', () => {
             expect(store).toBeInstanceOf(EmbeddingStore);
             expect((store as any).settings).toBe(mockSettings);
             expect((store as any).vectorStore).toBe(vectorStore);
-            expect((store as any).dimensions).toBe(mockSettings.embeddingSettings.dimensions);
+            expect((store as any).dimensions).toBe(384);
         });
     });
 
@@ -332,6 +345,125 @@ describe('EmbeddingStore', () => {
             expect((store as any).embeddings.has('test.md')).toBe(true);
         });
 
+        it('should convert a version 1 index to the binary format once', async () => {
+            const { store, mockApp, mockSettings, vectorStore } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.updateMode = 'none';
+            mockApp.vault.getAbstractFileByPath = jest.fn().mockImplementation(vaultFile);
+
+            await store.loadFromFile();
+
+            expect(store.getEmbedding('test.md')!.chunks[0].embedding).toEqual(new Float32Array(384).fill(0.1));
+            expect(vectorStore.addEmbedding).toHaveBeenCalledWith('test.md', expect.any(Object));
+            expect(mockApp.vault.adapter.writeBinary).toHaveBeenCalledWith(
+                '.obsidian/plugins/obsidian-ai-helper/embeddings.bin',
+                expect.any(ArrayBuffer)
+            );
+            expect(mockApp.vault.adapter.remove).toHaveBeenCalledWith('.obsidian/plugins/obsidian-ai-helper/embeddings.json');
+        });
+
+        it('should keep the version 1 index when converting it fails', async () => {
+            const { store, mockApp, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.updateMode = 'none';
+            mockApp.vault.getAbstractFileByPath = jest.fn().mockImplementation(vaultFile);
+            mockApp.vault.adapter.writeBinary = jest.fn().mockRejectedValue(new Error('Disk full'));
+
+            await store.loadFromFile();
+
+            expect(store.getEmbedding('test.md')).toBeDefined();
+            expect(mockApp.vault.adapter.remove).not.toHaveBeenCalled();
+            expect(logError).toHaveBeenCalledWith('Error saving the upgraded embedding index', expect.any(Error));
+        });
+
+        it('should upgrade a version 2 index saved before the model was recorded', async () => {
+            const { store, mockApp, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.updateMode = 'none';
+            mockApp.vault.adapter.exists = jest.fn().mockImplementation(async (path: string) => path.endsWith('embeddings-index.json'));
+            mockApp.vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify({
+                version: 2,
+                lastUpdated: Date.now(),
+                dimensions: 384,
+                vectorCount: 1,
+                embeddings: {
+                    'test.md': { path: 'test.md', chunks: [{ content: 'Test content', position: 0, vector: 0 }], lastModified: Date.now() }
+                }
+            }));
+            mockApp.vault.adapter.readBinary = jest.fn().mockResolvedValue(new Float32Array(384).fill(0.1).buffer);
+            mockApp.vault.getAbstractFileByPath = jest.fn().mockImplementation(vaultFile);
+
+            await store.loadFromFile();
+
+            expect(store.getEmbedding('test.md')!.chunks[0].embedding).toEqual(new Float32Array(384).fill(0.1));
+            const manifest = JSON.parse((mockApp.vault.adapter.write as jest.Mock).mock.calls[0][1]);
+            expect(manifest).toEqual(expect.objectContaining({
+                version: 4,
+                provider: 'local',
+                model: 'text-embedding-all-minilm-l6-v2-embedding'
+            }));
+            expect(mockApp.vault.adapter.remove).not.toHaveBeenCalled();
+        });
+
+        it('should leave an index of a newer plugin version alone', async () => {
+            const { store, mockApp } = setupEmbeddingTest();
+            mockApp.vault.adapter.exists = jest.fn().mockImplementation(async (path: string) => path.endsWith('embeddings-index.json'));
+            mockApp.vault.adapter.read = jest.fn().mockResolvedValue(JSON.stringify({ version: 5, embeddings: {} }));
+            const Notice = require('obsidian').Notice as jest.Mock;
+
+            await store.loadFromFile();
+            await store.saveToFile();
+
+            expect(Notice).toHaveBeenCalledWith(expect.stringContaining('saved by a newer version of the plugin (format 5'), 0);
+            expect(store.isReadOnly()).toBe(true);
+            expect(mockApp.vault.adapter.readBinary).not.toHaveBeenCalled();
+            expect(mockApp.vault.getMarkdownFiles).not.toHaveBeenCalled();
+            expect(mockApp.vault.adapter.write).not.toHaveBeenCalled();
+        });
+
+        it('should load the binary index written by saveToFile', async () => {
+            const saved = setupEmbeddingTest();
+            const embedding = new Float32Array(384).map((_value, i) => i / 384);
+            (saved.store as any).embeddings.set('test.md', {
+                path: 'test.md',
+                chunks: [{ content: 'Test content', embedding, position: 0 }]
+            });
+            await saved.store.saveToFile();
+            const manifest = (saved.mockApp.vault.adapter.write as jest.Mock).mock.calls[0][1];
+            const vectors = (saved.mockApp.vault.adapter.writeBinary as jest.Mock).mock.calls[0][1];
+
+            const { store, mockApp, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.updateMode = 'none';
+            mockApp.vault.adapter.exists = jest.fn().mockImplementation(async (path: string) => path.endsWith('embeddings-index.json'));
+            mockApp.vault.adapter.read = jest.fn().mockResolvedValue(manifest);
+            mockApp.vault.adapter.readBinary = jest.fn().mockResolvedValue(vectors);
+            mockApp.vault.getAbstractFileByPath = jest.fn().mockImplementation(vaultFile);
+
+            await store.loadFromFile();
+
+            expect(store.getEmbedding('test.md')).toEqual({
+                path: 'test.md',
+                chunks: [{ content: 'Test content', embedding, position: 0, hash: hashContent('Test content') }]
+            });
+            expect(mockApp.vault.adapter.remove).not.toHaveBeenCalled();
+        });
+
+        it('should keep the loaded index when changed notes can not be updated', async () => {
+            const { store, mockApp } = setupEmbeddingTest();
+            const content = 'Test content that changed since the index was saved, long enough to be embedded.';
+            mockApp.vault.getAbstractFileByPath = jest.fn().mockImplementation((path: string) =>
+                Object.assign(vaultFile(path), { stat: { mtime: Date.now() + 60000 } }));
+            (mockApp.vault as any).cachedRead = jest.fn().mockResolvedValue(content);
+            const reindexAll = jest.spyOn(store as any, 'reindexAll');
+
+            await store.loadFromFile();
+
+            expect(store.getEmbedding('test.md')!.chunks[0].content).toBe('Test content');
+            expect(store.isIndexed('test.md', content)).toBe(false);
+            expect(reindexAll).not.toHaveBeenCalled();
+            expect(logError).toHaveBeenCalledWith(
+                'Could not update 1 changed notes, they are updated on the next sync: test.md',
+                expect.any(Error)
+            );
+        });
+
         it('should handle missing embeddings file', async () => {
             const { store, mockApp } = setupEmbeddingTest();
             mockApp.vault.adapter.exists = jest.fn().mockResolvedValue(false);
@@ -374,15 +506,92 @@ describe('EmbeddingStore', () => {
             const testFile = TFile('test.md');
             const content = 'This is a test document with multiple sentences. It should be chunked properly.';
 
-            // Mock the generateEmbedding function
-            (store as any).generateEmbedding = jest.fn().mockResolvedValue(new Float32Array(384));
+            // Mock the generateEmbeddings function
+            (store as any).generateEmbeddings = jest.fn().mockResolvedValue([new Float32Array(384)]);
 
             await store.addNote(testFile, content);
 
-            expect((store as any).generateEmbedding).toHaveBeenCalled();
+            expect((store as any).generateEmbeddings).toHaveBeenCalled();
             expect(vectorStore.addEmbedding).toHaveBeenCalledWith('test.md', expect.any(Object));
         });
 
+        it('should store where each chunk sits in the note', async () => {
+            const { store } = setupEmbeddingTest();
+            const content = '# Project X\n\n## Risks\n\nThe budget is tight and two people are leaving soon.';
+            (store as any).generateEmbeddings = jest.fn().mockResolvedValue([new Float32Array(384)]);
+
+            await store.addNote(TFile('test.md'), content);
+
+            expect(store.getEmbedding('test.md')!.chunks[0].location).toEqual({
+                headings: ['Project X', 'Risks'],
+                startLine: 0,
+                endLine: 4,
+                start: 0,
+                end: content.length
+            });
+        });
+
+        it('should store the metadata Obsidian has for the note', async () => {
+            const { store, mockApp } = setupEmbeddingTest();
+            (mockApp.metadataCache.getFileCache as jest.Mock).mockReturnValue({
+                frontmatter: { status: 'draft', aliases: ['PX'] },
+                tags: [{ tag: '#Project' }]
+            });
+            (store as any).generateEmbeddings = jest.fn().mockResolvedValue([new Float32Array(384)]);
+
+            await store.addNote(TFile('test.md'), 'Some text about the project, long enough to be worth embedding.');
+
+            expect(store.getEmbedding('test.md')!.metadata).toEqual({
+                properties: { status: 'draft' },
+                tags: ['project'],
+                aliases: ['PX'],
+                links: []
+            });
+        });
+
+        it('should update the metadata of an indexed note without embedding it again', async () => {
+            const { store } = setupEmbeddingTest();
+            const file = TFile('test.md');
+            (store as any).generateEmbeddings = jest.fn().mockResolvedValue([new Float32Array(384)]);
+            await store.addNote(file, 'Some text about the project, long enough to be worth embedding.');
+            const cache = { frontmatter: { tags: ['budget'] } } as any;
+
+            expect(store.updateMetadata(file, cache)).toBe(true);
+            expect(store.updateMetadata(file, cache)).toBe(false);
+            expect(store.updateMetadata(TFile('other.md'), cache)).toBe(false);
+            expect(store.getEmbedding('test.md')!.metadata!.tags).toEqual(['budget']);
+            expect((store as any).generateEmbeddings).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not embed notes the index rules exclude, and remove them once excluded', async () => {
+            const { store, mockSettings, vectorStore } = setupEmbeddingTest();
+            const content = 'A private journal entry, long enough to be worth embedding.';
+            (store as any).generateEmbeddings = jest.fn().mockResolvedValue([new Float32Array(384)]);
+            await store.addNote(TFile('Private/journal.md'), content);
+            expect(store.getEmbedding('Private/journal.md')).toBeDefined();
+
+            mockSettings.embeddingSettings.excludePaths = ['Private'];
+            await store.addNote(TFile('Private/journal.md'), `${content} Edited.`);
+            await store.addNote(TFile('Private/other.md'), content);
+
+            expect(store.getEmbeddedPaths()).toEqual([]);
+            expect(vectorStore.removeEmbedding).toHaveBeenCalledWith('Private/journal.md');
+            expect((store as any).generateEmbeddings).toHaveBeenCalledTimes(1);
+        });
+
+        it('should only index files of other types while their extractor is enabled', async () => {
+            const { store, mockSettings } = setupEmbeddingTest();
+            const content = '## Goals\n\nShip the first version of the board in May.';
+            (store as any).generateEmbeddings = jest.fn().mockResolvedValue([new Float32Array(384)]);
+
+            await store.addNote(TFile('Board.canvas'), content);
+            expect(store.getEmbedding('Board.canvas')).toBeUndefined();
+
+            mockSettings.embeddingSettings.extractors = { canvas: true };
+            await store.addNote(TFile('Board.canvas'), content);
+            expect(store.getEmbedding('Board.canvas')!.chunks[0].location!.headings).toEqual(['Goals']);
+        });
+
         it('should handle empty content', async () => {
             const { store } = setupEmbeddingTest();
             const testFile = TFile('test.md');
@@ -397,6 +606,399 @@ describe('EmbeddingStore', () => {
         });
     });
 
+    describe('addNotes', () => {
+        const paragraph = (label: string) => `${label} describes a topic in enough words to be embedded on its own.`;
+        const note = (path: string, ...labels: string[]) => ({
+            file: TFile(path),
+            content: labels.map(paragraph).join('\n\n')
+        });
+        const inputsOf = (call: any[]) => {
+            const input = JSON.parse(call[0].body).input;
+            return Array.isArray(input) ? input : [input];
+        };
+
+        // Answer every input with a vector holding its index in the request
+        function respondPerInput() {
+            const requestUrl = require('obsidian').requestUrl;
+            requestUrl.mockImplementation(async (params: { body: string }) => ({
+                json: { data: inputsOf([params]).map((_input: string, i: number) => ({ embedding: Array(384).fill(i) })) }
+            }));
+            return requestUrl as jest.Mock;
+        }
+
+        it('should embed chunks of several notes in one request and map the vectors back', async () => {
+            const { store, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.chunkSize = 100;
+            await store.initialize();
+            const requestUrl = respondPerInput();
+
+            const failures = await store.addNotes([note('a.md', 'First', 'Second', 'Third'), note('b.md', 'Fourth')]);
+
+            expect(failures).toEqual([]);
+            expect(requestUrl).toHaveBeenCalledTimes(1);
+            const chunks = [...store.getEmbedding('a.md')!.chunks, ...store.getEmbedding('b.md')!.chunks];
+            expect(chunks.length).toBeGreaterThan(2);
+            expect(inputsOf(requestUrl.mock.calls[0])).toHaveLength(chunks.length);
+            expect(chunks.map(chunk => chunk.embedding[0])).toEqual(chunks.map((_chunk, i) => i));
+        });
+
+        it('should cap the number of inputs per request', async () => {
+            const { store } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = respondPerInput();
+            const notes = Array.from({ length: 40 }, (_value, i) => note(`note${i}.md`, `Note ${i}`));
+
+            await store.addNotes(notes);
+
+            expect(requestUrl.mock.calls.map(call => inputsOf(call).length)).toEqual([32, 8]);
+            expect(store.getEmbeddedPaths()).toHaveLength(40);
+        });
+
+        it('should send one request per chunk to servers that reject arrays', async () => {
+            const { store } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = require('obsidian').requestUrl as jest.Mock;
+            requestUrl.mockImplementation(async (params: { body: string }) => {
+                if (Array.isArray(JSON.parse(params.body).input)) {
+                    return { status: 400, json: {}, text: '{"error":"\'input\' must be a string"}' };
+                }
+                return { json: { data: [{ embedding: Array(384).fill(0.1) }] } };
+            });
+
+            await store.addNotes([note('a.md', 'First'), note('b.md', 'Second'), note('c.md', 'Third')]);
+            expect(requestUrl).toHaveBeenCalledTimes(4);
+            expect(store.getEmbeddedPaths()).toEqual(['a.md', 'b.md', 'c.md']);
+
+            // The server is remembered, so no more arrays are sent to it
+            await store.addNotes([note('d.md', 'Fourth'), note('e.md', 'Fifth')]);
+            expect(requestUrl).toHaveBeenCalledTimes(6);
+            expect(store.getEmbeddedPaths()).toHaveLength(5);
+        });
+
+        it('should only fail the notes of a failed request', async () => {
+            const { store } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = respondPerInput();
+            requestUrl.mockResolvedValueOnce({ status: 401, json: {}, text: 'Unauthorized' });
+            const notes = Array.from({ length: 33 }, (_value, i) => note(`note${i}.md`, `Note ${i}`));
+            const onNoteIndexed = jest.fn();
+
+            const failures = await store.addNotes(notes, onNoteIndexed);
+
+            expect(failures).toHaveLength(32);
+            expect(failures[0].error).toEqual(expect.objectContaining({ status: 401 }));
+            expect(store.getEmbeddedPaths()).toEqual(['note32.md']);
+            expect(onNoteIndexed).toHaveBeenCalledTimes(33);
+            expect(onNoteIndexed).toHaveBeenLastCalledWith(notes[32].file);
+        });
+
+        it('should not embed a note again when its content is unchanged', async () => {
+            const { store } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = respondPerInput();
+            const a = note('a.md', 'First', 'Second');
+
+            await store.addNotes([a]);
+            await store.addNotes([{ file: TFile('a.md'), content: a.content }]);
+
+            expect(requestUrl).toHaveBeenCalledTimes(1);
+            expect(store.isIndexed('a.md', a.content)).toBe(true);
+            expect(store.isIndexed('a.md', a.content + ' Edited')).toBe(false);
+        });
+
+        it('should only embed the chunks whose text changed', async () => {
+            const { store, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.chunkSize = 100;
+            await store.initialize();
+            const requestUrl = respondPerInput();
+            await store.addNotes([note('a.md', 'First', 'Second', 'Third')]);
+            const before = store.getEmbedding('a.md')!.chunks;
+
+            await store.addNotes([note('a.md', 'First', 'Second', 'Fixed typo in third')]);
+
+            const after = store.getEmbedding('a.md')!.chunks;
+            expect(requestUrl).toHaveBeenCalledTimes(2);
+            expect(inputsOf(requestUrl.mock.calls[1])).toHaveLength(1);
+            expect(after.slice(0, -1).map(chunk => chunk.embedding)).toEqual(before.slice(0, -1).map(chunk => chunk.embedding));
+            expect(after[after.length - 1].content).toContain('Fixed typo');
+        });
+
+        it('should reuse vectors of notes indexed without hashes', async () => {
+            const { store } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = respondPerInput();
+            const a = note('a.md', 'First');
+            await store.addNotes([a]);
+            const { hash, chunks } = store.getEmbedding('a.md')!;
+            (store as any).embeddings.set('a.md', {
+                path: 'a.md',
+                chunks: chunks.map(chunk => ({ content: chunk.content, embedding: chunk.embedding, position: chunk.position }))
+            });
+
+            expect(store.isIndexed('a.md', a.content)).toBe(false);
+            await store.addNotes([a]);
+
+            expect(requestUrl).toHaveBeenCalledTimes(1);
+            expect(store.getEmbedding('a.md')!.hash).toBe(hash);
+        });
+
+        it('should write queries and chunks with the templates of the model', async () => {
+            const { store, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.rawText = true;
+            mockSettings.embeddingSettings.templates = {
+                'text-embedding-all-minilm-l6-v2-embedding': { query: 'search_query: {text}', document: 'search_document: ' }
+            };
+            await store.initialize();
+            const requestUrl = respondPerInput();
+            const a = note('a.md', 'First');
+
+            await store.addNotes([a]);
+            await store.generateEmbedding('What does First describe?');
+
+            expect(inputsOf(requestUrl.mock.calls[0])).toEqual([`search_document: ${a.content}`]);
+            expect(inputsOf(requestUrl.mock.calls[1])).toEqual(['search_query: What does First describe?']);
+        });
+
+        it('should normalize text unless raw text is enabled', async () => {
+            const { store, mockSettings } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = respondPerInput();
+
+            await store.generateEmbedding('What does First describe?');
+            mockSettings.embeddingSettings.rawText = true;
+            await store.generateEmbedding('What does First describe?');
+
+            expect(inputsOf(requestUrl.mock.calls[0])[0]).not.toMatch(/[A-Z?]/);
+            expect(inputsOf(requestUrl.mock.calls[1])).toEqual(['What does First describe?']);
+        });
+
+        it('should keep writing texts the way the index was built until it is rebuilt', async () => {
+            const { store, mockApp, mockSettings } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = respondPerInput();
+            const a = note('a.md', 'First');
+            await store.addNotes([a]);
+            const query = 'What does First describe?';
+            const onMismatch = jest.fn();
+            document.addEventListener('ai-helper-index-model-mismatch', onMismatch);
+
+            try {
+                mockSettings.embeddingSettings.rawText = true;
+                mockSettings.embeddingSettings.templates = {
+                    'text-embedding-all-minilm-l6-v2-embedding': { query: 'query: ', document: 'passage: ' }
+                };
+                store.reportMismatch();
+                store.reportMismatch();
+            } finally {
+                document.removeEventListener('ai-helper-index-model-mismatch', onMismatch);
+            }
+            expect(store.getModelMismatch()).toBe(
+                'The index was built from normalized text, the settings select raw text, query template "query: ", document template "passage: "'
+            );
+            expect(onMismatch).toHaveBeenCalledTimes(1);
+            expect(store.isIndexed('a.md', a.content)).toBe(true);
+            await store.generateEmbedding(query);
+            expect(inputsOf(requestUrl.mock.calls[1])[0]).not.toMatch(/[A-Z?]/);
+
+            (mockApp.vault as any).cachedRead = jest.fn().mockResolvedValue(a.content);
+            await store.rebuild([vaultFile('a.md')]);
+            await store.generateEmbedding(query);
+
+            expect(store.getModelMismatch()).toBeNull();
+            expect(inputsOf(requestUrl.mock.calls[2])).toEqual([`passage: ${a.content}`]);
+            expect(inputsOf(requestUrl.mock.calls[3])).toEqual([`query: ${query}`]);
+            const manifest = JSON.parse((mockApp.vault.adapter.write as jest.Mock).mock.calls[0][1]);
+            expect(manifest.input).toEqual({ rawText: true, templates: { query: 'query: ', document: 'passage: ' } });
+        });
+
+        it('should not store a note removed while its chunks are being embedded', async () => {
+            const { store, vectorStore } = setupEmbeddingTest();
+            await store.initialize();
+            let release = () => {};
+            const gate = new Promise<void>(resolve => { release = resolve; });
+            const requestUrl = require('obsidian').requestUrl as jest.Mock;
+            requestUrl.mockImplementation(async (params: { body: string }) => {
+                await gate;
+                return { json: { data: inputsOf([params]).map(() => ({ embedding: Array(384).fill(0.1) })) } };
+            });
+
+            const indexing = store.addNotes([note('a.md', 'First')]);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            expect(requestUrl).toHaveBeenCalledTimes(1);
+            store.removeNote('a.md');
+            release();
+
+            expect(await indexing).toEqual([]);
+            expect(store.getEmbedding('a.md')).toBeUndefined();
+            expect(vectorStore.addEmbedding).not.toHaveBeenCalled();
+        });
+
+        it('should throw from addNote when its request fails', async () => {
+            const { store } = setupEmbeddingTest();
+            await store.initialize();
+            const requestUrl = require('obsidian').requestUrl;
+            requestUrl.mockRejectedValueOnce(new Error('API error'));
+
+            await expect(store.addNote(TFile('a.md'), paragraph('First'))).rejects.toThrow('API error');
+            expect(store.getEmbedding('a.md')).toBeUndefined();
+        });
+    });
+
+    describe('embedding model changes', () => {
+        const content = 'This note describes a topic in enough words to be embedded on its own.';
+
+        // Answer with vectors whose size depends on the requested model
+        function respondByModel(sizes: Record<string, number>, gate?: Promise<void>) {
+            const requestUrl = require('obsidian').requestUrl as jest.Mock;
+            requestUrl.mockClear();
+            requestUrl.mockImplementation(async (params: { body: string }) => {
+                const { model, input } = JSON.parse(params.body);
+                if (gate && model === 'new-model') await gate;
+                const inputs = Array.isArray(input) ? input : [input];
+                return { json: { data: inputs.map(() => ({ embedding: Array(sizes[model] || 384).fill(0.5) })) } };
+            });
+            return requestUrl;
+        }
+        const modelsOf = (requestUrl: jest.Mock) => requestUrl.mock.calls.map(call => JSON.parse(call[0].body).model);
+
+        // A store holding a.md, embedded with the model of the fixture
+        async function indexedStore() {
+            const test = setupEmbeddingTest();
+            (test.mockApp.vault as any).cachedRead = jest.fn().mockResolvedValue(content);
+            await test.store.initialize();
+            respondByModel({});
+            await test.store.addNotes([{ file: vaultFile('a.md'), content }]);
+            return test;
+        }
+
+        it('should record the embedding model in the saved index', async () => {
+            const { store, mockApp } = await indexedStore();
+
+            await store.saveToFile();
+
+            const manifest = JSON.parse((mockApp.vault.adapter.write as jest.Mock).mock.calls[0][1]);
+            expect(manifest).toEqual(expect.objectContaining({
+                provider: 'local',
+                model: 'text-embedding-all-minilm-l6-v2-embedding',
+                dimensions: 384
+            }));
+        });
+
+        it('should keep using the model a loaded index was built with', async () => {
+            const saved = await indexedStore();
+            await saved.store.saveToFile();
+            const { store, mockApp, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.updateMode = 'none';
+            mockSettings.embeddingSettings.localModel = 'new-model';
+            mockApp.vault.adapter.exists = jest.fn().mockImplementation(async (path: string) => path.endsWith('embeddings-index.json'));
+            mockApp.vault.adapter.read = jest.fn().mockResolvedValue((saved.mockApp.vault.adapter.write as jest.Mock).mock.calls[0][1]);
+            mockApp.vault.adapter.readBinary = jest.fn().mockResolvedValue((saved.mockApp.vault.adapter.writeBinary as jest.Mock).mock.calls[0][1]);
+            mockApp.vault.getAbstractFileByPath = jest.fn().mockImplementation(vaultFile);
+            const onMismatch = jest.fn();
+            document.addEventListener('ai-helper-index-model-mismatch', onMismatch);
+
+            try {
+                await store.loadFromFile();
+            } finally {
+                document.removeEventListener('ai-helper-index-model-mismatch', onMismatch);
+            }
+
+            expect(store.getModelMismatch()).toBe(
+                'The index was built with text-embedding-all-minilm-l6-v2-embedding (local), the settings select new-model (local)'
+            );
+            expect(onMismatch).toHaveBeenCalledTimes(1);
+            await store.initialize();
+            const requestUrl = respondByModel({ 'new-model': 768 });
+            await store.generateEmbedding('query');
+            expect(modelsOf(requestUrl)).toEqual(['text-embedding-all-minilm-l6-v2-embedding']);
+        });
+
+        it('should refuse vectors of another size instead of changing the index size', async () => {
+            const { store } = await indexedStore();
+            respondByModel({ 'text-embedding-all-minilm-l6-v2-embedding': 768 });
+
+            const failures = await store.addNotes([{ file: vaultFile('b.md'), content }]);
+
+            expect(failures).toHaveLength(1);
+            expect(String(failures[0].error)).toContain('returns 768-dimensional embeddings, the index uses 384');
+            expect((store as any).dimensions).toBe(384);
+            expect(store.getModelMismatch()).toContain('returns 768-dimensional embeddings');
+            expect(store.getEmbedding('b.md')).toBeUndefined();
+        });
+
+        it('should rebuild the index with the selected model and switch once it is complete', async () => {
+            const { store, mockApp, mockSettings, vectorStore } = await indexedStore();
+            mockSettings.embeddingSettings.localModel = 'new-model';
+            let release = () => {};
+            const requestUrl = respondByModel({ 'new-model': 768 }, new Promise<void>(resolve => { release = resolve; }));
+
+            const rebuilding = store.rebuild([vaultFile('a.md')]);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            expect(store.getEmbedding('a.md')!.chunks[0].embedding).toHaveLength(384);
+            await store.generateEmbedding('query');
+            expect(modelsOf(requestUrl)).toEqual(['new-model', 'text-embedding-all-minilm-l6-v2-embedding']);
+
+            release();
+            expect(await rebuilding).toEqual([]);
+
+            expect(store.getEmbedding('a.md')!.chunks[0].embedding).toHaveLength(768);
+            expect(store.getModelMismatch()).toBeNull();
+            expect(vectorStore.setDimensions).toHaveBeenCalledWith(768);
+            expect(vectorStore.addEmbedding).toHaveBeenLastCalledWith('a.md', store.getEmbedding('a.md'));
+            const manifest = JSON.parse((mockApp.vault.adapter.write as jest.Mock).mock.calls[0][1]);
+            expect(manifest).toEqual(expect.objectContaining({ model: 'new-model', dimensions: 768 }));
+        });
+
+        it('should keep the current index when the rebuild fails', async () => {
+            const { store, mockApp, mockSettings } = await indexedStore();
+            mockSettings.embeddingSettings.localModel = 'new-model';
+            require('obsidian').requestUrl.mockRejectedValue(new Error('Model not loaded'));
+
+            await expect(store.rebuild([vaultFile('a.md')])).rejects.toThrow('Model not loaded');
+
+            expect(store.getEmbedding('a.md')!.chunks[0].embedding).toHaveLength(384);
+            expect(store.getModelMismatch()).toContain('the settings select new-model (local)');
+            expect(mockApp.vault.adapter.write).not.toHaveBeenCalled();
+        });
+
+        it('should estimate the tokens and price of a rebuild', async () => {
+            const { store, mockSettings } = await indexedStore();
+            mockSettings.embeddingSettings.provider = 'openai';
+            mockSettings.modelPrices = { 'text-embedding-3-small': { input: 0.02, output: 0 } };
+
+            const estimate = store.estimateRebuild();
+
+            expect(estimate.notes).toBe(1);
+            expect(estimate.tokens).toBeGreaterThan(0);
+            expect(estimate.cost).toBeCloseTo(estimate.tokens * 0.02 / 1000000);
+        });
+    });
+
+    describe('built-in embeddings', () => {
+        it('should find the note a query is about without any server', async () => {
+            const { mockApp, mockSettings } = setupEmbeddingTest();
+            mockSettings.embeddingSettings.provider = 'builtin';
+            mockSettings.chatSettings = { titleMatchBoost: 0, maxRecencyBoost: 0, recencyBoostWindow: 30 } as Settings['chatSettings'];
+            const RealVectorStore = jest.requireActual('../chat/vectorStore').VectorStore as typeof VectorStore;
+            const vectorStore = new RealVectorStore(384, mockSettings);
+            const store = new EmbeddingStore(mockSettings, vectorStore, mockApp);
+            await store.initialize();
+
+            await store.addNotes([
+                { file: TFile('Baking.md'), content: 'Sourdough bread needs a lively starter. Feed it flour and water the night before baking the loaf.' },
+                { file: TFile('Taxes.md'), content: 'Freelancers file quarterly estimated taxes. Keep receipts for deductible business expenses.' },
+                { file: TFile('Running.md'), content: 'Marathon training plan: long runs on Sundays, intervals on Wednesdays, rest before race day.' }
+            ]);
+            const query = await store.generateEmbedding('how do I bake bread with a starter');
+            const results = await vectorStore.search(query, { similarity: 0, limit: 3 });
+
+            expect(results.map(result => result.path)).toEqual(['Baking.md', expect.any(String), expect.any(String)]);
+            expect(results[0].score).toBeGreaterThan(results[1].score);
+            expect((store as any).dimensions).toBe(512);
+            expect(require('obsidian').requestUrl).not.toHaveBeenCalled();
+        });
+    });
+
     describe('searchNotes', () => {
         it('should search notes and return results', async () => {
             const { store, vectorStore } = setupEmbeddingTest();
@@ -487,9 +1089,24 @@ describe('EmbeddingStore', () => {
             // Get the arguments from the mock call without accessing .mock property
             const writePath = (mockApp.vault.adapter.write as jest.Mock).mock.calls[0][0];
             const writeData = (mockApp.vault.adapter.write as jest.Mock).mock.calls[0][1];
+            expect(writePath).toBe('.obsidian/plugins/obsidian-ai-helper/embeddings-index.json');
             expect(typeof writeData).toBe('string');
             expect(JSON.parse(writeData).embeddings).toBeDefined();
             expect(JSON.parse(writeData).embeddings['test.md']).toBeDefined();
+
+            // Vectors go to a binary file instead of the JSON manifest
+            const [vectorsPath, vectors] = (mockApp.vault.adapter.writeBinary as jest.Mock).mock.calls[0];
+            expect(vectorsPath).toBe('.obsidian/plugins/obsidian-ai-helper/embeddings.bin');
+            expect(vectors.byteLength).toBe(10 * 4);
+            expect(writeData).not.toContain('"embedding"');
+        });
+
+        it('should write once more for saves requested while saving', async () => {
+            const { store, mockApp } = setupEmbeddingTest();
+
+            await Promise.all([store.saveToFile(), store.saveToFile(), store.saveToFile()]);
+
+            expect(mockApp.vault.adapter.write).toHaveBeenCalledTimes(2);
         });
 
         it('should handle write errors', async () => {
@@ -568,6 +1185,30 @@ describe('EmbeddingStore', () => {
             expect(embedding.length).toBe(384);
         });
 
+        it('should generate Ollama embeddings from /api/embed', async () => {
+            const { store } = setupEmbeddingTest({
+                embeddingSettings: {
+                    provider: 'ollama',
+                    ollamaApiUrl: 'http://localhost:11434/api/embed',
+                    ollamaModel: 'all-minilm'
+                }
+            });
+
+            const requestUrl = require('obsidian').requestUrl;
+            requestUrl.mockResolvedValueOnce({
+                json: { model: 'all-minilm', embeddings: [Array(384).fill(0.2)] }
+            });
+
+            const embedding = await (store as any).generateProviderEmbedding('test text');
+
+            const request = requestUrl.mock.calls[0][0];
+            expect(request.url).toBe('http://localhost:11434/api/embed');
+            expect(JSON.parse(request.body)).toEqual({ model: 'all-minilm', input: 'test text' });
+            expect(request.headers['Authorization']).toBeUndefined();
+            expect(embedding).toBeInstanceOf(Float32Array);
+            expect(embedding.length).toBe(384);
+        });
+
         it('should handle API errors', async () => {
             const { store } = setupEmbeddingTest();
 
@@ -706,37 +1347,6 @@ describe('EmbeddingStore', () => {
         });
     });
 
-    describe('getOverlapText', () => {
-        it('should get the correct overlap text', () => {
-            const { store } = setupEmbeddingTest();
-            const text = 'This is a sample text with multiple words to test overlap functionality.';
-            const overlapLength = 20;
-
-            const overlapText = (store as any).getOverlapText(text, overlapLength);
-
-            expect(overlapText.length).toBeLessThanOrEqual(overlapLength);
-            expect(text).toContain(overlapText);
-            expect(overlapText).toBe(text.slice(-overlapLength));
-        });
-
-        it('should handle empty text', () => {
-            const { store } = setupEmbeddingTest();
-
-            const overlapText = (store as any).getOverlapText('', 20);
-
-            expect(overlapText).toBe('');
-        });
-
-        it('should handle text shorter than overlap length', () => {
-            const { store } = setupEmbeddingTest();
-            const shortText = 'Short text';
-
-            const overlapText = (store as any).getOverlapText(shortText, 20);
-
-            expect(overlapText).toBe(shortText);
-        });
-    });
-
     describe('initializeEmbeddingSystem', () => {
         // Create a separate module mock for the initialization function
         beforeEach(() => {
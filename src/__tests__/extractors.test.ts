@@ -0,0 +1,149 @@
+import { App, TFile } from 'obsidian';
+import { EmbeddingSettings } from '../settings';
+import {
+  getContentExtractor,
+  getContentExtractors,
+  getIndexableFiles,
+  isIndexableFile,
+  readFileContent,
+  registerContentExtractor
+} from '../extractors';
+import { canvasExtractor } from '../extractors/canvasExtractor';
+import { csvExtractor } from '../extractors/csvExtractor';
+
+const file = (path: string) => new (TFile as any)(path, path.split('/').pop()!.replace(/\.\w+$/, ''), { mtime: 0 });
+
+const node = (id: string, x: number, y: number, fields: object, width = 100, height = 50) =>
+  ({ id, x, y, width, height, ...fields });
+
+describe('canvasExtractor', () => {
+  it('should list cards in reading order under the label of their group', () => {
+    const canvas = {
+      nodes: [
+        node('goals', 0, 0, { type: 'group', label: 'Goals' }, 400, 400),
+        node('risks', 500, 0, { type: 'group', label: 'Risks' }, 400, 400),
+        node('budget', 520, 20, { type: 'text', text: 'The budget is tight.' }),
+        node('ship', 20, 100, { type: 'text', text: 'Ship in May.' }),
+        node('plan', 20, 20, { type: 'file', file: 'Projects/Plan.md', subpath: '#Milestones' }),
+        node('intro', -300, -100, { type: 'text', text: '# Project X\nA new product line.' }),
+        node('site', -300, 100, { type: 'link', url: 'https://example.com' })
+      ],
+      edges: [
+        { id: 'e1', fromNode: 'budget', toNode: 'ship', label: 'threatens' },
+        { id: 'e2', fromNode: 'intro', toNode: 'plan' }
+      ]
+    };
+
+    expect(canvasExtractor.extract(JSON.stringify(canvas))).toBe([
+      '# Project X\nA new product line.',
+      'https://example.com',
+      '## Goals',
+      '![[Projects/Plan.md#Milestones]]',
+      'Ship in May.',
+      '## Risks',
+      'The budget is tight.',
+      '## Connections',
+      '- The budget is tight. → Ship in May.: threatens'
+    ].join('\n\n'));
+  });
+
+  it('should place a card in the innermost of nested groups', () => {
+    const canvas = {
+      nodes: [
+        node('outer', 0, 0, { type: 'group', label: 'Outer' }, 1000, 1000),
+        node('inner', 100, 100, { type: 'group', label: 'Inner' }, 300, 300),
+        node('card', 150, 150, { type: 'text', text: 'Deep card' })
+      ]
+    };
+
+    expect(canvasExtractor.extract(JSON.stringify(canvas))).toBe('## Inner\n\nDeep card');
+  });
+
+  it('should return nothing for an empty canvas or invalid JSON', () => {
+    expect(canvasExtractor.extract('')).toBe('');
+    expect(canvasExtractor.extract('{}')).toBe('');
+    expect(canvasExtractor.extract('{ nodes: ')).toBe('');
+  });
+});
+
+describe('csvExtractor', () => {
+  it('should name every value of a row by its column', () => {
+    const csv = 'Item,Cost,Owner\nChairs,120,Ana\nDesks,,Ben\n';
+
+    expect(csvExtractor.extract(csv)).toBe([
+      'Columns: Item, Cost, Owner',
+      '- Item: Chairs; Cost: 120; Owner: Ana',
+      '- Item: Desks; Owner: Ben'
+    ].join('\n'));
+  });
+
+  it('should read quoted fields, other delimiters and Windows line breaks', () => {
+    const csv = '\uFEFFName;Note\r\n"Smith; John";"Said ""hi""\nand left"\r\n';
+
+    expect(csvExtractor.extract(csv)).toBe([
+      'Columns: Name, Note',
+      '- Name: Smith; John; Note: Said "hi"\nand left'
+    ].join('\n'));
+  });
+
+  it('should name columns without a header', () => {
+    expect(csvExtractor.extract('a\tb\n1\t2\t3')).toBe('Columns: a, b\n- a: 1; b: 2; Column 3: 3');
+  });
+});
+
+describe('extractors', () => {
+  const settings = { extractors: { canvas: true, csv: false } } as unknown as EmbeddingSettings;
+
+  it('should index notes and files of enabled extractors only', () => {
+    expect(isIndexableFile(file('Note.md'), settings)).toBe(true);
+    expect(isIndexableFile(file('Board.canvas'), settings)).toBe(true);
+    expect(isIndexableFile(file('Export.csv'), settings)).toBe(false);
+    expect(isIndexableFile(file('Photo.png'), settings)).toBe(false);
+    expect(isIndexableFile(null, settings)).toBe(false);
+    expect(isIndexableFile(file('Board.canvas'), {} as EmbeddingSettings)).toBe(false);
+  });
+
+  it('should only list the other files of the vault when an extractor is enabled', () => {
+    const notes = [file('Note.md')];
+    const app = new App();
+    (app.vault as any).getMarkdownFiles = jest.fn(() => notes);
+    (app.vault as any).getFiles = jest.fn(() => [...notes, file('Board.canvas'), file('Log.txt')]);
+
+    expect(getIndexableFiles(app, settings).map(f => f.path)).toEqual(['Note.md', 'Board.canvas']);
+    expect(getIndexableFiles(app, { extractors: { canvas: false } } as unknown as EmbeddingSettings)).toBe(notes);
+    expect(app.vault.getFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read files through their extractor', async () => {
+    const app = new App();
+    (app.vault as any).cachedRead = jest.fn(async (f: TFile) =>
+      f.extension === 'csv' ? 'a,b\n1,2' : '# Note');
+
+    expect(await readFileContent(app, file('Data.csv'))).toBe('Columns: a, b\n- a: 1; b: 2');
+    expect(await readFileContent(app, file('Note.md'))).toBe('# Note');
+  });
+
+  it('should read valid files next to a canvas that is still being synced', async () => {
+    const app = new App();
+    const contents: Record<string, string> = {
+      'Note.md': '# Note',
+      'Board.canvas': JSON.stringify({ nodes: [{ id: '1', type: 'text', text: 'Card', x: 0, y: 0, width: 1, height: 1 }] }),
+      'Broken.canvas': '{"nodes": [{"id": "1", "type": "te'
+    };
+    (app.vault as any).cachedRead = jest.fn(async (f: TFile) => contents[f.path]);
+
+    const texts = await Promise.all(Object.keys(contents).map(path => readFileContent(app, file(path))));
+
+    expect(texts).toEqual(['# Note', 'Card', '']);
+  });
+
+  it('should accept extractors for more file types', () => {
+    const extractor = { label: 'Org', extract: (content: string) => content.replace(/^\* /gm, '# ') };
+
+    registerContentExtractor('ORG', extractor);
+
+    expect(getContentExtractor(file('Todo.org'))).toBe(extractor);
+    expect(Object.keys(getContentExtractors())).toEqual(['canvas', 'txt', 'csv', 'org']);
+    expect(getContentExtractor(file('Note.md'))).toBeUndefined();
+  });
+});
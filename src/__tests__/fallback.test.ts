@@ -0,0 +1,278 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { App, requestUrl } from 'obsidian';
+import { Settings, ChatSettings, EmbeddingSettings } from '../settings';
+import { ProviderError, createProviderChain, getProviderChain, isFailoverError } from '../providers';
+import { LLMConnector } from '../chat/llmConnector';
+import { EmbeddingStore } from '../chat/embeddingStore';
+import { VectorStore } from '../chat/vectorStore';
+import { createJsonResponse, createStreamResponse, stubFetch } from '../__mocks__/providerStub';
+
+// Polyfill TextEncoder and TextDecoder for Node.js environment
+global.TextEncoder = TextEncoder as any;
+global.TextDecoder = TextDecoder as any;
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+jest.mock('obsidian', () => ({
+  App: jest.fn(),
+  Notice: jest.fn(),
+  requestUrl: jest.fn()
+}));
+
+const chatSettings = {
+  provider: 'local',
+  fallbackProviders: ['openai'],
+  localApiUrl: 'http://localhost:1234/v1/chat/completions',
+  localModel: 'gemma-3-12b-it',
+  openaiModel: 'gpt-4.1-nano',
+  openaiApiUrl: 'https://api.openai.com/v1/chat/completions',
+  openaiApiKey: 'test-key',
+  maxTokens: 500,
+  temperature: 0.7
+} as ChatSettings;
+
+const embeddingSettings = {
+  provider: 'local',
+  fallbackProviders: ['ollama', 'openai'],
+  localApiUrl: 'http://localhost:1234/v1/embeddings',
+  localModel: 'text-embedding-all-minilm-l6-v2-embedding',
+  ollamaApiUrl: 'http://localhost:11434/api/embed',
+  ollamaModel: 'all-minilm',
+  openaiModel: 'text-embedding-3-small',
+  openaiApiUrl: 'https://api.openai.com/v1/embeddings',
+  openaiApiKey: 'test-key'
+} as EmbeddingSettings;
+
+function createSettings(): Settings {
+  return {
+    debugMode: false,
+    maxRetries: 0,
+    retryBaseDelay: 0,
+    chatSettings: { ...chatSettings },
+    embeddingSettings: { ...embeddingSettings }
+  } as Settings;
+}
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+describe('Provider fallback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isFailoverError', () => {
+    it('should fail over when the provider is unreachable or broken', () => {
+      expect(isFailoverError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isFailoverError(new Error('net::ERR_CONNECTION_REFUSED'))).toBe(true);
+      expect(isFailoverError(new ProviderError('HTTP error! Status: 502', 'local', 502))).toBe(true);
+      expect(isFailoverError(new ProviderError('HTTP error! Status: 408', 'local', 408))).toBe(true);
+    });
+
+    it('should not fail over on client errors or aborts', () => {
+      expect(isFailoverError(new ProviderError('HTTP error! Status: 401', 'openai', 401))).toBe(false);
+      expect(isFailoverError(new ProviderError('HTTP error! Status: 429', 'openai', 429))).toBe(false);
+
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      expect(isFailoverError(abortError)).toBe(false);
+    });
+  });
+
+  describe('provider chain', () => {
+    it('should list the selected provider first without duplicates', () => {
+      expect(getProviderChain({ ...chatSettings, fallbackProviders: ['openai', 'local', 'openai'] })).toEqual(['local', 'openai']);
+      expect(getProviderChain({ ...chatSettings, fallbackProviders: undefined })).toEqual(['local']);
+    });
+
+    it('should leave out fallbacks that are not configured', () => {
+      const providers = createProviderChain({ ...chatSettings, fallbackProviders: ['anthropic', 'openai'] }, createSettings());
+
+      expect(providers.map(provider => provider.type)).toEqual(['local', 'openai']);
+    });
+
+    it('should still report configuration errors of the selected provider', () => {
+      expect(() => createProviderChain({ ...chatSettings, localApiUrl: '' }, createSettings())).toThrow('Local API URL is missing');
+    });
+  });
+
+  describe('chat', () => {
+    it('should answer from the next provider when the first is down', async () => {
+      const stub = jest.fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(createJsonResponse({
+          choices: [{ message: { content: 'Hi from OpenAI' } }],
+          usage: { prompt_tokens: 9, completion_tokens: 4 }
+        }));
+      global.fetch = stub;
+
+      const response = await new LLMConnector(createSettings()).generateResponse(messages);
+
+      expect(stub.mock.calls.map(call => call[0])).toEqual([chatSettings.localApiUrl, chatSettings.openaiApiUrl]);
+      expect(response).toEqual({
+        role: 'assistant',
+        content: 'Hi from OpenAI',
+        usage: { model: 'gpt-4.1-nano', inputTokens: 9, outputTokens: 4, cost: 0 },
+        provider: 'OpenAI (gpt-4.1-nano)',
+        unavailableProviders: ['Local']
+      });
+    });
+
+    it('should fail over on server errors but not on auth errors', async () => {
+      stubFetch(
+        createJsonResponse({ error: 'overloaded' }, 503),
+        createJsonResponse({ choices: [{ message: { content: 'Hi' } }] })
+      );
+      await expect(new LLMConnector(createSettings()).generateResponse(messages)).resolves.toMatchObject({ content: 'Hi' });
+
+      const stub = stubFetch(createJsonResponse({ error: 'invalid key' }, 401));
+      await expect(new LLMConnector(createSettings()).generateResponse(messages)).rejects.toMatchObject({ status: 401 });
+      expect(stub).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail over a stream that could not connect', async () => {
+      stubFetch(
+        createJsonResponse({ error: 'bad gateway' }, 502),
+        createStreamResponse(['data: {"choices":[{"delta":{"content":"Hello"}}]}\n\n', 'data: [DONE]\n\n'])
+      );
+      const updates: string[] = [];
+
+      const response = await new LLMConnector(createSettings()).streamResponse(messages, content => updates.push(content));
+
+      expect(updates).toEqual(['Hello']);
+      expect(response.provider).toBe('OpenAI (gpt-4.1-nano)');
+    });
+
+    it('should keep the partial answer and its provider when a stream breaks off', async () => {
+      const response = createStreamResponse(['data: {"choices":[{"delta":{"content":"Hello"}}]}\n\n']);
+      const reader = response.body.getReader();
+      reader.read
+        .mockResolvedValueOnce({ done: false, value: new TextEncoder().encode('data: {"choices":[{"delta":{"content":"Hello"}}]}\n\n') })
+        .mockRejectedValueOnce(new TypeError('network error'));
+      response.body.getReader = () => reader;
+      stubFetch(createJsonResponse({ error: 'bad gateway' }, 502), response);
+      const updates: string[] = [];
+
+      const message = await new LLMConnector(createSettings()).streamResponse(messages, content => updates.push(content));
+
+      expect(updates).toEqual(['Hello']);
+      expect(message).toEqual({
+        role: 'assistant',
+        content: 'Hello',
+        usage: expect.objectContaining({ model: 'gpt-4.1-nano', outputTokens: expect.any(Number) }),
+        provider: 'OpenAI (gpt-4.1-nano)',
+        unavailableProviders: ['Local']
+      });
+      expect(message.usage!.inputTokens).toBeGreaterThan(0);
+    });
+
+    it('should name the unavailable providers when none of them answers', async () => {
+      stubFetch(createJsonResponse({ error: 'bad gateway' }, 502), createJsonResponse({ error: 'overloaded' }, 503));
+      const unavailable = await new LLMConnector(createSettings()).streamResponse(messages, jest.fn());
+
+      expect(unavailable.content).toBe("I apologize, but I couldn't generate a response because Local, OpenAI were unavailable. Please try again later.");
+      expect(unavailable.provider).toBeUndefined();
+
+      stubFetch(createJsonResponse({ error: 'bad gateway' }, 502), createJsonResponse({ error: 'invalid key' }, 401));
+      const unauthorized = await new LLMConnector(createSettings()).streamResponse(messages, jest.fn());
+
+      expect(unauthorized.content).toContain('Please check your API key');
+    });
+
+    it('should note the selected provider when it answers', async () => {
+      stubFetch(createJsonResponse({
+        choices: [{ message: { content: 'Hi' } }],
+        usage: { prompt_tokens: 9, completion_tokens: 1 }
+      }));
+
+      const response = await new LLMConnector(createSettings()).generateResponse(messages);
+
+      expect(response).toEqual({
+        role: 'assistant',
+        content: 'Hi',
+        usage: { model: 'gemma-3-12b-it', inputTokens: 9, outputTokens: 1, cost: 0 },
+        provider: 'Local (gemma-3-12b-it)'
+      });
+    });
+
+    it('should answer from the next provider when the first does not answer in time', async () => {
+      const settings = createSettings();
+      settings.chatSettings.requestTimeout = 0.01;
+      const stub = jest.fn()
+        .mockReturnValueOnce(new Promise(() => undefined))
+        .mockResolvedValueOnce(createJsonResponse({
+          choices: [{ message: { content: 'Hi from OpenAI' } }],
+          usage: { prompt_tokens: 9, completion_tokens: 4 }
+        }));
+      global.fetch = stub;
+
+      const response = await new LLMConnector(settings).generateResponse(messages);
+
+      expect(stub.mock.calls.map(call => call[0])).toEqual([chatSettings.localApiUrl, chatSettings.openaiApiUrl]);
+      expect(response).toMatchObject({
+        content: 'Hi from OpenAI',
+        provider: 'OpenAI (gpt-4.1-nano)',
+        unavailableProviders: ['Local']
+      });
+    });
+  });
+
+  describe('embeddings', () => {
+    // A store whose index holds 3-dimensional vectors
+    function createStore(settings: Settings) {
+      const store = new EmbeddingStore(settings, new VectorStore(3, settings), new App());
+      (store as any).dimensions = 3;
+      return store;
+    }
+
+    it('should fall back to a model with the same dimensions', async () => {
+      (requestUrl as jest.Mock)
+        .mockResolvedValueOnce({ status: 503, headers: {}, json: {} })
+        .mockResolvedValueOnce({ status: 200, headers: {}, json: { embeddings: [[0.1, 0.2, 0.3]] } });
+
+      const embedding = await createStore(createSettings()).generateProviderEmbedding('text');
+
+      expect(Array.from(embedding)).toHaveLength(3);
+      expect((requestUrl as jest.Mock).mock.calls[1][0].url).toBe(embeddingSettings.ollamaApiUrl);
+    });
+
+    it('should fall back when the embedding model does not answer in time', async () => {
+      (requestUrl as jest.Mock)
+        .mockReturnValueOnce(new Promise(() => undefined))
+        .mockResolvedValueOnce({ status: 200, headers: {}, json: { embeddings: [[0.1, 0.2, 0.3]] } });
+      const settings = createSettings();
+      settings.embeddingSettings.requestTimeout = 0.01;
+
+      const embedding = await createStore(settings).generateProviderEmbedding('text');
+
+      expect(Array.from(embedding)).toHaveLength(3);
+      expect((requestUrl as jest.Mock).mock.calls[1][0].url).toBe(embeddingSettings.ollamaApiUrl);
+    });
+
+    it('should skip fallback models with a different number of dimensions', async () => {
+      (requestUrl as jest.Mock)
+        .mockRejectedValueOnce(new Error('net::ERR_CONNECTION_REFUSED'))
+        .mockResolvedValueOnce({ status: 200, headers: {}, json: { embeddings: [[0.1, 0.2]] } })
+        .mockResolvedValueOnce({ status: 200, headers: {}, json: { data: [{ embedding: [0.4, 0.5, 0.6] }] } });
+      const store = createStore(createSettings());
+
+      const embedding = await store.generateProviderEmbedding('text');
+
+      expect(Array.from(embedding)).toHaveLength(3);
+      expect((requestUrl as jest.Mock).mock.calls[2][0].url).toBe(embeddingSettings.openaiApiUrl);
+      expect((store as any).dimensions).toBe(3);
+    });
+
+    it('should fail when no fallback matches the index', async () => {
+      (requestUrl as jest.Mock)
+        .mockRejectedValueOnce(new Error('net::ERR_CONNECTION_REFUSED'))
+        .mockResolvedValueOnce({ status: 200, headers: {}, json: { embeddings: [[0.1, 0.2]] } })
+        .mockResolvedValueOnce({ status: 200, headers: {}, json: { data: [{ embedding: [0.4] }] } });
+
+      await expect(createStore(createSettings()).generateProviderEmbedding('text'))
+        .rejects.toThrow('OpenAI (text-embedding-3-small) returns 1-dimensional embeddings, the index uses 3');
+    });
+  });
+});
@@ -39,15 +39,20 @@ jest.mock('../chat/embeddingStore', () => {
     const mockEmbeddingStore = {
         removeNote: jest.fn(),
         addNote: jest.fn().mockResolvedValue(undefined),
+        addNotes: jest.fn().mockResolvedValue([]),
         saveToFile: jest.fn().mockResolvedValue(undefined),
         getEmbeddedPaths: jest.fn().mockReturnValue([]),
-        getEmbedding: jest.fn()
+        getEmbedding: jest.fn(),
+        updateMetadata: jest.fn().mockReturnValue(false),
+        isExcluded: jest.fn().mockReturnValue(false),
+        setRetryListener: jest.fn()
     };
 
     return {
         globalEmbeddingStore: mockEmbeddingStore,
         isGloballyInitialized: false,
-        globalInitializationPromise: null
+        globalInitializationPromise: null,
+        formatRetryStatus: jest.fn()
     };
 });
 
@@ -313,6 +318,60 @@ describe('FileUpdateManager', () => {
         });
     });
 
+    describe('index rules', () => {
+        it('should remove an excluded note instead of reindexing it', async () => {
+            const testFile = createTFileMock('Private/journal.md');
+            (globalEmbeddingStore as any).isExcluded.mockReturnValueOnce(true);
+            (globalEmbeddingStore as any).getEmbedding.mockReturnValueOnce({ path: testFile.path, chunks: [] });
+
+            await fileUpdateManager.reindexFile(testFile);
+
+            expect(mockApp.vault.cachedRead).not.toHaveBeenCalled();
+            expect(globalEmbeddingStore?.addNote).not.toHaveBeenCalled();
+            expect(globalEmbeddingStore?.removeNote).toHaveBeenCalledWith('Private/journal.md');
+            expect(globalEmbeddingStore?.saveToFile).toHaveBeenCalled();
+        });
+
+        it('should remove a note once its metadata excludes it', async () => {
+            const testFile = createTFileMock('test.md');
+            (globalEmbeddingStore as any).isExcluded.mockReturnValueOnce(true);
+            (globalEmbeddingStore as any).getEmbedding.mockReturnValueOnce({ path: testFile.path, chunks: [] });
+
+            await fileUpdateManager.updateMetadata(testFile, { frontmatter: { 'ai-index': false } } as any);
+
+            expect(globalEmbeddingStore?.removeNote).toHaveBeenCalledWith('test.md');
+            expect((globalEmbeddingStore as any).updateMetadata).not.toHaveBeenCalled();
+        });
+
+        it('should stop a note excluded while its embedding is pending from being stored', async () => {
+            const testFile = createTFileMock('new.md');
+            (globalEmbeddingStore as any).isExcluded.mockReturnValueOnce(true);
+            (globalEmbeddingStore as any).getEmbedding.mockReturnValueOnce(undefined);
+
+            await fileUpdateManager.updateMetadata(testFile, { frontmatter: { 'ai-index': false } } as any);
+
+            // Removing marks the running job, whose vectors are then dropped
+            expect(globalEmbeddingStore?.removeNote).toHaveBeenCalledWith('new.md');
+            expect(globalEmbeddingStore?.saveToFile).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updateMetadata', () => {
+        it('should save the index only when the metadata changed', async () => {
+            const testFile = createTFileMock('test.md');
+            const cache = { frontmatter: { tags: ['budget'] } } as any;
+            const updateMetadata = (globalEmbeddingStore as any).updateMetadata as jest.Mock;
+
+            updateMetadata.mockReturnValueOnce(true);
+            await fileUpdateManager.updateMetadata(testFile, cache);
+            await fileUpdateManager.updateMetadata(testFile, cache);
+
+            expect(updateMetadata).toHaveBeenCalledWith(testFile, cache);
+            expect(globalEmbeddingStore?.saveToFile).toHaveBeenCalledTimes(1);
+            expect(globalEmbeddingStore?.addNote).not.toHaveBeenCalled();
+        });
+    });
+
     describe('rescanVaultFiles', () => {
         beforeEach(() => {
             // Reset the mock embedding store specifically for these tests
@@ -0,0 +1,114 @@
+import { hashContent } from '../chat/contentHash';
+import { decodeIndex } from '../chat/indexStorage';
+import { FutureIndexVersionError, IndexManifestV2, IndexManifestV3, IndexV1, migrateIndex } from '../chat/indexMigrations';
+
+const context = { model: { provider: 'local', model: 'nomic-embed-text' } };
+
+const version1: IndexV1 = {
+  version: 1,
+  lastUpdated: 1700000000000,
+  embeddings: {
+    'a.md': {
+      path: 'a.md',
+      chunks: [
+        { content: 'a.md chunk 0', embedding: [0.5, 0.25], position: 0 },
+        { content: 'a.md chunk 1', embedding: [-1, 1], position: 100 }
+      ],
+      lastModified: 1700000000000
+    }
+  }
+};
+
+const version2: IndexManifestV2 = {
+  version: 2,
+  lastUpdated: 1700000000000,
+  dimensions: 2,
+  vectorCount: 2,
+  embeddings: {
+    'a.md': {
+      path: 'a.md',
+      chunks: [
+        { content: 'a.md chunk 0', position: 0, vector: 0, hash: 'kept' },
+        { content: 'a.md chunk 1', position: 100, vector: 1 }
+      ],
+      lastModified: 1700000000000,
+      hash: 'note'
+    }
+  }
+};
+const vectors2 = new Float32Array([0.5, 0.25, -1, 1]).buffer;
+
+const version3: IndexManifestV3 = {
+  ...version2,
+  version: 3,
+  provider: 'local',
+  model: 'nomic-embed-text',
+  embeddings: {
+    'a.md': {
+      ...version2.embeddings['a.md'],
+      chunks: version2.embeddings['a.md'].chunks.map(chunk => ({ ...chunk, hash: `${chunk.vector}` }))
+    }
+  }
+};
+
+describe('indexMigrations', () => {
+  it('should move the vectors of a version 1 index into the vectors file', () => {
+    const { manifest, vectors } = migrateIndex({ manifest: version1, vectors: null }, context);
+
+    expect(Array.from(new Float32Array(vectors))).toEqual([0.5, 0.25, -1, 1]);
+    expect(manifest.embeddings['a.md'].chunks.map(chunk => chunk.vector)).toEqual([0, 1]);
+    expect(decodeIndex(manifest, vectors)).toEqual([{
+      embedding: {
+        path: 'a.md',
+        chunks: [
+          { content: 'a.md chunk 0', position: 0, embedding: new Float32Array([0.5, 0.25]), hash: hashContent('a.md chunk 0') },
+          { content: 'a.md chunk 1', position: 100, embedding: new Float32Array([-1, 1]), hash: hashContent('a.md chunk 1') }
+        ]
+      },
+      lastModified: 1700000000000
+    }]);
+  });
+
+  it('should record the selected model and chunk hashes in a version 2 index', () => {
+    const { manifest, vectors } = migrateIndex({ manifest: version2, vectors: vectors2 }, context);
+
+    expect(manifest).toEqual(expect.objectContaining({ provider: 'local', model: 'nomic-embed-text', vectorCount: 2 }));
+    expect(manifest.embeddings['a.md'].chunks.map(chunk => chunk.hash)).toEqual(['kept', hashContent('a.md chunk 1')]);
+    expect(vectors).toBe(vectors2);
+  });
+
+  it('should have notes of a version 3 index split again to record chunk locations', () => {
+    const { manifest, vectors } = migrateIndex({ manifest: version3, vectors: vectors2 }, context);
+
+    expect(manifest).toEqual(expect.objectContaining({ version: 4, provider: 'local', model: 'nomic-embed-text' }));
+    expect(manifest.embeddings['a.md'].hash).toBeUndefined();
+    expect(manifest.embeddings['a.md'].chunks).toEqual(version3.embeddings['a.md'].chunks);
+    expect(vectors).toBe(vectors2);
+  });
+
+  it('should keep the model a version 2 index already recorded', () => {
+    const saved = { ...version2, provider: 'openai', model: 'text-embedding-3-small' };
+
+    const { manifest } = migrateIndex({ manifest: saved, vectors: vectors2 }, context);
+
+    expect(manifest).toEqual(expect.objectContaining({ provider: 'openai', model: 'text-embedding-3-small' }));
+  });
+
+  it('should leave an index of the current version as it is', () => {
+    const current = migrateIndex({ manifest: version2, vectors: vectors2 }, context);
+
+    expect(migrateIndex(current, context)).toEqual(current);
+  });
+
+  it('should refuse an index saved by a newer version of the plugin', () => {
+    const future = { manifest: { version: 99 }, vectors: new ArrayBuffer(0) };
+
+    expect(() => migrateIndex(future, context)).toThrow(FutureIndexVersionError);
+    expect(() => migrateIndex(future, context)).toThrow('newer version of the plugin (format 99, this version reads up to 4)');
+  });
+
+  it('should reject an index without a known version', () => {
+    expect(() => migrateIndex({ manifest: {} as any, vectors: null }, context))
+      .toThrow('Unsupported embedding index version: undefined');
+  });
+});
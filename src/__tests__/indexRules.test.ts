@@ -0,0 +1,67 @@
+import { getExclusionReason, matchesPathGlob } from '../chat/indexRules';
+import { NoteMetadata } from '../chat/noteMetadata';
+
+const metadata = (tags: string[], properties: { [key: string]: unknown } = {}): NoteMetadata =>
+  ({ properties, tags, aliases: [], links: [] });
+
+describe('matchesPathGlob', () => {
+  it('should match a folder and everything inside it', () => {
+    expect(matchesPathGlob('Templates/Daily.md', 'Templates')).toBe(true);
+    expect(matchesPathGlob('Templates/Weekly/Plan.md', '/Templates/')).toBe(true);
+    expect(matchesPathGlob('Templates.md', 'Templates')).toBe(false);
+    expect(matchesPathGlob('Notes/Templates/Daily.md', 'Templates')).toBe(false);
+  });
+
+  it('should keep single stars and question marks within a folder', () => {
+    expect(matchesPathGlob('Journal/2024-01-01.md', 'Journal/2024-*.md')).toBe(true);
+    expect(matchesPathGlob('Journal/2024/01.md', 'Journal/2024*.md')).toBe(false);
+    expect(matchesPathGlob('Logs/a1.md', 'Logs/a?.md')).toBe(true);
+    expect(matchesPathGlob('Logs/a/.md', 'Logs/a?.md')).toBe(false);
+  });
+
+  it('should let double stars cross folders, including none', () => {
+    expect(matchesPathGlob('Drawing.excalidraw.md', '**/*.excalidraw.md')).toBe(true);
+    expect(matchesPathGlob('Art/2024/Drawing.excalidraw.md', '**/*.excalidraw.md')).toBe(true);
+    expect(matchesPathGlob('Projects/Old/Archive/Plan.md', 'Projects/**/Archive')).toBe(true);
+    expect(matchesPathGlob('Drawing.md', '**/*.excalidraw.md')).toBe(false);
+  });
+
+  it('should treat other characters literally and ignore empty globs', () => {
+    expect(matchesPathGlob('Notes (old)/a.md', 'Notes (old)')).toBe(true);
+    expect(matchesPathGlob('Notesxold/a.md', 'Notes.old')).toBe(false);
+    expect(matchesPathGlob('a.md', '  ')).toBe(false);
+  });
+});
+
+describe('getExclusionReason', () => {
+  const rules = {
+    includePaths: ['Projects', 'Areas'],
+    excludePaths: ['Projects/Archive'],
+    excludeTags: ['#private']
+  };
+
+  it('should index notes the rules allow', () => {
+    expect(getExclusionReason('Projects/Plan.md', metadata(['work']), rules)).toBeNull();
+    expect(getExclusionReason('Inbox/Idea.md', metadata([]), {})).toBeNull();
+  });
+
+  it('should exclude notes outside the included paths or in an excluded one', () => {
+    expect(getExclusionReason('Inbox/Idea.md', metadata([]), rules)).toBe('outside the included paths');
+    expect(getExclusionReason('Projects/Archive/Old.md', metadata([]), rules)).toBe('matches Projects/Archive');
+  });
+
+  it('should exclude notes with an excluded tag or one nested below it', () => {
+    expect(getExclusionReason('Areas/Health.md', metadata(['private/health']), rules)).toBe('tagged #private');
+  });
+
+  it('should exclude notes that opt out in their properties', () => {
+    expect(getExclusionReason('Areas/Health.md', metadata([], { 'ai-index': false }), rules)).toBe('ai-index: false');
+    expect(getExclusionReason('Areas/Health.md', metadata([], { 'ai-index': 'False' }), rules)).toBe('ai-index: false');
+    expect(getExclusionReason('Areas/Health.md', metadata([], { 'ai-index': true }), rules)).toBeNull();
+  });
+
+  it('should only check the paths without metadata', () => {
+    expect(getExclusionReason('Areas/Health.md', undefined, rules)).toBeNull();
+    expect(getExclusionReason('Projects/Archive/Old.md', undefined, rules)).toBe('matches Projects/Archive');
+  });
+});
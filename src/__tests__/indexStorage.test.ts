@@ -0,0 +1,58 @@
+import { StoredNote, decodeIndex, encodeIndex } from '../chat/indexStorage';
+
+const model = { provider: 'local', model: 'nomic-embed-text' };
+
+const note = (path: string, ...vectors: number[][]): StoredNote => ({
+  embedding: {
+    path,
+    chunks: vectors.map((vector, i) => ({
+      content: `${path} chunk ${i}`,
+      embedding: new Float32Array(vector),
+      position: i * 100,
+      hash: `${path}#${i}`,
+      location: { headings: ['Project', `Part ${i}`], startLine: i * 10, endLine: i * 10 + 9, start: i * 100, end: i * 100 + 99 }
+    })),
+    hash: path,
+    metadata: { properties: { status: 'draft' }, tags: ['project'], aliases: [path], links: ['Roadmap'] }
+  },
+  lastModified: 1700000000000
+});
+
+describe('indexStorage', () => {
+  it('should round-trip notes through the manifest and vectors file', () => {
+    const notes = [note('a.md', [0.1, 0.2, 0.3], [0.4, 0.5, 0.6]), note('folder/b.md', [-1, 0, 1])];
+
+    const { manifest, vectors } = encodeIndex(notes, model);
+
+    expect(manifest).toEqual(expect.objectContaining({ version: 4, ...model, dimensions: 3, vectorCount: 3 }));
+    expect(vectors.byteLength).toBe(3 * 3 * 4);
+    expect(manifest.embeddings['folder/b.md'].chunks).toEqual([{
+      content: 'folder/b.md chunk 0',
+      position: 0,
+      vector: 2,
+      hash: 'folder/b.md#0',
+      location: { headings: ['Project', 'Part 0'], startLine: 0, endLine: 9, start: 0, end: 99 }
+    }]);
+    expect(decodeIndex(JSON.parse(JSON.stringify(manifest)), vectors)).toEqual(notes);
+  });
+
+  it('should store an empty index', () => {
+    const { manifest, vectors } = encodeIndex([], model);
+
+    expect(vectors.byteLength).toBe(0);
+    expect(decodeIndex(manifest, vectors)).toEqual([]);
+  });
+
+  it('should refuse vectors of different lengths', () => {
+    expect(() => encodeIndex([note('a.md', [0.1, 0.2]), note('b.md', [0.1, 0.2, 0.3])], model))
+      .toThrow('Chunk of b.md has 3 dimensions, the index uses 2');
+  });
+
+  it('should detect a vectors file that does not match the manifest', () => {
+    const { manifest } = encodeIndex([note('a.md', [0.1, 0.2])], model);
+
+    expect(() => decodeIndex(manifest, new ArrayBuffer(4))).toThrow('the manifest expects 8');
+    expect(() => decodeIndex({ ...manifest, version: 2 } as any, new ArrayBuffer(8)))
+      .toThrow('Unsupported embedding index version: 2');
+  });
+});
@@ -0,0 +1,180 @@
+import { App, TFile } from 'obsidian';
+import { Settings } from '../settings';
+import { IndexingQueue, NoteContent, NoteIndexedListener } from '../chat/indexingQueue';
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+const file = (path: string) => ({ path, extension: 'md' }) as TFile;
+
+function setup(maxConcurrentRequests = 1, activePath: string | null = null) {
+  const settings = { debugMode: false, embeddingSettings: { maxConcurrentRequests } } as Settings;
+  const app = {
+    vault: { cachedRead: jest.fn(async (note: TFile) => `content of ${note.path}`) },
+    workspace: { getActiveFile: jest.fn(() => (activePath ? file(activePath) : null)) }
+  } as unknown as App;
+
+  // Every group waits until the test lets it finish
+  const groups: { notes: NoteContent[]; finish: (error?: Error) => void }[] = [];
+  let running = 0;
+  let maxRunning = 0;
+  const indexer = jest.fn((notes: NoteContent[], onNoteIndexed: NoteIndexedListener) => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    return new Promise<void>((resolve, reject) => {
+      groups.push({
+        notes,
+        finish: (error) => {
+          running--;
+          if (error) {
+            reject(error);
+            return;
+          }
+          notes.forEach(note => onNoteIndexed(note.file));
+          resolve();
+        }
+      });
+    });
+  });
+
+  const queue = new IndexingQueue(settings, app, indexer);
+  return { queue, app, groups, indexer, maxRunning: () => maxRunning };
+}
+
+// Let queued promise callbacks run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('IndexingQueue', () => {
+  it('should index notes queued together in one group', async () => {
+    const { queue, groups } = setup();
+
+    const done = Promise.all([queue.add(file('a.md'), 'A'), queue.add(file('b.md'), 'B')]);
+    await flush();
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].notes).toEqual([{ file: file('a.md'), content: 'A' }, { file: file('b.md'), content: 'B' }]);
+    groups[0].finish();
+    await done;
+  });
+
+  it('should not run more groups at once than requests are allowed in flight', async () => {
+    const { queue, groups, maxRunning } = setup(2);
+
+    const done = [queue.add(file('a.md'))];
+    await flush();
+    done.push(queue.add(file('b.md')));
+    await flush();
+    done.push(queue.add(file('c.md')));
+    await flush();
+
+    expect(groups).toHaveLength(2);
+    groups[0].finish();
+    await flush();
+    expect(groups).toHaveLength(3);
+    groups[1].finish();
+    groups[2].finish();
+    await Promise.all(done);
+    expect(maxRunning()).toBe(2);
+  });
+
+  it('should index a note queued twice before its turn once, with the latest content', async () => {
+    const { queue, groups, indexer } = setup();
+    const first = queue.add(file('busy.md'));
+    await flush();
+
+    const done = [queue.add(file('a.md'), 'old'), queue.add(file('a.md'), 'new')];
+    groups[0].finish();
+    await flush();
+
+    expect(indexer).toHaveBeenCalledTimes(2);
+    expect(groups[1].notes).toEqual([{ file: file('a.md'), content: 'new' }]);
+    groups[1].finish();
+    await Promise.all([first, ...done]);
+  });
+
+  it('should index a note again when it is queued while being indexed', async () => {
+    const { queue, groups } = setup();
+    const first = queue.add(file('a.md'), 'old');
+    await flush();
+
+    const second = queue.add(file('a.md'), 'new');
+    await flush();
+    expect(groups).toHaveLength(1);
+
+    groups[0].finish();
+    await first;
+    await flush();
+    expect(groups[1].notes).toEqual([{ file: file('a.md'), content: 'new' }]);
+    groups[1].finish();
+    await second;
+  });
+
+  it('should index the active file first', async () => {
+    const { queue, groups } = setup(1, 'active.md');
+    const first = queue.add(file('busy.md'));
+    await flush();
+
+    const done = ['a.md', 'b.md', 'active.md'].map(path => queue.add(file(path), path));
+    groups[0].finish();
+    await flush();
+
+    expect(groups[1].notes.map(note => note.file.path)).toEqual(['active.md', 'a.md', 'b.md']);
+    groups[1].finish();
+    await Promise.all([first, ...done]);
+  });
+
+  it('should read notes queued without content from the vault', async () => {
+    const { queue, app, groups } = setup();
+    (app.vault.cachedRead as jest.Mock).mockRejectedValueOnce(new Error('Missing'));
+
+    const missing = queue.add(file('missing.md'));
+    const present = queue.add(file('present.md'));
+    await expect(missing).rejects.toThrow('Missing');
+    await flush();
+
+    expect(groups[0].notes).toEqual([{ file: file('present.md'), content: 'content of present.md' }]);
+    groups[0].finish();
+    await present;
+  });
+
+  it('should reject the notes of a group that failed', async () => {
+    const { queue, groups } = setup();
+
+    const done = queue.add(file('a.md'), 'A');
+    await flush();
+    groups[0].finish(new Error('Server down'));
+
+    await expect(done).rejects.toThrow('Server down');
+  });
+
+  it('should drop removed notes that are still waiting', async () => {
+    const { queue, groups } = setup();
+    const first = queue.add(file('busy.md'));
+    await flush();
+
+    const removed = queue.add(file('deleted.md'));
+    queue.remove('deleted.md');
+    await removed;
+    groups[0].finish();
+    await first;
+    await flush();
+
+    expect(groups).toHaveLength(1);
+  });
+
+  it('should tell that a note was removed while it was being indexed', async () => {
+    const { queue, groups } = setup();
+    const indexed = queue.add(file('a.md'));
+    await flush();
+
+    queue.remove('a.md');
+    expect(queue.isRemoved('a.md')).toBe(true);
+    groups[0].finish();
+    await indexed;
+    await flush();
+
+    expect(queue.isRemoved('a.md')).toBe(false);
+  });
+});
@@ -2,6 +2,7 @@ import { LLMConnector } from '../chat/llmConnector';
 import { Settings } from '../settings';
 import { ChatMessage } from '../chat';
 import { TextEncoder, TextDecoder } from 'util';
+import { RECORDED_STREAMS, createJsonResponse, createStreamResponse, getRequestBody, stubFetch } from '../__mocks__/providerStub';
 
 // Polyfill TextEncoder and TextDecoder for Node.js environment
 global.TextEncoder = TextEncoder as any;
@@ -98,7 +99,7 @@ const mockSettings = {
     maxNotesToSearch: 20,
     displayWelcomeMessage: true,
     similarity: 0.5,
-    maxContextLength: 4000,
+    contextWindow: 0,
     titleMatchBoost: 0.5
   },
   debugMode: true
@@ -648,4 +649,263 @@ describe('LLMConnector', () => {
       expect(updateCallback).toHaveBeenCalledWith(expect.stringContaining("I apologize"));
     });
   });
-});
\ No newline at end of file
+});
+describe('LLMConnector with the Anthropic provider', () => {
+  // Use the real connector rather than the module mock above
+  const { LLMConnector: RealLLMConnector } = jest.requireActual('../chat/llmConnector');
+
+  const anthropicSettings = {
+    ...mockSettings,
+    chatSettings: {
+      ...mockSettings.chatSettings,
+      provider: 'anthropic',
+      anthropicApiUrl: 'https://api.anthropic.com/v1/messages',
+      anthropicApiKey: 'test-anthropic-key',
+      anthropicModel: 'claude-3-5-haiku-latest'
+    },
+    modelPrices: { 'claude-3-5-haiku': { input: 0.8, output: 4 } }
+  } as Settings;
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a helpful assistant' },
+    { role: 'system', content: 'Conversation history: none' },
+    { role: 'user', content: 'Hello' }
+  ];
+
+  it('should send the system prompt as a top-level field', async () => {
+    const stub = stubFetch(createJsonResponse({
+      content: [{ type: 'text', text: 'Hi there' }]
+    }));
+    const connector = new RealLLMConnector(anthropicSettings);
+
+    await connector.generateResponse(messages);
+
+    const [url, init] = stub.mock.calls[0];
+    const body = getRequestBody(stub);
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('test-anthropic-key');
+    expect(init.headers['anthropic-version']).toBeDefined();
+    expect(init.headers['Authorization']).toBeUndefined();
+    expect(body.system).toBe('You are a helpful assistant\n\nConversation history: none');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+    expect(body.model).toBe('claude-3-5-haiku-latest');
+  });
+
+  it('should join text content blocks from a non-streaming response', async () => {
+    stubFetch(createJsonResponse({
+      content: [
+        { type: 'text', text: 'Hi ' },
+        { type: 'text', text: 'there' }
+      ],
+      usage: { input_tokens: 30, output_tokens: 10 }
+    }));
+    const connector = new RealLLMConnector(anthropicSettings);
+
+    const response = await connector.generateResponse(messages);
+
+    expect(response).toEqual({
+      role: 'assistant',
+      content: 'Hi there',
+      usage: { model: 'claude-3-5-haiku-latest', inputTokens: 30, outputTokens: 10, cost: 0.000064 },
+      provider: 'Anthropic (claude-3-5-haiku-latest)'
+    });
+  });
+
+  it('should throw if the Anthropic API key is missing', async () => {
+    const connector = new RealLLMConnector({
+      ...anthropicSettings,
+      chatSettings: { ...anthropicSettings.chatSettings, anthropicApiKey: '' }
+    } as Settings);
+
+    await expect(connector.generateResponse(messages))
+      .rejects.toThrow('Anthropic API key is missing');
+  });
+
+  it('should stream content_block_delta events from a recorded stream', async () => {
+    stubFetch(createStreamResponse(RECORDED_STREAMS.anthropic));
+    const connector = new RealLLMConnector(anthropicSettings);
+    const updateCallback = jest.fn();
+
+    const response = await connector.streamResponse(messages, updateCallback);
+
+    expect(updateCallback).toHaveBeenCalledWith('Hello');
+    expect(updateCallback).toHaveBeenLastCalledWith('Hello, world!');
+    // Input tokens arrive with message_start, output tokens with message_delta
+    expect(response).toEqual({
+      role: 'assistant',
+      content: 'Hello, world!',
+      usage: { model: 'claude-3-5-haiku-latest', inputTokens: 25, outputTokens: 5, cost: 0.00004 },
+      provider: 'Anthropic (claude-3-5-haiku-latest)'
+    });
+  });
+
+  it('should stop reading at message_stop', async () => {
+    const response = createStreamResponse([
+      ...RECORDED_STREAMS.anthropic,
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" ignored"}}\n\n'
+    ]);
+    stubFetch(response);
+    const connector = new RealLLMConnector(anthropicSettings);
+
+    const result = await connector.streamResponse(messages, jest.fn());
+
+    expect(result.content).toBe('Hello, world!');
+  });
+});
+
+describe('LLMConnector with the Ollama provider', () => {
+  // Use the real connector rather than the module mock above
+  const { LLMConnector: RealLLMConnector } = jest.requireActual('../chat/llmConnector');
+
+  const ollamaSettings = {
+    ...mockSettings,
+    chatSettings: {
+      ...mockSettings.chatSettings,
+      provider: 'ollama',
+      ollamaApiUrl: 'http://localhost:11434/api/chat',
+      ollamaModel: 'gemma3:12b'
+    }
+  } as Settings;
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a helpful assistant' },
+    { role: 'user', content: 'Hello' }
+  ];
+
+  it('should send sampling parameters under options', async () => {
+    const stub = stubFetch(createJsonResponse({
+      message: { role: 'assistant', content: 'Hi there' },
+      done: true,
+      prompt_eval_count: 20,
+      eval_count: 3
+    }));
+    const connector = new RealLLMConnector(ollamaSettings);
+
+    const response = await connector.generateResponse(messages);
+
+    const body = getRequestBody(stub);
+    expect(stub.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(body.model).toBe('gemma3:12b');
+    expect(body.messages).toEqual(messages);
+    expect(body.options).toEqual({ temperature: 0.7, num_predict: 500 });
+    expect(body.max_tokens).toBeUndefined();
+    expect(response).toEqual({
+      role: 'assistant',
+      content: 'Hi there',
+      usage: { model: 'gemma3:12b', inputTokens: 20, outputTokens: 3, cost: 0 },
+      provider: 'Ollama (gemma3:12b)'
+    });
+  });
+
+  it('should stream newline-delimited JSON from a recorded stream', async () => {
+    stubFetch(createStreamResponse(RECORDED_STREAMS.ollama));
+    const connector = new RealLLMConnector(ollamaSettings);
+    const updateCallback = jest.fn();
+
+    const response = await connector.streamResponse(messages, updateCallback);
+
+    expect(updateCallback).toHaveBeenCalledWith('Hello');
+    expect(updateCallback).toHaveBeenLastCalledWith('Hello, world!');
+    expect(response).toEqual({
+      role: 'assistant',
+      content: 'Hello, world!',
+      usage: { model: 'gemma3:12b', inputTokens: 26, outputTokens: 4, cost: 0 },
+      provider: 'Ollama (gemma3:12b)'
+    });
+  });
+});
+
+describe('LLMConnector agent mode', () => {
+  // Use the real connector rather than the module mock above
+  const { LLMConnector: RealLLMConnector } = jest.requireActual('../chat/llmConnector');
+
+  const agentSettings = {
+    ...mockSettings,
+    chatSettings: {
+      ...mockSettings.chatSettings,
+      enableAgentMode: true,
+      maxToolIterations: 2
+    }
+  } as Settings;
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'Context from user\'s notes: none' },
+    { role: 'user', content: 'Who leads the project mentioned in my meeting notes?' }
+  ];
+
+  const toolCallResponse = (id: string, name: string, args: Record<string, unknown>) => createJsonResponse({
+    choices: [{
+      message: {
+        content: null,
+        tool_calls: [{ id, type: 'function', function: { name, arguments: JSON.stringify(args) } }]
+      }
+    }],
+    usage: { prompt_tokens: 40, completion_tokens: 8 }
+  });
+
+  function createTools() {
+    return {
+      definitions: [{ name: 'search_notes', description: 'Search', parameters: { type: 'object' } }],
+      execute: jest.fn().mockResolvedValue('1. Project Atlas (Projects/Atlas.md)')
+    };
+  }
+
+  it('should run tool calls and return the final answer', async () => {
+    const stub = stubFetch(
+      toolCallResponse('call_1', 'search_notes', { query: 'project atlas lead' }),
+      createJsonResponse({
+        choices: [{ message: { content: 'Maria leads Project Atlas.' } }],
+        usage: { prompt_tokens: 60, completion_tokens: 6 }
+      })
+    );
+    const tools = createTools();
+    const onToolCall = jest.fn();
+    const connector = new RealLLMConnector(agentSettings);
+
+    const response = await connector.runAgent(messages, tools, onToolCall);
+
+    // Usage adds up over all steps of the run
+    expect(response).toEqual({
+      role: 'assistant',
+      content: 'Maria leads Project Atlas.',
+      usage: { model: 'gpt-3.5-turbo', inputTokens: 100, outputTokens: 14, cost: 0 },
+      provider: 'OpenAI (gpt-3.5-turbo)'
+    });
+    expect(onToolCall).toHaveBeenCalledWith({ id: 'call_1', name: 'search_notes', arguments: { query: 'project atlas lead' } });
+    expect(tools.execute).toHaveBeenCalledTimes(1);
+
+    const firstBody = getRequestBody(stub, 0);
+    expect(firstBody.tools[0].function.name).toBe('search_notes');
+    expect(firstBody.messages[0].content).toContain('You can call tools');
+
+    // The tool result is sent back with the id of the call it answers
+    const secondBody = getRequestBody(stub, 1);
+    expect(secondBody.messages.slice(-2)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search_notes', arguments: '{"query":"project atlas lead"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '1. Project Atlas (Projects/Atlas.md)' }
+    ]);
+  });
+
+  it('should force an answer once the iteration cap is reached', async () => {
+    const stub = stubFetch(
+      toolCallResponse('call_1', 'search_notes', { query: 'first' }),
+      toolCallResponse('call_2', 'search_notes', { query: 'second' }),
+      createJsonResponse({ choices: [{ message: { content: 'Here is what I found.' } }] })
+    );
+    const tools = createTools();
+    const connector = new RealLLMConnector(agentSettings);
+
+    const response = await connector.runAgent(messages, tools, jest.fn());
+
+    expect(response.content).toBe('Here is what I found.');
+    expect(stub).toHaveBeenCalledTimes(3);
+    expect(tools.execute).toHaveBeenCalledTimes(2);
+    const finalBody = getRequestBody(stub, 2);
+    expect(finalBody.tool_choice).toBe('none');
+    expect(finalBody.messages[finalBody.messages.length - 1].content).toContain('limit of tool calls');
+  });
+});
@@ -2,7 +2,7 @@ import AIHelperPlugin from '../main';
 import { Settings, DEFAULT_SETTINGS } from '../settings';
 import { openAIChat } from '../chat';
 import { summarizeSelection } from '../summarize';
-import { initializeEmbeddingSystem } from '../chat/embeddingStore';
+import { globalEmbeddingStore, initializeEmbeddingSystem } from '../chat/embeddingStore';
 import { App, Plugin, PluginManifest } from 'obsidian';
 
 // Create mock for Plugin and App
@@ -14,6 +14,9 @@ const mockApp = {
   },
   vault: {
     on: jest.fn().mockReturnValue({id: 'vault-on'})
+  },
+  metadataCache: {
+    on: jest.fn().mockReturnValue({id: 'metadata-cache-on'})
   }
 } as unknown as App;
 
@@ -97,10 +100,17 @@ jest.mock('../summarize', () => ({
   summarizeSelection: jest.fn()
 }));
 
+jest.mock('../chat/indexRebuild', () => ({
+  IndexRebuildModal: jest.fn().mockImplementation(() => ({ open: jest.fn() }))
+}));
+
 jest.mock('../chat/embeddingStore', () => ({
   initializeEmbeddingSystem: jest.fn(),
   isGloballyInitialized: false,
-  globalInitializationPromise: null
+  globalInitializationPromise: null,
+  globalEmbeddingStore: {
+    getEmbedding: jest.fn()
+  }
 }));
 
 // Mock FileUpdateManager
@@ -167,8 +177,8 @@ describe('AIHelperPlugin', () => {
         expect.any(Function)
       );
 
-      // Verify command registration - 4 commands now in the actual plugin
-      expect(plugin.addCommand).toHaveBeenCalledTimes(4);
+      // Verify command registration - 5 commands now in the actual plugin
+      expect(plugin.addCommand).toHaveBeenCalledTimes(5);
 
       // Verify ribbon icon - update expected values to match implementation
       expect(plugin.addRibbonIcon).toHaveBeenCalledWith(
@@ -177,8 +187,9 @@ describe('AIHelperPlugin', () => {
         expect.any(Function)
       );
 
-      // Verify event listeners were registered - 5 events in the actual implementation
-      expect(plugin.registerEvent).toHaveBeenCalledTimes(5);
+      // Verify event listeners were registered - 6 events in the actual implementation
+      expect(plugin.registerEvent).toHaveBeenCalledTimes(6);
+      expect(mockApp.metadataCache.on).toHaveBeenCalledWith('changed', expect.any(Function));
 
       // Verify interval was registered
       expect(plugin.registerInterval).toHaveBeenCalled();
@@ -194,8 +205,8 @@ describe('AIHelperPlugin', () => {
       // Load
       await plugin.onload();
 
-      // Check all 4 commands were registered
-      expect(plugin.addCommand).toHaveBeenCalledTimes(4);
+      // Check all 5 commands were registered
+      expect(plugin.addCommand).toHaveBeenCalledTimes(5);
 
       // Verify summarize command
       expect(plugin.addCommand).toHaveBeenCalledWith(
@@ -223,6 +234,15 @@ describe('AIHelperPlugin', () => {
           callback: expect.any(Function)
         })
       );
+
+      // Verify rebuild command
+      expect(plugin.addCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'rebuild-embedding-index',
+          name: expect.stringContaining('Rebuild AI index'),
+          callback: expect.any(Function)
+        })
+      );
     });
 
     it('should run summarize command correctly', async () => {
@@ -390,6 +410,33 @@ describe('AIHelperPlugin', () => {
     });
   });
 
+  describe('files of a type that is no longer indexed', () => {
+    const indexed = new Set(['Log.txt', 'Board.canvas']);
+
+    beforeEach(() => {
+      (globalEmbeddingStore!.getEmbedding as jest.Mock).mockImplementation((path: string) =>
+        indexed.has(path) ? { path, chunks: [] } : undefined);
+    });
+
+    it('should remove a deleted file that is still in the index', () => {
+      const deleteHandler = (plugin.app.vault.on as jest.Mock).mock.calls.find(call => call[0] === 'delete')[1];
+
+      deleteHandler(new (require('obsidian').TFile)('Board.canvas'));
+
+      expect((plugin as any).fileUpdateManager.removeFileFromIndex).toHaveBeenCalledWith('Board.canvas');
+    });
+
+    it('should remove the old path of a renamed file without indexing the new one', () => {
+      const renameHandler = (plugin.app.vault.on as jest.Mock).mock.calls.find(call => call[0] === 'rename')[1];
+
+      renameHandler(new (require('obsidian').TFile)('Log.csv'), 'Log.txt');
+
+      expect((plugin as any).fileUpdateManager.removeFileFromIndex).toHaveBeenCalledWith('Log.txt');
+      expect((plugin as any).fileUpdateManager.reindexFile).not.toHaveBeenCalled();
+      expect((plugin as any).fileUpdateManager.deleteModifiedFile).toHaveBeenCalledWith('Log.txt');
+    });
+  });
+
   describe('modifySettings', () => {
     it('should update and save settings', async () => {
       // Create a new plugin instance
@@ -484,6 +531,18 @@ describe('AIHelperPlugin', () => {
       expect(plugin.settings.chatSettings.provider).toBe('openai');
       expect(plugin.settings.embeddingSettings).toEqual(DEFAULT_SETTINGS.embeddingSettings);
     });
+
+    it('should drop the dimensions setting of earlier versions', async () => {
+      plugin = new AIHelperPlugin(mockApp, mockManifest);
+      (plugin.loadData as jest.Mock).mockResolvedValue({
+        embeddingSettings: { dimensions: 1536, chunkSize: 500 }
+      });
+
+      await plugin.loadSettings();
+
+      expect(plugin.settings.embeddingSettings).not.toHaveProperty('dimensions');
+      expect(plugin.settings.embeddingSettings.chunkSize).toBe(500);
+    });
   });
 
   describe('saveSettings', () => {
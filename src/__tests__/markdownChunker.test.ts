@@ -0,0 +1,328 @@
+import { chunkMarkdown, getOverlapText } from '../chat/markdownChunker';
+
+const options = { chunkSize: 300, chunkOverlap: 0 };
+
+const sentence = (i: number) => `Sentence ${i} talks about the project in enough words to take some room.`;
+const paragraph = (from: number, count: number) =>
+  Array.from({ length: count }, (_, i) => sentence(from + i)).join(' ');
+
+// Notes that a split on headings and blank lines gets wrong
+const corpus: { [name: string]: string } = {
+  frontmatter: [
+    '---',
+    'tags: [project, budget]',
+    'aliases:',
+    '  - Project X',
+    '---',
+    '# Project X',
+    '',
+    'The project started in spring and is running late.'
+  ].join('\n'),
+
+  code: [
+    '## Setup',
+    '',
+    'Install the tools first.',
+    '',
+    '```bash',
+    '# install the dependencies',
+    'npm install',
+    '',
+    '# build everything',
+    'npm run build',
+    '```',
+    '',
+    'Then start the server.'
+  ].join('\n'),
+
+  table: [
+    '## Budget',
+    '',
+    '| Item | Cost | Owner |',
+    '| :--- | ---: | ----- |',
+    ...Array.from({ length: 12 }, (_, i) => `| Line item number ${i} | ${i * 100} | Someone |`),
+    '',
+    'Totals are reviewed monthly.'
+  ].join('\n'),
+
+  callout: [
+    'Before the callout.',
+    '',
+    '> [!warning] Deadline',
+    '> The report is due on Friday.',
+    '>',
+    '> Late reports are not accepted.',
+    '',
+    'After the callout.'
+  ].join('\n'),
+
+  list: [
+    '## Tasks',
+    '',
+    '- Order the parts',
+    '  - screws',
+    '  - brackets',
+    '',
+    '  Ask for a discount on',
+    'bulk orders.',
+    '- Assemble the frame',
+    '  ```',
+    '  step one',
+    '',
+    '  step two',
+    '  ```',
+    '1. Paint it',
+    '',
+    'A paragraph after the list.'
+  ].join('\n'),
+
+  sections: [
+    '# Project X',
+    '',
+    '## Goals',
+    '',
+    'Ship the first version.',
+    '',
+    '## Risks',
+    '',
+    '### Budget',
+    '',
+    'The budget is tight.',
+    '',
+    '### Staff',
+    '',
+    'Two people are leaving.'
+  ].join('\n'),
+
+  math: [
+    'The energy is',
+    '',
+    '$$',
+    'E = mc^2',
+    '',
+    '\\text{for a body at rest}',
+    '$$',
+    '',
+    'which is a lot.'
+  ].join('\n'),
+
+  unclosed: [
+    'Some text.',
+    '',
+    '```python',
+    'print("never closed")',
+    '',
+    '# still code'
+  ].join('\n')
+};
+
+const chunkOf = (note: string, text: string) => {
+  const { chunks } = chunkMarkdown(note, options);
+  const found = chunks.filter(chunk => chunk.content.includes(text));
+  expect(found).toHaveLength(1);
+  return found[0].content;
+};
+
+describe('chunkMarkdown', () => {
+  it('should place every chunk at its position in the note', () => {
+    for (const note of Object.values(corpus)) {
+      const { chunks } = chunkMarkdown(note, { chunkSize: 60, chunkOverlap: 0 });
+
+      expect(chunks.length).toBeGreaterThan(0);
+      for (const chunk of chunks) {
+        expect(note.slice(chunk.position, chunk.position + chunk.content.length)).toBe(chunk.content);
+      }
+    }
+  });
+
+  it('should capture the frontmatter instead of embedding it', () => {
+    const { frontmatter, chunks } = chunkMarkdown(corpus.frontmatter, options);
+
+    expect(frontmatter).toBe('tags: [project, budget]\naliases:\n  - Project X');
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '# Project X\n\nThe project started in spring and is running late.'
+    ]);
+    expect(chunks[0].position).toBe(corpus.frontmatter.indexOf('# Project X'));
+  });
+
+  it('should return no frontmatter for notes without one', () => {
+    const note = 'Text\n\n---\n\nMore text after a rule.';
+
+    expect(chunkMarkdown(note, options)).toEqual({
+      frontmatter: null,
+      chunks: [{
+        content: note,
+        position: 0,
+        location: { headings: [], startLine: 0, endLine: 4, start: 0, end: note.length }
+      }]
+    });
+  });
+
+  it('should keep fenced code whole and not read its comments as headings', () => {
+    const { chunks } = chunkMarkdown(corpus.code, { chunkSize: 40, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '## Setup\n\nInstall the tools first.',
+      '```bash\n# install the dependencies\nnpm install\n\n# build everything\nnpm run build\n```',
+      'Then start the server.'
+    ]);
+  });
+
+  it('should keep a table whole even when it is larger than a chunk', () => {
+    const table = corpus.table.slice(corpus.table.indexOf('| Item'), corpus.table.indexOf('\n\nTotals'));
+
+    expect(table.length).toBeGreaterThan(options.chunkSize);
+    expect(chunkOf(corpus.table, '| Item')).toBe(`## Budget\n\n${table}`);
+  });
+
+  it('should keep a callout whole', () => {
+    const { chunks } = chunkMarkdown(corpus.callout, { chunkSize: 30, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'Before the callout.',
+      '> [!warning] Deadline\n> The report is due on Friday.\n>\n> Late reports are not accepted.',
+      'After the callout.'
+    ]);
+  });
+
+  it('should keep each list item whole with its nested items and continuation', () => {
+    const { chunks } = chunkMarkdown(corpus.list, { chunkSize: 30, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '## Tasks\n\n- Order the parts\n  - screws\n  - brackets\n\n  Ask for a discount on\nbulk orders.',
+      '- Assemble the frame\n  ```\n  step one\n\n  step two\n  ```',
+      '1. Paint it',
+      'A paragraph after the list.'
+    ]);
+  });
+
+  it('should pack list items together while they fit', () => {
+    expect(chunkOf(corpus.list, 'Paint it')).toBe(corpus.list);
+  });
+
+  it('should keep a math block whole', () => {
+    const { chunks } = chunkMarkdown(corpus.math, { chunkSize: 20, chunkOverlap: 0 });
+
+    expect(chunks[1].content).toBe('$$\nE = mc^2\n\n\\text{for a body at rest}\n$$');
+  });
+
+  it('should run an unclosed code block to the end of the note', () => {
+    const { chunks } = chunkMarkdown(corpus.unclosed, { chunkSize: 20, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'Some text.',
+      '```python\nprint("never closed")\n\n# still code'
+    ]);
+  });
+
+  it('should not merge sections under different top-level headings', () => {
+    const { chunks } = chunkMarkdown(corpus.sections, options);
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '# Project X\n\n## Goals\n\nShip the first version.',
+      '## Risks\n\n### Budget\n\nThe budget is tight.\n\n### Staff\n\nTwo people are leaving.'
+    ]);
+  });
+
+  it('should start a chunk at a subheading whose section does not fit', () => {
+    const { chunks } = chunkMarkdown(corpus.sections, { chunkSize: 60, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '# Project X\n\n## Goals\n\nShip the first version.',
+      '## Risks\n\n### Budget\n\nThe budget is tight.',
+      '### Staff\n\nTwo people are leaving.'
+    ]);
+  });
+
+  it('should record the headings and lines of each chunk', () => {
+    const { chunks } = chunkMarkdown(corpus.sections, { chunkSize: 60, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.location)).toEqual([
+      { headings: ['Project X', 'Goals'], startLine: 0, endLine: 4, start: 0, end: 46 },
+      { headings: ['Project X', 'Risks', 'Budget'], startLine: 6, endLine: 10, start: 48, end: 90 },
+      { headings: ['Project X', 'Risks', 'Staff'], startLine: 12, endLine: 14, start: 92, end: corpus.sections.length }
+    ]);
+  });
+
+  it('should count lines and offsets from the top of the note, frontmatter included', () => {
+    const { chunks } = chunkMarkdown(corpus.frontmatter, options);
+
+    expect(chunks[0].location).toEqual(expect.objectContaining({ startLine: 5, endLine: 7, start: chunks[0].position }));
+  });
+
+  it('should leave closing hashes and deeper headings of an earlier section out of the path', () => {
+    const note = '## Plan ##\n\n#### Detail\n\nFirst.\n\n### Steps\n\nSecond.';
+
+    const { chunks } = chunkMarkdown(note, { chunkSize: 20, chunkOverlap: 0 });
+
+    expect(chunks.map(chunk => chunk.location.headings)).toEqual([['Plan', 'Detail'], ['Plan', 'Steps']]);
+  });
+
+  it('should split a long paragraph at sentences', () => {
+    const note = paragraph(0, 12);
+
+    const { chunks } = chunkMarkdown(note, options);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(options.chunkSize);
+      expect(chunk.content).toMatch(/^Sentence \d+ .*room\.$/);
+    }
+    expect(chunks.map(chunk => chunk.content).join(' ')).toBe(note);
+  });
+
+  it('should split a code block at lines only when it exceeds several chunks', () => {
+    const lines = Array.from({ length: 60 }, (_, i) => `console.log("line ${i} of a very long script");`);
+    const note = ['```js', ...lines, '```'].join('\n');
+
+    const { chunks } = chunkMarkdown(note, options);
+
+    expect(note.length).toBeGreaterThan(options.chunkSize * 4);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(options.chunkSize);
+    }
+    expect(chunks.map(chunk => chunk.content).join('\n')).toBe(note);
+  });
+
+  it('should repeat the end of a paragraph in the next chunk of its section', () => {
+    const note = `## Notes\n\n${paragraph(0, 3)}\n\n${paragraph(3, 3)}\n\n\`\`\`\ncode\n\`\`\`\n\n${paragraph(6, 3)}`;
+
+    const { chunks } = chunkMarkdown(note, { chunkSize: 250, chunkOverlap: 80 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      `## Notes\n\n${paragraph(0, 3)}`,
+      `${sentence(2)}\n\n${paragraph(3, 3)}\n\n\`\`\`\ncode\n\`\`\``,
+      paragraph(6, 3)
+    ]);
+    expect(chunks[1].position).toBe(note.indexOf(sentence(3)));
+    expect(chunks[1].location).toEqual(expect.objectContaining({ startLine: 4, start: note.indexOf(sentence(3)) }));
+  });
+
+  it('should return no chunks for a note with only frontmatter', () => {
+    expect(chunkMarkdown('---\ntags: [empty]\n---\n\n', options)).toEqual({ frontmatter: 'tags: [empty]', chunks: [] });
+  });
+});
+
+describe('getOverlapText', () => {
+  it('should get the correct overlap text', () => {
+    const text = 'This is a sample text with multiple words to test overlap functionality.';
+    const overlapLength = 20;
+
+    const overlapText = getOverlapText(text, overlapLength);
+
+    expect(overlapText.length).toBeLessThanOrEqual(overlapLength);
+    expect(text).toContain(overlapText);
+    expect(overlapText).toBe(text.slice(-overlapLength));
+  });
+
+  it('should handle empty text', () => {
+    expect(getOverlapText('', 20)).toBe('');
+  });
+
+  it('should handle text shorter than overlap length', () => {
+    const shortText = 'Short text';
+
+    expect(getOverlapText(shortText, 20)).toBe(shortText);
+  });
+});
@@ -12,7 +12,7 @@ const TEST_SETTINGS: Settings = {
     maxNotesToSearch: 20,
     displayWelcomeMessage: true,
     similarity: 0.5,
-    maxContextLength: 4000,
+    contextWindow: 0,
     titleMatchBoost: 0.5,
     localModel: 'qwen2-7b-instruct',
     localApiUrl: 'http://localhost:1234/v1/chat/completions',
@@ -28,8 +28,8 @@ const TEST_SETTINGS: Settings = {
     localModel: 'text-embedding-all-minilm-l6-v2-embedding',
     chunkSize: 1000,
     chunkOverlap: 200,
-    dimensions: 384,
-    updateMode: 'none'
+    updateMode: 'none',
+    maxConcurrentRequests: 2
   },
   summarizeSettings: {
     provider: 'local',
@@ -0,0 +1,99 @@
+import { CachedMetadata } from 'obsidian';
+import { extractNoteMetadata, matchesProperty, matchesTag, sameMetadata } from '../chat/noteMetadata';
+
+const link = (target: string) => ({ link: target, original: `[[${target}]]` });
+
+describe('extractNoteMetadata', () => {
+  it('should read properties, tags, aliases and links from the cache', () => {
+    const cache = {
+      frontmatter: {
+        status: 'draft',
+        priority: 2,
+        tags: ['Project', 'budget'],
+        aliases: ['Project X', 'PX'],
+        position: {}
+      },
+      tags: [{ tag: '#Project/Alpha' }, { tag: '#budget' }],
+      links: [link('Roadmap#Goals'), link('People')],
+      embeds: [link('diagram.png')],
+      frontmatterLinks: [link('Roadmap')]
+    } as unknown as CachedMetadata;
+
+    expect(extractNoteMetadata(cache)).toEqual({
+      properties: { status: 'draft', priority: 2 },
+      tags: ['project/alpha', 'budget', 'project'],
+      aliases: ['Project X', 'PX'],
+      links: ['Roadmap', 'People', 'diagram.png']
+    });
+  });
+
+  it('should accept tags and aliases written as strings', () => {
+    const cache = {
+      frontmatter: { tag: '#one, two three', alias: 'First, Second' }
+    } as unknown as CachedMetadata;
+
+    const metadata = extractNoteMetadata(cache);
+
+    expect(metadata.tags).toEqual(['one', 'two', 'three']);
+    expect(metadata.aliases).toEqual(['First', 'Second']);
+    expect(metadata.properties).toEqual({});
+  });
+
+  it('should return empty metadata without a cache', () => {
+    expect(extractNoteMetadata(null)).toEqual({ properties: {}, tags: [], aliases: [], links: [] });
+  });
+});
+
+describe('matchesTag', () => {
+  it('should match a tag and its nested tags whatever the case or leading hash', () => {
+    const tags = ['project/alpha', 'budget'];
+
+    expect(matchesTag(tags, '#Project')).toBe(true);
+    expect(matchesTag(tags, 'project/alpha')).toBe(true);
+    expect(matchesTag(tags, 'BUDGET')).toBe(true);
+    expect(matchesTag(tags, 'proj')).toBe(false);
+    expect(matchesTag(tags, 'project/beta')).toBe(false);
+  });
+});
+
+describe('matchesProperty', () => {
+  it('should match a property by name and value whatever the case', () => {
+    const properties = { Status: 'Active', priority: 2, people: ['Maria', 'Tom'], due: null };
+
+    expect(matchesProperty(properties, { key: 'status', value: 'active' })).toBe(true);
+    expect(matchesProperty(properties, { key: 'priority', value: '2' })).toBe(true);
+    expect(matchesProperty(properties, { key: 'people', value: 'tom' })).toBe(true);
+    expect(matchesProperty(properties, { key: 'status', value: 'done' })).toBe(false);
+    expect(matchesProperty(properties, { key: 'owner', value: 'Maria' })).toBe(false);
+  });
+
+  it('should match any value that is set when none is given', () => {
+    const properties = { status: 'active', due: null, people: [] };
+
+    expect(matchesProperty(properties, { key: 'status' })).toBe(true);
+    expect(matchesProperty(properties, { key: 'status', value: '' })).toBe(true);
+    expect(matchesProperty(properties, { key: 'due' })).toBe(false);
+    expect(matchesProperty(properties, { key: 'people' })).toBe(false);
+  });
+});
+
+describe('sameMetadata', () => {
+  it('should compare metadata by value', () => {
+    const metadata = extractNoteMetadata({ frontmatter: { tags: ['a'] } } as unknown as CachedMetadata);
+
+    expect(sameMetadata(metadata, extractNoteMetadata({ frontmatter: { tags: ['a'] } } as unknown as CachedMetadata))).toBe(true);
+    expect(sameMetadata(metadata, extractNoteMetadata(null))).toBe(false);
+    expect(sameMetadata(undefined, undefined)).toBe(true);
+  });
+
+  it('should not depend on the order of the properties', () => {
+    const metadata = (frontmatter: object) => extractNoteMetadata({ frontmatter } as unknown as CachedMetadata);
+
+    expect(sameMetadata(
+      metadata({ status: 'draft', due: { day: 1, month: 2 } }),
+      metadata({ due: { month: 2, day: 1 }, status: 'draft' })
+    )).toBe(true);
+    expect(sameMetadata(metadata({ people: ['a', 'b'] }), metadata({ people: ['b', 'a'] }))).toBe(false);
+    expect(sameMetadata(metadata({ status: 'draft' }), metadata({ status: 'draft', due: null }))).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+import { App, TFile } from 'obsidian';
+import { Settings } from '../settings';
+import { NoteTools, NOTE_TOOLS } from '../chat/noteTools';
+import { EmbeddingStore } from '../chat/embeddingStore';
+import { processQuery } from '../nlp';
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createFile(path: string, mtime: number): TFile {
+  const basename = path.split('/').pop()!.replace(/\.md$/, '');
+  return new (TFile as any)(path, basename, { mtime });
+}
+
+describe('NoteTools', () => {
+  const now = Date.now();
+  const files = [
+    createFile('Meetings/Weekly.md', now - DAY_MS),
+    createFile('Projects/Atlas.md', now - 3 * DAY_MS),
+    createFile('Archive/Old.md', now - 90 * DAY_MS),
+    createFile('Private/Journal.md', now - 2 * DAY_MS)
+  ];
+  const contents: Record<string, string> = {
+    'Meetings/Weekly.md': 'Discussed Project Atlas.',
+    'Projects/Atlas.md': 'Atlas is led by Maria.',
+    'Archive/Old.md': 'Old notes about Atlas.',
+    'Private/Journal.md': 'Worried about Atlas.'
+  };
+
+  const settings = {
+    debugMode: false,
+    chatSettings: { similarity: 0.5 },
+    embeddingSettings: { excludePaths: ['Private'] }
+  } as Settings;
+
+  let app: App;
+  let vectorStore: any;
+  let embeddingStore: any;
+  let tools: NoteTools;
+
+  beforeEach(() => {
+    app = new App();
+    (app.vault as any).getAbstractFileByPath = jest.fn((path: string) => files.find(f => f.path === path) || null);
+    (app.vault as any).getMarkdownFiles = jest.fn(() => files);
+    (app.vault as any).cachedRead = jest.fn(async (file: TFile) => contents[file.path]);
+    (app.metadataCache.getFileCache as jest.Mock).mockImplementation((file: TFile) =>
+      file.path === 'Projects/Atlas.md'
+        ? { tags: [{ tag: '#project/atlas' }], frontmatter: { tags: ['work'], status: 'active' } }
+        : null
+    );
+
+    vectorStore = {
+      search: jest.fn().mockResolvedValue([
+        { path: 'Archive/Old.md', score: 0.9, chunkIndex: 0 },
+        { path: 'Projects/Atlas.md', score: 0.8, chunkIndex: 0 },
+        { path: 'Meetings/Weekly.md', score: 0.7, chunkIndex: 0 }
+      ]),
+      getChunk: jest.fn((path: string) => ({ content: contents[path] }))
+    };
+    embeddingStore = {
+      generateEmbedding: jest.fn().mockResolvedValue(new Float32Array([0.1, 0.2]))
+    };
+
+    tools = new NoteTools(app, settings, vectorStore, embeddingStore);
+  });
+
+  it('should describe the three note tools', () => {
+    expect(tools.definitions).toBe(NOTE_TOOLS);
+    expect(NOTE_TOOLS.map(tool => tool.name)).toEqual(['search_notes', 'read_note', 'list_recent_notes']);
+  });
+
+  describe('search_notes', () => {
+    it('should return matching notes with excerpts', async () => {
+      const result = await tools.execute({ id: '1', name: 'search_notes', arguments: { query: 'atlas' } });
+
+      expect(embeddingStore.generateEmbedding).toHaveBeenCalled();
+      expect(result).toContain('1. Old (Archive/Old.md), relevance 0.90');
+      expect(result).toContain('Atlas is led by Maria.');
+    });
+
+    it('should embed the query as written and let the store prepare it', async () => {
+      const store = new EmbeddingStore({ ...settings, embeddingSettings: { ...settings.embeddingSettings } } as Settings, vectorStore, app);
+      const embed = jest.fn().mockResolvedValue(new Float32Array([0.1, 0.2]));
+      (store as any).embeddingModel = { embed, embedBatch: jest.fn() };
+      tools = new NoteTools(app, (store as any).settings, vectorStore, store);
+      const query = 'Who leads Project Atlas?';
+
+      await tools.execute({ id: '1', name: 'search_notes', arguments: { query } });
+      (store as any).settings.embeddingSettings.rawText = true;
+      await tools.execute({ id: '2', name: 'search_notes', arguments: { query } });
+
+      const [normalized, raw] = embed.mock.calls.map(call => call[0]);
+      expect(normalized).toBe(processQuery(query, settings).processed);
+      expect(raw).toBe(query);
+    });
+
+    it('should apply folder, tag, date and limit filters', async () => {
+      const byFolder = await tools.execute({ id: '1', name: 'search_notes', arguments: { query: 'atlas', filters: { folder: 'Meetings/' } } });
+      expect(byFolder).toContain('Meetings/Weekly.md');
+      expect(byFolder).not.toContain('Projects/Atlas.md');
+
+      const byTag = await tools.execute({ id: '2', name: 'search_notes', arguments: { query: 'atlas', filters: { tag: '#project' } } });
+      expect(byTag).toContain('Projects/Atlas.md');
+      expect(byTag).not.toContain('Archive/Old.md');
+
+      const byFrontmatterTag = await tools.execute({ id: '3', name: 'search_notes', arguments: { query: 'atlas', filters: { tag: 'work' } } });
+      expect(byFrontmatterTag).toContain('Projects/Atlas.md');
+
+      const recent = new Date(now - 10 * DAY_MS).toISOString();
+      const byDate = await tools.execute({ id: '4', name: 'search_notes', arguments: { query: 'atlas', filters: { modified_after: recent, limit: 1 } } });
+      expect(vectorStore.search).toHaveBeenCalledWith(expect.any(Float32Array), expect.objectContaining({ folder: 'Meetings/' }));
+      expect(vectorStore.search).toHaveBeenLastCalledWith(expect.any(Float32Array), expect.objectContaining({ modifiedAfter: Date.parse(recent) }));
+      expect(byDate).toContain('Projects/Atlas.md');
+      expect(byDate).not.toContain('Meetings/Weekly.md');
+      expect(byDate).not.toContain('Archive/Old.md');
+    });
+
+    it('should filter on a frontmatter property', async () => {
+      const byValue = await tools.execute({
+        id: '1', name: 'search_notes', arguments: { query: 'atlas', filters: { property: { key: 'status', value: 'Active' } } }
+      });
+      expect(vectorStore.search).toHaveBeenCalledWith(expect.any(Float32Array), expect.objectContaining({ property: { key: 'status', value: 'Active' } }));
+      expect(byValue).toContain('Projects/Atlas.md');
+      expect(byValue).not.toContain('Meetings/Weekly.md');
+
+      const byOtherValue = await tools.execute({
+        id: '2', name: 'search_notes', arguments: { query: 'atlas', filters: { property: { key: 'status', value: 'done' } } }
+      });
+      expect(byOtherValue).toBe('No notes found for "atlas".');
+
+      const withoutKey = await tools.execute({ id: '3', name: 'search_notes', arguments: { query: 'atlas', filters: { property: { key: '' } } } });
+      expect(withoutKey).toContain('Meetings/Weekly.md');
+    });
+
+    it('should leave out notes excluded from the index', async () => {
+      vectorStore.search.mockResolvedValue([{ path: 'Private/Journal.md', score: 0.9, chunkIndex: 0 }]);
+
+      const result = await tools.execute({ id: '1', name: 'search_notes', arguments: { query: 'atlas' } });
+
+      expect(result).toBe('No notes found for "atlas".');
+    });
+
+    it('should report when nothing matches', async () => {
+      vectorStore.search.mockResolvedValue([]);
+
+      const result = await tools.execute({ id: '1', name: 'search_notes', arguments: { query: 'nothing' } });
+
+      expect(result).toBe('No notes found for "nothing".');
+    });
+  });
+
+  describe('read_note', () => {
+    it('should return the note content, with or without the extension', async () => {
+      expect(await tools.execute({ id: '1', name: 'read_note', arguments: { path: 'Projects/Atlas.md' } }))
+        .toBe('# Projects/Atlas.md\n\nAtlas is led by Maria.');
+      expect(await tools.execute({ id: '2', name: 'read_note', arguments: { path: 'Projects/Atlas' } }))
+        .toContain('Atlas is led by Maria.');
+    });
+
+    it('should truncate long notes at a paragraph break', async () => {
+      contents['Projects/Atlas.md'] = `${'a'.repeat(5000)}\n\n${'b'.repeat(5000)}`;
+
+      const result = await tools.execute({ id: '1', name: 'read_note', arguments: { path: 'Projects/Atlas.md' } });
+
+      expect(result).not.toContain('b');
+      expect(result).toContain('[Note truncated, 5002 more characters not shown]');
+      contents['Projects/Atlas.md'] = 'Atlas is led by Maria.';
+    });
+
+    it('should refuse notes excluded from the index', async () => {
+      const result = await tools.execute({ id: '1', name: 'read_note', arguments: { path: 'Private/Journal.md' } });
+
+      expect(result).toBe('Error: "Private/Journal.md" is excluded from AI access by the index rules.');
+      expect(app.vault.cachedRead).not.toHaveBeenCalled();
+    });
+
+    it('should report missing notes to the model', async () => {
+      const result = await tools.execute({ id: '1', name: 'read_note', arguments: { path: 'Missing.md' } });
+
+      expect(result).toBe('Error: no note found at "Missing.md".');
+    });
+  });
+
+  describe('list_recent_notes', () => {
+    it('should list notes modified within the window, newest first, except excluded ones', async () => {
+      const result = await tools.execute({ id: '1', name: 'list_recent_notes', arguments: { days: 7 } });
+
+      expect(result.split('\n')).toEqual([
+        expect.stringContaining('Meetings/Weekly.md'),
+        expect.stringContaining('Projects/Atlas.md')
+      ]);
+    });
+
+    it('should reject invalid day counts', async () => {
+      expect(await tools.execute({ id: '1', name: 'list_recent_notes', arguments: { days: 0 } }))
+        .toBe('Error: days must be a positive number.');
+    });
+  });
+
+  it('should report unknown tools and failures as errors for the model', async () => {
+    expect(await tools.execute({ id: '1', name: 'delete_note', arguments: {} })).toBe('Error: unknown tool "delete_note".');
+
+    embeddingStore.generateEmbedding.mockRejectedValue(new Error('Embedding service down'));
+    expect(await tools.execute({ id: '2', name: 'search_notes', arguments: { query: 'atlas' } }))
+      .toBe('Error: Embedding service down');
+  });
+});
@@ -0,0 +1,387 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { requestUrl } from 'obsidian';
+import { Settings, ProviderSettings } from '../settings';
+import { createProvider, getProviderConfig, supportsEmbeddings, testConnection, ProviderError } from '../providers';
+import { RECORDED_STREAMS, createJsonResponse, createStreamResponse, getRequestBody, stubFetch } from '../__mocks__/providerStub';
+
+// Polyfill TextEncoder and TextDecoder for Node.js environment
+global.TextEncoder = TextEncoder as any;
+global.TextDecoder = TextDecoder as any;
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+jest.mock('obsidian', () => ({
+  requestUrl: jest.fn()
+}));
+
+const settings = { debugMode: false } as Settings;
+
+const section: ProviderSettings = {
+  provider: 'openai',
+  openaiModel: 'gpt-4.1-nano',
+  openaiApiUrl: 'https://api.openai.com/v1/chat/completions',
+  openaiApiKey: 'test-openai-key',
+  localApiUrl: 'http://localhost:1234/v1/chat/completions',
+  localModel: 'gemma-3-12b-it',
+  anthropicApiUrl: 'https://api.anthropic.com/v1/messages',
+  anthropicApiKey: 'test-anthropic-key',
+  anthropicModel: 'claude-3-5-haiku-latest',
+  ollamaApiUrl: 'http://localhost:11434/api/chat',
+  ollamaModel: 'gemma3:12b',
+  azureEndpoint: 'https://contoso.openai.azure.com/',
+  azureApiKey: 'test-azure-key',
+  azureDeployment: 'gpt-4o-mini',
+  azureApiVersion: '2024-10-21'
+};
+
+const request = {
+  messages: [
+    { role: 'system' as const, content: 'Be brief' },
+    { role: 'user' as const, content: 'Hello' }
+  ],
+  maxTokens: 100,
+  temperature: 0.5
+};
+
+function providerFor(provider: ProviderSettings['provider'], overrides: Partial<ProviderSettings> = {}) {
+  return createProvider(getProviderConfig({ ...section, ...overrides, provider }), settings);
+}
+
+describe('Provider layer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getProviderConfig', () => {
+    it('should pick the fields for the selected provider', () => {
+      expect(getProviderConfig({ ...section, provider: 'local' })).toEqual({
+        type: 'local',
+        apiUrl: 'http://localhost:1234/v1/chat/completions',
+        model: 'gemma-3-12b-it'
+      });
+      expect(getProviderConfig({ ...section, provider: 'anthropic' })).toEqual({
+        type: 'anthropic',
+        apiUrl: 'https://api.anthropic.com/v1/messages',
+        apiKey: 'test-anthropic-key',
+        model: 'claude-3-5-haiku-latest'
+      });
+      expect(getProviderConfig({ ...section, provider: 'ollama' }).model).toBe('gemma3:12b');
+      expect(getProviderConfig(section).apiKey).toBe('test-openai-key');
+    });
+  });
+
+  describe('createProvider', () => {
+    it('should reject a missing API URL', () => {
+      expect(() => providerFor('local', { localApiUrl: '' }))
+        .toThrow('Local API URL is missing');
+    });
+
+    it('should reject missing API keys for cloud providers', () => {
+      expect(() => providerFor('openai', { openaiApiKey: '' })).toThrow('OpenAI API key is missing');
+      expect(() => providerFor('anthropic', { anthropicApiKey: '' })).toThrow('Anthropic API key is missing');
+    });
+
+    it('should not require a key for local servers', () => {
+      expect(() => providerFor('local')).not.toThrow();
+      expect(() => providerFor('ollama')).not.toThrow();
+    });
+
+    it('should report which providers support embeddings', () => {
+      expect(supportsEmbeddings('openai')).toBe(true);
+      expect(supportsEmbeddings('local')).toBe(true);
+      expect(supportsEmbeddings('ollama')).toBe(true);
+      expect(supportsEmbeddings('anthropic')).toBe(false);
+    });
+  });
+
+  describe('complete', () => {
+    it('should send a bearer token to OpenAI', async () => {
+      const stub = stubFetch(createJsonResponse({ choices: [{ message: { content: 'Hi' } }] }));
+
+      const result = await providerFor('openai').complete(request);
+
+      expect(result.content).toBe('Hi');
+      expect(stub.mock.calls[0][1].headers['Authorization']).toBe('Bearer test-openai-key');
+      expect(getRequestBody(stub)).toEqual({
+        model: 'gpt-4.1-nano',
+        messages: request.messages,
+        temperature: 0.5,
+        max_tokens: 100,
+        stream: false
+      });
+    });
+
+    it('should not send credentials to a local server', async () => {
+      const stub = stubFetch(createJsonResponse({ choices: [{ message: { content: 'Hi' } }] }));
+
+      await providerFor('local').complete(request);
+
+      expect(stub.mock.calls[0][0]).toBe('http://localhost:1234/v1/chat/completions');
+      expect(stub.mock.calls[0][1].headers['Authorization']).toBeUndefined();
+    });
+
+    it('should raise a ProviderError with the HTTP status', async () => {
+      stubFetch(createJsonResponse({ error: 'nope' }, 503));
+
+      const error = await providerFor('openai').complete(request).catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.status).toBe(503);
+      expect(error.message).toBe('HTTP error! Status: 503');
+    });
+
+    it('should reject responses in an unexpected shape', async () => {
+      stubFetch(createJsonResponse({ unexpected: true }));
+
+      await expect(providerFor('ollama').complete(request))
+        .rejects.toThrow('Invalid response format from Ollama API');
+    });
+  });
+
+  describe('stream', () => {
+    it('should emit deltas for each provider format', async () => {
+      const openaiStream = [
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"Hello"}}]}\n\ndata: {"choices":[{"delta":{"content":", world!"}}]}\n\n',
+        'data: [DONE]\n\n'
+      ];
+      const cases: [ProviderSettings['provider'], string[]][] = [
+        ['openai', openaiStream],
+        ['anthropic', RECORDED_STREAMS.anthropic],
+        ['ollama', RECORDED_STREAMS.ollama]
+      ];
+
+      for (const [type, chunks] of cases) {
+        stubFetch(createStreamResponse(chunks));
+        const deltas: string[] = [];
+
+        const result = await providerFor(type).stream(request, delta => deltas.push(delta));
+
+        expect(result.content).toBe('Hello, world!');
+        expect(deltas.join('')).toBe('Hello, world!');
+      }
+    });
+
+    it('should surface errors reported inside the stream', async () => {
+      stubFetch(createStreamResponse([
+        'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n'
+      ]));
+
+      await expect(providerFor('anthropic').stream(request, jest.fn()))
+        .rejects.toThrow('Anthropic stream error: Overloaded');
+    });
+  });
+
+  describe('tools', () => {
+    const tools = [{ name: 'read_note', description: 'Read a note', parameters: { type: 'object' } }];
+    const toolTurn = [
+      ...request.messages,
+      {
+        role: 'assistant' as const,
+        content: 'Let me check.',
+        toolCalls: [
+          { id: 'call_1', name: 'read_note', arguments: { path: 'A.md' } },
+          { id: 'call_2', name: 'read_note', arguments: { path: 'B.md' } }
+        ]
+      },
+      { role: 'tool' as const, content: 'Note A', toolCallId: 'call_1', toolName: 'read_note' },
+      { role: 'tool' as const, content: 'Note B', toolCallId: 'call_2', toolName: 'read_note' }
+    ];
+
+    it('should send tools and tool results to Anthropic as content blocks', async () => {
+      const stub = stubFetch(createJsonResponse({
+        content: [
+          { type: 'text', text: 'Reading it now.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'read_note', input: { path: 'C.md' } }
+        ]
+      }));
+
+      const result = await providerFor('anthropic').complete({ ...request, messages: toolTurn, tools });
+
+      expect(result).toEqual({
+        content: 'Reading it now.',
+        toolCalls: [{ id: 'toolu_1', name: 'read_note', arguments: { path: 'C.md' } }]
+      });
+      const body = getRequestBody(stub);
+      expect(body.tools).toEqual([{ name: 'read_note', description: 'Read a note', input_schema: { type: 'object' } }]);
+      expect(body.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me check.' },
+            { type: 'tool_use', id: 'call_1', name: 'read_note', input: { path: 'A.md' } },
+            { type: 'tool_use', id: 'call_2', name: 'read_note', input: { path: 'B.md' } }
+          ]
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'call_1', content: 'Note A' },
+            { type: 'tool_result', tool_use_id: 'call_2', content: 'Note B' }
+          ]
+        }
+      ]);
+    });
+
+    it('should send tool calls to Ollama with object arguments', async () => {
+      const stub = stubFetch(createJsonResponse({
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'read_note', arguments: { path: 'C.md' } } }]
+        },
+        done: true
+      }));
+
+      const result = await providerFor('ollama').complete({ ...request, messages: toolTurn, tools });
+
+      expect(result.toolCalls).toEqual([{ id: 'call_0', name: 'read_note', arguments: { path: 'C.md' } }]);
+      const body = getRequestBody(stub);
+      expect(body.tools[0]).toEqual({ type: 'function', function: tools[0] });
+      expect(body.messages[2].tool_calls[0]).toEqual({ function: { name: 'read_note', arguments: { path: 'A.md' } } });
+      expect(body.messages[3]).toEqual({ role: 'tool', content: 'Note A', tool_name: 'read_note' });
+    });
+
+    it('should leave tools out for Ollama when calls are not allowed', async () => {
+      const stub = stubFetch(createJsonResponse({ message: { content: 'Done' }, done: true }));
+
+      await providerFor('ollama').complete({ ...request, tools, toolChoice: 'none' });
+
+      expect(getRequestBody(stub).tools).toBeUndefined();
+    });
+  });
+
+  describe('embed', () => {
+    it('should map OpenAI-style embedding responses', async () => {
+      (requestUrl as jest.Mock).mockResolvedValueOnce({
+        json: { data: [{ embedding: [0.1, 0.2] }, { embedding: [0.3, 0.4] }] }
+      });
+
+      const vectors = await providerFor('local').embed(['first', 'second']);
+
+      expect(JSON.parse((requestUrl as jest.Mock).mock.calls[0][0].body).input).toEqual(['first', 'second']);
+      expect(vectors).toHaveLength(2);
+      expect(vectors[1]).toBeInstanceOf(Float32Array);
+      expect(Array.from(vectors[1])).toEqual([expect.closeTo(0.3), expect.closeTo(0.4)]);
+    });
+
+    it('should refuse embeddings from Anthropic', async () => {
+      await expect(providerFor('anthropic').embed(['text']))
+        .rejects.toThrow('Anthropic does not provide an embeddings API');
+      expect(requestUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('model discovery', () => {
+    it('should list OpenAI-style models next to the configured endpoint', async () => {
+      (requestUrl as jest.Mock).mockResolvedValueOnce({ status: 200, json: { data: [{ id: 'qwen3-8b' }, { id: 'gemma-3-12b-it' }] } });
+
+      const models = await providerFor('local').listModels();
+
+      expect((requestUrl as jest.Mock).mock.calls[0][0]).toMatchObject({ url: 'http://localhost:1234/v1/models', method: 'GET' });
+      expect(models).toEqual(['gemma-3-12b-it', 'qwen3-8b']);
+    });
+
+    it('should list installed Ollama models from /api/tags', async () => {
+      (requestUrl as jest.Mock).mockResolvedValueOnce({ status: 200, json: { models: [{ name: 'gemma3:12b' }, { name: 'all-minilm:latest' }] } });
+
+      const models = await providerFor('ollama').listModels();
+
+      expect((requestUrl as jest.Mock).mock.calls[0][0].url).toBe('http://localhost:11434/api/tags');
+      expect(models).toEqual(['all-minilm:latest', 'gemma3:12b']);
+    });
+
+    it('should report the error the provider explained', async () => {
+      (requestUrl as jest.Mock).mockResolvedValueOnce({ status: 401, json: {}, text: '{"error":{"message":"Incorrect API key provided"}}' });
+
+      const error = await providerFor('openai').listModels().catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.status).toBe(401);
+      expect(error.detail).toBe('Incorrect API key provided');
+    });
+  });
+
+  describe('testConnection', () => {
+    it('should send a one-token request and report the latency', async () => {
+      const stub = stubFetch(createJsonResponse({ choices: [{ message: { content: 'H' } }] }));
+
+      const result = await testConnection(getProviderConfig(section), settings, 'chat');
+
+      expect(getRequestBody(stub).max_tokens).toBe(1);
+      expect(result).toEqual({ provider: 'OpenAI (gpt-4.1-nano)', ok: true, latency: expect.any(Number) });
+    });
+
+    it('should report the exact error without retrying', async () => {
+      const stub = stubFetch(createJsonResponse({ error: { message: 'No models loaded' } }, 503));
+
+      const result = await testConnection(getProviderConfig({ ...section, provider: 'local' }), { ...settings, maxRetries: 3 }, 'chat');
+
+      expect(stub).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ ok: false, error: 'HTTP error! Status: 503: No models loaded' });
+    });
+
+    it('should report configuration errors and test embeddings with one input', async () => {
+      expect(await testConnection(getProviderConfig({ ...section, openaiApiKey: '' }), settings, 'chat'))
+        .toMatchObject({ ok: false, error: 'OpenAI API key is missing. Please configure it in the settings.' });
+
+      (requestUrl as jest.Mock).mockResolvedValueOnce({ status: 200, json: { embeddings: [[0.1]] } });
+      expect(await testConnection(getProviderConfig({ ...section, provider: 'ollama', ollamaApiUrl: 'http://localhost:11434/api/embed' }), settings, 'embeddings'))
+        .toMatchObject({ ok: true });
+      expect(JSON.parse((requestUrl as jest.Mock).mock.calls[0][0].body).input).toBe('test');
+    });
+  });
+
+  describe('Azure OpenAI and custom headers', () => {
+    it('should call the deployment with an api-key header and api-version', async () => {
+      const stub = stubFetch(createJsonResponse({ choices: [{ message: { content: 'Hi' } }] }));
+
+      await providerFor('azure').complete(request);
+
+      expect(stub.mock.calls[0][0]).toBe('https://contoso.openai.azure.com/openai/deployments/gpt-4o-mini/chat/completions?api-version=2024-10-21');
+      expect(stub.mock.calls[0][1].headers['api-key']).toBe('test-azure-key');
+      expect(stub.mock.calls[0][1].headers['Authorization']).toBeUndefined();
+      expect(getRequestBody(stub).model).toBeUndefined();
+    });
+
+    it('should request embeddings from the deployment', async () => {
+      (requestUrl as jest.Mock).mockResolvedValueOnce({ json: { data: [{ embedding: [0.1, 0.2] }] } });
+
+      await providerFor('azure', { azureDeployment: 'text-embedding-3-small' }).embed(['text']);
+
+      const { url, headers } = (requestUrl as jest.Mock).mock.calls[0][0];
+      expect(url).toBe('https://contoso.openai.azure.com/openai/deployments/text-embedding-3-small/embeddings?api-version=2024-10-21');
+      expect(headers['api-key']).toBe('test-azure-key');
+      expect(supportsEmbeddings('azure')).toBe(true);
+    });
+
+    it('should require an endpoint, deployment and key', () => {
+      expect(() => providerFor('azure', { azureEndpoint: '' })).toThrow('Azure OpenAI endpoint is missing');
+      expect(() => providerFor('azure', { azureDeployment: '' })).toThrow('Azure OpenAI deployment is missing');
+      expect(() => providerFor('azure', { azureApiKey: '' })).toThrow('Azure OpenAI API key is missing');
+    });
+
+    it('should add custom headers to chat and embedding requests', async () => {
+      const customHeaders = [
+        { name: 'X-Gateway-Team', value: 'notes' },
+        { name: 'Authorization', value: 'Gateway secret' },
+        { name: ' ', value: 'ignored' }
+      ];
+      const stub = stubFetch(createJsonResponse({ choices: [{ message: { content: 'Hi' } }] }));
+      (requestUrl as jest.Mock).mockResolvedValueOnce({ json: { embeddings: [[0.1]] } });
+
+      await providerFor('openai', { customHeaders }).complete(request);
+      await providerFor('ollama', { customHeaders, ollamaApiUrl: 'http://localhost:11434/api/embed' }).embed(['text']);
+
+      expect(stub.mock.calls[0][1].headers).toEqual({
+        'Content-Type': 'application/json',
+        'X-Gateway-Team': 'notes',
+        Authorization: 'Gateway secret'
+      });
+      expect((requestUrl as jest.Mock).mock.calls[0][0].headers['X-Gateway-Team']).toBe('notes');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { Settings, ChatSettings } from '../settings';
+import { createProvider } from '../providers';
+import { ThinkTagParser, splitReasoning } from '../providers/reasoning';
+import { LLMConnector } from '../chat/llmConnector';
+import { createJsonResponse, createStreamResponse, stubFetch } from '../__mocks__/providerStub';
+
+// Polyfill TextEncoder and TextDecoder for Node.js environment
+global.TextEncoder = TextEncoder as any;
+global.TextDecoder = TextDecoder as any;
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+const settings = {
+  debugMode: false,
+  maxRetries: 0,
+  chatSettings: {
+    provider: 'local',
+    localApiUrl: 'http://localhost:1234/v1/chat/completions',
+    localModel: 'qwen3-8b',
+    openaiModel: 'gpt-4.1-nano',
+    maxTokens: 500,
+    temperature: 0.7
+  } as ChatSettings
+} as Settings;
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'Why is the sky blue?' }],
+  maxTokens: 100,
+  temperature: 0.5
+};
+
+function deltas(...contents: string[]): string[] {
+  return [
+    ...contents.map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`),
+    'data: [DONE]\n\n'
+  ];
+}
+
+describe('Reasoning models', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ThinkTagParser', () => {
+    it('should separate think blocks from the answer', () => {
+      expect(splitReasoning('<think>\nRayleigh scattering.\n</think>\n\nBecause of scattering.')).toEqual({
+        content: 'Because of scattering.',
+        reasoning: 'Rayleigh scattering.'
+      });
+      expect(splitReasoning('No thinking here.')).toEqual({ content: 'No thinking here.', reasoning: '' });
+    });
+
+    it('should recognise tags split across deltas', () => {
+      const parser = new ThinkTagParser();
+      const parts = ['<th', 'ink>Short', ' wavelengths</th', 'ink>', '\n\nBlue', ' light < red'].map(text => parser.push(text));
+      parts.push(parser.end());
+
+      expect(parts.map(part => part.reasoning).join('')).toBe('Short wavelengths');
+      expect(parts.map(part => part.content).join('')).toBe('Blue light < red');
+    });
+
+    it('should release text that only looked like the start of a tag', () => {
+      const parser = new ThinkTagParser();
+
+      expect(parser.push('a <thi')).toEqual({ content: 'a ', reasoning: '' });
+      expect(parser.end()).toEqual({ content: '<thi', reasoning: '' });
+    });
+  });
+
+  describe('providers', () => {
+    it('should stream think blocks to the reasoning callback', async () => {
+      stubFetch(createStreamResponse(deltas('<think>', 'Scattering', '</think>', '\n\nThe sky', ' is blue.')));
+      const answer: string[] = [];
+      const reasoning: string[] = [];
+
+      const result = await createProvider({ type: 'local', apiUrl: 'http://localhost:1234/v1/chat/completions' }, settings)
+        .stream(request, delta => answer.push(delta), delta => reasoning.push(delta));
+
+      expect(answer.join('')).toBe('The sky is blue.');
+      expect(reasoning.join('')).toBe('Scattering');
+      expect(result).toEqual({ content: 'The sky is blue.', reasoning: 'Scattering' });
+    });
+
+    it('should stream reasoning_content deltas to the reasoning callback', async () => {
+      stubFetch(createStreamResponse([
+        'data: {"choices":[{"delta":{"reasoning_content":"Think"}}]}\n\n',
+        'data: {"choices":[{"delta":{"reasoning_content":"ing"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"Answer"}}]}\n\n',
+        'data: [DONE]\n\n'
+      ]));
+      const answer: string[] = [];
+
+      const result = await createProvider({ type: 'local', apiUrl: 'http://localhost:1234/v1/chat/completions' }, settings)
+        .stream(request, delta => answer.push(delta));
+
+      expect(answer).toEqual(['Answer']);
+      expect(result).toEqual({ content: 'Answer', reasoning: 'Thinking' });
+    });
+
+    it('should strip reasoning from complete responses', async () => {
+      stubFetch(
+        createJsonResponse({ choices: [{ message: { content: '<think>Hmm</think>Blue.' } }] }),
+        createJsonResponse({ choices: [{ message: { content: 'Blue.', reasoning_content: 'Hmm' } }] })
+      );
+      const provider = createProvider({ type: 'local', apiUrl: 'http://localhost:1234/v1/chat/completions' }, settings);
+
+      expect(await provider.complete(request)).toEqual({ content: 'Blue.', reasoning: 'Hmm' });
+      expect(await provider.complete(request)).toEqual({ content: 'Blue.', reasoning: 'Hmm' });
+    });
+  });
+
+  describe('LLMConnector', () => {
+    it('should return the reasoning apart from the answer', async () => {
+      stubFetch(createStreamResponse(deltas('<think>Scattering</think>', 'Blue.')));
+      const updates: string[] = [];
+      const reasoningUpdates: string[] = [];
+
+      const response = await new LLMConnector(settings).streamResponse(
+        request.messages,
+        content => updates.push(content),
+        undefined,
+        reasoning => reasoningUpdates.push(reasoning)
+      );
+
+      expect(response.content).toBe('Blue.');
+      expect(response.reasoning).toBe('Scattering');
+      expect(updates).toEqual(['Blue.']);
+      expect(reasoningUpdates).toEqual(['Scattering']);
+    });
+  });
+});
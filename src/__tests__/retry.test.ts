@@ -0,0 +1,180 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { requestUrl } from 'obsidian';
+import { Settings, ProviderSettings } from '../settings';
+import { createProvider, getProviderConfig, ProviderError } from '../providers';
+import { getRetryDelay, isRetryableError, parseRetryAfter, withRetry } from '../providers/retry';
+import { createJsonResponse, stubFetch } from '../__mocks__/providerStub';
+import { logDebug } from '../utils';
+
+// Polyfill TextEncoder and TextDecoder for Node.js environment
+global.TextEncoder = TextEncoder as any;
+global.TextDecoder = TextDecoder as any;
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+jest.mock('obsidian', () => ({
+  requestUrl: jest.fn()
+}));
+
+// Keep the real backoff logic but don't wait in tests
+const settings = { debugMode: true, maxRetries: 3, retryBaseDelay: 0 } as Settings;
+
+const section: ProviderSettings = {
+  provider: 'openai',
+  openaiModel: 'gpt-4.1-nano',
+  openaiApiUrl: 'https://api.openai.com/v1/chat/completions',
+  openaiApiKey: 'test-key'
+};
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'Hello' }],
+  maxTokens: 100,
+  temperature: 0.5
+};
+
+function httpError(status: number, retryAfter?: number) {
+  return new ProviderError(`HTTP error! Status: ${status}`, 'openai', status, retryAfter);
+}
+
+describe('Retry policy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry rate limits, server errors and dropped connections', () => {
+      expect(isRetryableError(httpError(429))).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+      expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isRetryableError(new Error('net::ERR_CONNECTION_RESET'))).toBe(true);
+    });
+
+    it('should not retry client errors, aborts or invalid responses', () => {
+      expect(isRetryableError(httpError(401))).toBe(false);
+      expect(isRetryableError(httpError(403))).toBe(false);
+      expect(isRetryableError(httpError(400))).toBe(false);
+      expect(isRetryableError(new ProviderError('Invalid response format from OpenAI API', 'openai'))).toBe(false);
+
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      expect(isRetryableError(abortError)).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should accept seconds and HTTP dates', () => {
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+      expect(parseRetryAfter('2', now)).toBe(2000);
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay per attempt with jitter', () => {
+      const random = jest.spyOn(Math, 'random');
+
+      random.mockReturnValue(0);
+      expect(getRetryDelay(1, 1000)).toBe(500);
+      expect(getRetryDelay(3, 1000)).toBe(2000);
+
+      random.mockReturnValue(1);
+      expect(getRetryDelay(3, 1000)).toBe(4000);
+
+      random.mockRestore();
+    });
+
+    it('should prefer the delay requested by the provider, within limits', () => {
+      expect(getRetryDelay(1, 1000, 7000)).toBe(7000);
+      expect(getRetryDelay(1, 1000, 3600000)).toBe(60000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until the operation succeeds and report each retry', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(httpError(429))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce('ok');
+      const onRetry = jest.fn();
+
+      await expect(withRetry(operation, { label: 'OpenAI', settings, onRetry })).resolves.toBe('ok');
+
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[1][0]).toMatchObject({ label: 'OpenAI', attempt: 2, maxRetries: 3 });
+      expect(logDebug).toHaveBeenCalledWith(settings, expect.stringContaining('retrying in'));
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const operation = jest.fn().mockRejectedValue(httpError(500));
+
+      await expect(withRetry(operation, { label: 'OpenAI', settings })).rejects.toThrow('Status: 500');
+      expect(operation).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry auth errors', async () => {
+      const operation = jest.fn().mockRejectedValue(httpError(401));
+
+      await expect(withRetry(operation, { label: 'OpenAI', settings })).rejects.toThrow('Status: 401');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting when the request is aborted', async () => {
+      const signal = { aborted: false, addEventListener: jest.fn(), removeEventListener: jest.fn() };
+      const operation = jest.fn().mockRejectedValue(httpError(429, 30000));
+      const onRetry = jest.fn(() => { signal.aborted = true; });
+
+      await expect(withRetry(operation, { label: 'OpenAI', settings, signal: signal as any, onRetry }))
+        .rejects.toMatchObject({ name: 'AbortError' });
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('providers', () => {
+    it('should retry chat requests and honour Retry-After', async () => {
+      const stub = stubFetch(
+        createJsonResponse({ error: 'rate limited' }, 429, { 'retry-after': '0' }),
+        createJsonResponse({ choices: [{ message: { content: 'Hi' } }] })
+      );
+      const provider = createProvider(getProviderConfig(section), settings);
+      provider.onRetry = jest.fn();
+
+      const result = await provider.complete(request);
+
+      expect(result.content).toBe('Hi');
+      expect(stub).toHaveBeenCalledTimes(2);
+      expect(provider.onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 0 }));
+    });
+
+    it('should not retry a rejected API key', async () => {
+      const stub = stubFetch(createJsonResponse({ error: 'invalid key' }, 401));
+      const provider = createProvider(getProviderConfig(section), settings);
+
+      await expect(provider.complete(request)).rejects.toMatchObject({ status: 401 });
+      expect(stub).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry embedding requests', async () => {
+      (requestUrl as jest.Mock)
+        .mockResolvedValueOnce({ status: 503, headers: { 'Retry-After': '0' }, json: {} })
+        .mockResolvedValueOnce({ status: 200, headers: {}, json: { data: [{ embedding: [0.1, 0.2] }] } });
+      const provider = createProvider(getProviderConfig({
+        ...section,
+        openaiApiUrl: 'https://api.openai.com/v1/embeddings',
+        openaiModel: 'text-embedding-3-small'
+      }), settings);
+
+      const [vector] = await provider.embed(['text']);
+
+      expect(requestUrl).toHaveBeenCalledTimes(2);
+      expect((requestUrl as jest.Mock).mock.calls[0][0].throw).toBe(false);
+      expect(vector).toHaveLength(2);
+    });
+  });
+});
@@ -94,7 +94,7 @@ describe('Settings', () => {
         openaiModel: 'gpt-3.5-turbo',
         maxTokens: 1000,
         temperature: 0.7,
-        maxContextLength: 2000,
+        contextWindow: 0,
         titleMatchBoost: 0.3,
         openaiApiUrl: 'https://api.openai.com/v1/chat/completions',
         openaiApiKey: '',
@@ -118,7 +118,6 @@ describe('Settings', () => {
         openaiModel: 'text-embedding-ada-002',
         chunkSize: 1000,
         chunkOverlap: 200,
-        dimensions: 1536,
         updateMode: 'onLoad',
         openaiApiUrl: 'https://api.openai.com/v1/embeddings',
         openaiApiKey: '',
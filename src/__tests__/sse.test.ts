@@ -0,0 +1,126 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { Settings } from '../settings';
+import { JSONLinesParser, LineSplitter, SSEParser, ServerSentEvent, createProvider } from '../providers';
+import { RECORDED_STREAMS, createStreamResponse, splitBytes, stubFetch } from '../__mocks__/providerStub';
+import { logError } from '../utils';
+
+// Polyfill TextEncoder and TextDecoder for Node.js environment
+global.TextEncoder = TextEncoder as any;
+global.TextDecoder = TextDecoder as any;
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+const settings = { debugMode: false, maxRetries: 0 } as Settings;
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'Hello' }],
+  maxTokens: 100,
+  temperature: 0.5
+};
+
+// Recorded OpenAI stream with a comment, a CRLF line ending and a word
+// outside the ASCII range, so byte splits also cut through characters
+const OPENAI_STREAM = [
+  ': keep-alive\n\n',
+  'data: {"choices":[{"delta":{"role":"assistant","content":""}}]}\n\n',
+  'data: {"choices":[{"delta":{"content":"Grüße"}}]}\r\n\r\n',
+  'data: {"choices":[{"delta":{"content":" aus Köln"}}]}\n\n',
+  'data: {"choices":[],"usage":{"prompt_tokens":8,"completion_tokens":4}}\n\n',
+  'data: [DONE]\n\n'
+];
+
+function parseAll(chunks: string[]): ServerSentEvent[] {
+  const parser = new SSEParser();
+  const events = chunks.reduce<ServerSentEvent[]>((all, chunk) => [...all, ...parser.push(chunk)], []);
+  return [...events, ...parser.end()];
+}
+
+describe('Stream parsing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('LineSplitter', () => {
+    it('should buffer partial lines until they are complete', () => {
+      const lines = new LineSplitter();
+
+      expect(lines.push('data: {"a"')).toEqual([]);
+      expect(lines.push(':1}\nda')).toEqual(['data: {"a":1}']);
+      expect(lines.push('ta: 2\n')).toEqual(['data: 2']);
+      expect(lines.end()).toEqual([]);
+    });
+
+    it('should accept \\n, \\r\\n and \\r line endings, even split across chunks', () => {
+      const lines = new LineSplitter();
+
+      expect(lines.push('a\r\nb\rc\r')).toEqual(['a', 'b', 'c']);
+      expect(lines.push('\nd')).toEqual([]);
+      expect(lines.end()).toEqual(['d']);
+    });
+  });
+
+  describe('SSEParser', () => {
+    it('should join multi-line data fields with newlines', () => {
+      expect(parseAll(['data: first\ndata: second\n\n'])).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+    });
+
+    it('should report event names, ids and retry times', () => {
+      expect(parseAll(['event: ping\nid: 7\nretry: 3000\ndata: {}\n\n', 'data: next\n\n'])).toEqual([
+        { event: 'ping', data: '{}', id: '7', retry: 3000 },
+        { event: 'message', data: 'next', id: '7', retry: 3000 }
+      ]);
+    });
+
+    it('should ignore comments, unknown fields and events without data', () => {
+      expect(parseAll([': comment\n\nfoo: bar\nevent: empty\n\ndata\n\n'])).toEqual([{ event: 'message', data: '' }]);
+    });
+
+    it('should remove only a single space after the colon', () => {
+      expect(parseAll(['data:no space\n\ndata:  two spaces\n\n']).map(event => event.data))
+        .toEqual(['no space', ' two spaces']);
+    });
+
+    it('should drop an event that ends without a blank line', () => {
+      expect(parseAll(['data: complete\n\ndata: cut off'])).toEqual([{ event: 'message', data: 'complete' }]);
+    });
+  });
+
+  describe('JSONLinesParser', () => {
+    it('should emit one event per line, including a last line without newline', () => {
+      const parser = new JSONLinesParser();
+
+      expect(parser.push('{"a":1}\n\n{"b"')).toEqual([{ event: 'message', data: '{"a":1}' }]);
+      expect(parser.push(':2}')).toEqual([]);
+      expect(parser.end()).toEqual([{ event: 'message', data: '{"b":2}' }]);
+    });
+  });
+
+  describe('byte-split streams', () => {
+    const cases = [
+      { name: 'OpenAI', type: 'openai' as const, chunks: OPENAI_STREAM, content: 'Grüße aus Köln', usage: { inputTokens: 8, outputTokens: 4 } },
+      { name: 'Anthropic', type: 'anthropic' as const, chunks: RECORDED_STREAMS.anthropic, content: 'Hello, world!', usage: { inputTokens: 25, outputTokens: 5 } },
+      { name: 'Ollama', type: 'ollama' as const, chunks: RECORDED_STREAMS.ollama, content: 'Hello, world!', usage: { inputTokens: 26, outputTokens: 4 } }
+    ];
+
+    for (const { name, type, chunks, content, usage } of cases) {
+      it(`should not lose ${name} tokens however the network splits the body`, async () => {
+        for (const size of [1, 2, 3, 7, 16, 64]) {
+          stubFetch(createStreamResponse(splitBytes(chunks, size)));
+          const provider = createProvider({ type, apiUrl: 'http://localhost/api', apiKey: 'key', model: 'model' }, settings);
+          let streamed = '';
+
+          const result = await provider.stream(request, delta => {
+            streamed += delta;
+          });
+
+          expect(streamed).toBe(content);
+          expect(result).toEqual({ content, usage });
+        }
+        expect(logError).not.toHaveBeenCalled();
+      });
+    }
+  });
+});
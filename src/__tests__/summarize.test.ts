@@ -180,7 +180,7 @@ describe('Summarization', () => {
         openaiModel: 'gpt-3.5-turbo',
         maxTokens: 1000,
         temperature: 0.7,
-        maxContextLength: 2000,
+        contextWindow: 0,
         titleMatchBoost: 1.5,
         openaiApiUrl: 'https://api.openai.com/v1/chat/completions',
         openaiApiKey: 'test-key',
@@ -202,7 +202,6 @@ describe('Summarization', () => {
         openaiModel: 'text-embedding-ada-002',
         chunkSize: 1000,
         chunkOverlap: 200,
-        dimensions: 1536,
         updateMode: 'onLoad',
         openaiApiUrl: 'https://api.openai.com/v1/embeddings',
         openaiApiKey: 'test-key',
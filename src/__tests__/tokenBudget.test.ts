@@ -0,0 +1,61 @@
+import { ChatSettings } from '../settings';
+import { estimateMessageTokens, estimateTokens, getContextWindow, getPromptBudget } from '../chat/tokenBudget';
+
+describe('tokenBudget', () => {
+  const chatSettings = {
+    provider: 'openai',
+    openaiModel: 'gpt-4o-mini',
+    localModel: 'gemma-3-12b-it',
+    anthropicModel: 'claude-3-5-haiku-latest',
+    ollamaModel: 'gemma3:12b',
+    maxTokens: 1000,
+    contextWindow: 0
+  } as ChatSettings;
+
+  describe('estimateTokens', () => {
+    it('should count short words and punctuation as single tokens', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('The cat sat.')).toBe(4);
+    });
+
+    it('should split long words and numbers into several tokens', () => {
+      expect(estimateTokens('internationalization')).toBe(5);
+      expect(estimateTokens('123456')).toBe(2);
+    });
+
+    it('should count CJK characters individually', () => {
+      expect(estimateTokens('日本語')).toBe(3);
+    });
+
+    it('should add per-message overhead for chat messages', () => {
+      expect(estimateMessageTokens([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' }
+      ])).toBe(4 + 4 + 1 + 4);
+    });
+  });
+
+  describe('getContextWindow', () => {
+    it('should look up known cloud models', () => {
+      expect(getContextWindow(chatSettings)).toBe(128000);
+      expect(getContextWindow({ ...chatSettings, provider: 'anthropic' })).toBe(200000);
+      expect(getContextWindow({ ...chatSettings, openaiModel: 'some-new-model' })).toBe(8192);
+    });
+
+    it('should assume a small window for local servers', () => {
+      expect(getContextWindow({ ...chatSettings, provider: 'local' })).toBe(4096);
+      expect(getContextWindow({ ...chatSettings, provider: 'ollama' })).toBe(4096);
+    });
+
+    it('should prefer a configured context window', () => {
+      expect(getContextWindow({ ...chatSettings, provider: 'local', contextWindow: 32768 })).toBe(32768);
+    });
+  });
+
+  describe('getPromptBudget', () => {
+    it('should reserve max tokens for the response', () => {
+      expect(getPromptBudget({ ...chatSettings, provider: 'local' })).toBe(3096);
+      expect(getPromptBudget({ ...chatSettings, contextWindow: 500 })).toBe(0);
+    });
+  });
+});
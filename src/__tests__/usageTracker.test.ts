@@ -0,0 +1,155 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { App } from 'obsidian';
+import { Settings } from '../settings';
+import { createProvider } from '../providers';
+import {
+  BudgetExceededError,
+  UsageTracker,
+  calculateCost,
+  formatRun,
+  getModelPrice,
+  initializeUsageTracker
+} from '../usageTracker';
+import { createJsonResponse, createStreamResponse, getRequestBody, stubFetch } from '../__mocks__/providerStub';
+
+// Polyfill TextEncoder and TextDecoder for Node.js environment
+global.TextEncoder = TextEncoder as any;
+global.TextDecoder = TextDecoder as any;
+
+jest.mock('../utils', () => ({
+  logDebug: jest.fn(),
+  logError: jest.fn()
+}));
+
+function createSettings(overrides: Partial<Settings> = {}): Settings {
+  return {
+    debugMode: false,
+    maxRetries: 0,
+    retryBaseDelay: 0,
+    modelPrices: {
+      'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+      'gpt-4.1': { input: 2, output: 8 },
+      'text-embedding-3-small': { input: 0.02, output: 0 }
+    },
+    monthlyBudget: 0,
+    ...overrides
+  } as Settings;
+}
+
+function createApp(files: Record<string, string> = {}): App {
+  return {
+    vault: {
+      adapter: {
+        exists: jest.fn(async (path: string) => path in files),
+        read: jest.fn(async (path: string) => files[path]),
+        write: jest.fn(async (path: string, data: string) => {
+          files[path] = data;
+        })
+      }
+    }
+  } as unknown as App;
+}
+
+const openaiConfig = {
+  type: 'openai' as const,
+  apiUrl: 'https://api.openai.com/v1/chat/completions',
+  apiKey: 'test-key',
+  model: 'gpt-4.1-nano'
+};
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'Hello' }],
+  maxTokens: 100,
+  temperature: 0.7
+};
+
+describe('Usage tracking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('prices', () => {
+    it('should look up prices by exact name, then by the longest prefix', () => {
+      const settings = createSettings();
+
+      expect(getModelPrice(settings, 'gpt-4.1')).toEqual({ input: 2, output: 8 });
+      expect(getModelPrice(settings, 'gpt-4.1-nano-2025-04-14')).toEqual({ input: 0.1, output: 0.4 });
+      expect(getModelPrice(settings, 'gemma-3-12b-it')).toBeUndefined();
+    });
+
+    it('should calculate costs per million tokens', () => {
+      const settings = createSettings();
+
+      expect(calculateCost(settings, 'gpt-4.1', { inputTokens: 1000, outputTokens: 500 })).toBeCloseTo(0.006);
+      expect(calculateCost(settings, 'gemma-3-12b-it', { inputTokens: 1000, outputTokens: 500 })).toBe(0);
+    });
+  });
+
+  describe('UsageTracker', () => {
+    it('should keep totals per day and model', () => {
+      const tracker = new UsageTracker(createSettings(), createApp());
+      tracker.record('chat', 'gpt-4.1', { inputTokens: 100, outputTokens: 20 }, new Date(2026, 2, 30));
+      tracker.record('chat', 'gpt-4.1', { inputTokens: 50, outputTokens: 10 }, new Date(2026, 3, 1));
+      tracker.record('summarize', 'gpt-4.1', { inputTokens: 10, outputTokens: 5 }, new Date(2026, 3, 2));
+
+      expect(tracker.getTotals()).toEqual({ 'gpt-4.1': { inputTokens: 160, outputTokens: 35, requests: 3 } });
+      expect(tracker.getTotals(new Date(2026, 3, 1))).toEqual({ 'gpt-4.1': { inputTokens: 60, outputTokens: 15, requests: 2 } });
+      expect(tracker.getMonthlyCost(new Date(2026, 3, 15))).toBeCloseTo((60 * 2 + 15 * 8) / 1000000);
+    });
+
+    it('should add up the embedding usage of an indexing run', () => {
+      const tracker = new UsageTracker(createSettings(), createApp());
+      const run = tracker.startRun();
+      tracker.record('embedding', 'text-embedding-3-small', { inputTokens: 600000, outputTokens: 0 });
+      tracker.record('chat', 'gpt-4.1', { inputTokens: 100, outputTokens: 20 });
+      tracker.record('embedding', 'text-embedding-3-small', { inputTokens: 400000, outputTokens: 0 });
+      tracker.finishRun(run);
+      tracker.record('embedding', 'text-embedding-3-small', { inputTokens: 1000, outputTokens: 0 });
+
+      expect(run).toEqual({ tokens: 1000000, cost: 0.02 });
+      expect(formatRun(run)).toBe(' (1,000,000 tokens, $0.02)');
+      expect(formatRun({ tokens: 0, cost: 0 })).toBe('');
+    });
+
+    it('should persist daily totals and merge them with usage recorded while loading', async () => {
+      const files: Record<string, string> = {};
+      const tracker = new UsageTracker(createSettings(), createApp(files));
+      tracker.record('chat', 'gpt-4.1', { inputTokens: 100, outputTokens: 20 }, new Date(2026, 3, 1));
+      await tracker.save();
+
+      const reloaded = new UsageTracker(createSettings(), createApp(files));
+      reloaded.record('chat', 'gpt-4.1', { inputTokens: 1, outputTokens: 1 }, new Date(2026, 3, 1));
+      await reloaded.load();
+
+      expect(reloaded.getTotals()).toEqual({ 'gpt-4.1': { inputTokens: 101, outputTokens: 21, requests: 2 } });
+    });
+  });
+
+  describe('providers', () => {
+    it('should request the usage of streamed OpenAI responses', async () => {
+      const stub = stubFetch(createStreamResponse([
+        'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3}}\n\n',
+        'data: [DONE]\n\n'
+      ]));
+
+      const result = await createProvider(openaiConfig, createSettings()).stream(request, () => undefined);
+
+      expect(getRequestBody(stub).stream_options).toEqual({ include_usage: true });
+      expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 3 });
+    });
+
+    it('should block cloud providers once the monthly budget is used up', async () => {
+      const settings = createSettings({ monthlyBudget: 0.01 });
+      const tracker = await initializeUsageTracker(settings, createApp());
+      tracker.record('chat', 'gpt-4.1', { inputTokens: 5000, outputTokens: 0 });
+      const stub = stubFetch(createJsonResponse({ choices: [{ message: { content: 'Hi' } }] }));
+
+      await expect(createProvider(openaiConfig, settings).complete(request)).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(stub).not.toHaveBeenCalled();
+
+      await expect(createProvider({ type: 'local', apiUrl: 'http://localhost:1234/v1/chat/completions', model: 'gemma-3-12b-it' }, settings)
+        .complete(request)).resolves.toMatchObject({ content: 'Hi' });
+    });
+  });
+});
@@ -31,7 +31,6 @@ describe('VectorStore', () => {
                 localModel: 'text-embedding-all-minilm-l6-v2-embedding',
                 chunkSize: 1000,
                 chunkOverlap: 200,
-                dimensions: 384,
                 updateMode: 'onUpdate'
             },
             summarizeSettings: {
@@ -56,7 +55,7 @@ describe('VectorStore', () => {
                 maxNotesToSearch: 20,
                 displayWelcomeMessage: true,
                 similarity: 0.5,
-                maxContextLength: 4000,
+                contextWindow: 0,
                 titleMatchBoost: 0.5,
                 enableStreaming: true,
                 maxRecencyBoost: 0.3,
@@ -250,6 +249,93 @@ describe('VectorStore', () => {
             // Should return only 2 results from the 3 added
             expect(results.length).toBe(2);
         });
+
+        it('should match the query against aliases like the filename', async () => {
+            const queryEmbedding = new Float32Array(384).fill(1);
+            const metadata = { properties: {}, tags: [], aliases: ['Sourdough'], links: [] };
+            const chunks = [{ content: 'content', embedding: new Float32Array(384).fill(1), position: 0 }];
+            vectorStore.addEmbedding('a.md', { path: 'a.md', chunks, metadata });
+            vectorStore.addEmbedding('b.md', { path: 'b.md', chunks });
+
+            const results = await vectorStore.search(queryEmbedding, {
+                similarity: 0.5,
+                limit: 10,
+                searchTerms: ['sourdough']
+            });
+
+            expect(results.map(result => result.path)).toEqual(['a.md', 'b.md']);
+            expect(results[0].score).toBeGreaterThan(results[1].score);
+        });
+
+        it('should only return notes with the tag when one is given', async () => {
+            const queryEmbedding = new Float32Array(384).fill(1);
+            const chunks = [{ content: 'content', embedding: new Float32Array(384).fill(1), position: 0 }];
+            const withTags = (tags: string[]) => ({ properties: {}, tags, aliases: [], links: [] });
+            vectorStore.addEmbedding('alpha.md', { path: 'alpha.md', chunks, metadata: withTags(['project/alpha']) });
+            vectorStore.addEmbedding('other.md', { path: 'other.md', chunks, metadata: withTags(['personal']) });
+            vectorStore.addEmbedding('old.md', { path: 'old.md', chunks });
+
+            const results = await vectorStore.search(queryEmbedding, {
+                similarity: 0.5,
+                limit: 10,
+                tag: '#project'
+            });
+
+            expect(results.map(result => result.path).sort()).toEqual(['alpha.md', 'old.md']);
+            expect(vectorStore.getMetadata('other.md')?.tags).toEqual(['personal']);
+        });
+
+        it('should only return notes with the property when one is given', async () => {
+            const queryEmbedding = new Float32Array(384).fill(1);
+            const chunks = [{ content: 'content', embedding: new Float32Array(384).fill(1), position: 0 }];
+            const withProperties = (properties: { [key: string]: unknown }) => ({ properties, tags: [], aliases: [], links: [] });
+            vectorStore.addEmbedding('active.md', { path: 'active.md', chunks, metadata: withProperties({ status: 'active' }) });
+            vectorStore.addEmbedding('done.md', { path: 'done.md', chunks, metadata: withProperties({ status: 'done' }) });
+            vectorStore.addEmbedding('old.md', { path: 'old.md', chunks });
+
+            const results = await vectorStore.search(queryEmbedding, {
+                similarity: 0.5,
+                limit: 10,
+                property: { key: 'status', value: 'Active' }
+            });
+
+            expect(results.map(result => result.path).sort()).toEqual(['active.md', 'old.md']);
+        });
+
+        it('should only return notes in the folder and modified after the date when given', async () => {
+            const queryEmbedding = new Float32Array(384).fill(1);
+            const chunks = [{ content: 'content', embedding: new Float32Array(384).fill(1), position: 0 }];
+            const now = Date.now();
+            const mtimes: Record<string, number> = { 'Projects/new.md': now, 'Projects/old.md': now - 1000000, 'Other/new.md': now };
+            for (const path of Object.keys(mtimes)) {
+                vectorStore.addEmbedding(path, { path, chunks });
+            }
+            (mockApp.vault.getAbstractFileByPath as jest.Mock).mockImplementation((path: string) =>
+                Object.assign(Object.create(TFile.prototype), { path, stat: { mtime: mtimes[path], ctime: mtimes[path] } }));
+
+            const results = await vectorStore.search(queryEmbedding, {
+                similarity: 0.5,
+                limit: 10,
+                folder: 'Projects/',
+                modifiedAfter: now - 1000
+            });
+
+            expect(results.map(result => result.path)).toEqual(['Projects/new.md']);
+        });
+
+        it('should leave out notes excluded since they were indexed', async () => {
+            const queryEmbedding = new Float32Array(384).fill(1);
+            const chunks = [{ content: 'content', embedding: new Float32Array(384).fill(1), position: 0 }];
+            const metadata = (properties: { [key: string]: unknown }) => ({ properties, tags: [], aliases: [], links: [] });
+            vectorStore.addEmbedding('Templates/daily.md', { path: 'Templates/daily.md', chunks });
+            vectorStore.addEmbedding('opted-out.md', { path: 'opted-out.md', chunks, metadata: metadata({ 'ai-index': false }) });
+            vectorStore.addEmbedding('kept.md', { path: 'kept.md', chunks, metadata: metadata({}) });
+            mockSettings.embeddingSettings.excludePaths = ['Templates'];
+
+            const results = await vectorStore.search(queryEmbedding, { similarity: 0.5, limit: 10 });
+
+            expect(results.map(result => result.path)).toEqual(['kept.md']);
+        });
     });
 
     describe('calculateCosineSimilarity', () => {
@@ -12,6 +12,10 @@ import { VectorStore } from "./chat/vectorStore";
 import { EmbeddingStore } from "./chat/embeddingStore";
 import { ContextManager } from "./chat/contextManager";
 import { LLMConnector } from "./chat/llmConnector";
+import { NoteTools } from "./chat/noteTools";
+import { ChunkLocation, formatHeadingPath } from "./chat/markdownChunker";
+import { NoteMetadata } from "./chat/noteMetadata";
+import { getContentExtractor, readFileContent } from "./extractors";
 import {
   globalInitializationPromise,
   isGloballyInitialized,
@@ -19,6 +23,13 @@ import {
   globalEmbeddingStore,
 } from "./chat/embeddingStore";
 import { processQuery } from "./nlp";
+import type { ToolCall } from "./providers";
+import {
+  BudgetExceededError,
+  formatCost,
+  formatTokens,
+  UsageSummary,
+} from "./usageTracker";
 
 // Define the view type for the AI Chat
 export const AI_CHAT_VIEW_TYPE = "ai-helper-chat-view";
@@ -27,10 +38,21 @@ export const AI_CHAT_VIEW_TYPE = "ai-helper-chat-view";
 const WELCOME_MESSAGE =
   "Hello! I'm your AI helper.  Ask me anything about your notes!";
 
-// Interface for a chat message
+// Interface for a chat message. Tool calls and their results only appear
+// in the messages of an agent run, never in the saved chat history.
 export interface ChatMessage {
-  role: "system" | "user" | "assistant";
+  role: "system" | "user" | "assistant" | "tool";
   content: string;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  toolName?: string;
+  // Provider of an assistant message, and those unavailable before it
+  provider?: string;
+  unavailableProviders?: string[];
+  // Tokens and cost of an assistant message
+  usage?: UsageSummary;
+  // Thinking of a reasoning model, shown but never sent back as history
+  reasoning?: string;
 }
 
 // Interface for relevant notes and their context
@@ -39,6 +61,8 @@ export interface NoteWithContent {
   content: string;
   relevance: number;
   chunkIndex?: number;
+  // Where the chunk the note was found by sits in it
+  location?: ChunkLocation;
   includedInContext?: boolean;
 }
 
@@ -47,12 +71,16 @@ export interface NoteChunk {
   content: string;
   embedding: Float32Array;
   position: number;
+  hash?: string; // Hash of the chunk text the embedding was made from
+  location?: ChunkLocation; // Missing until the note is split again
 }
 
 // Interface for note embeddings
 export interface NoteEmbedding {
   path: string;
   chunks: NoteChunk[];
+  hash?: string; // Hash of the note content and chunk settings
+  metadata?: NoteMetadata; // Tags, aliases, links and properties
 }
 
 // Open AI Chat sidebar view
@@ -89,7 +117,10 @@ export class AIHelperChatView extends ItemView {
   private vectorStore: VectorStore;
   private contextManager: ContextManager;
   private llmConnector: LLMConnector;
+  private noteTools: NoteTools;
   private isProcessing = false;
+  // Cost of the current conversation, shown in the usage footers
+  private conversationCost = 0;
   private initializationPromise: Promise<void> | null = null;
   private abortController: AbortController | null = null;
 
@@ -102,6 +133,7 @@ export class AIHelperChatView extends ItemView {
     this.vectorStore = null!;
     this.embeddingStore = null!;
     this.contextManager = null!;
+    this.noteTools = null!;
     this.llmConnector = new LLMConnector(settings);
 
     // Set up the initialization promise
@@ -140,6 +172,12 @@ export class AIHelperChatView extends ItemView {
             this.vectorStore,
             this.settings,
           );
+          this.noteTools = new NoteTools(
+            this.app,
+            this.settings,
+            this.vectorStore,
+            this.embeddingStore,
+          );
         } else {
           throw new Error("Embedding system not properly initialized");
         }
@@ -292,7 +330,13 @@ export class AIHelperChatView extends ItemView {
       const titleEl = noteElement.createDiv({
         cls: "ai-helper-context-note-title",
       });
-      titleEl.setText(note.file.basename);
+      // Files other than notes are named with their type
+      const extractor = getContentExtractor(note.file);
+      titleEl.setText(
+        extractor
+          ? `${note.file.basename} (${extractor.label})`
+          : note.file.basename,
+      );
 
       // Add metadata section (path and last updated)
       const metadataEl = noteElement.createDiv({
@@ -311,6 +355,15 @@ export class AIHelperChatView extends ItemView {
       });
       similarityEl.setText(`Relevance: ${(note.relevance * 100).toFixed(1)}%`);
 
+      // Add the section the matching chunk sits in
+      const headings = note.location?.headings || [];
+      if (headings.length > 0) {
+        const sectionEl = metadataEl.createDiv({
+          cls: "ai-helper-context-note-section",
+        });
+        sectionEl.setText(`Section: ${formatHeadingPath(headings)}`);
+      }
+
       // Add creation time
       const createdEl = metadataEl.createDiv({
         cls: "ai-helper-context-note-created",
@@ -330,9 +383,14 @@ export class AIHelperChatView extends ItemView {
           (note.content.length > 200 ? "..." : ""),
       );
 
-      // Make the note clickable to open it
+      // Make the note clickable to open it at the matching chunk
       noteElement.addEventListener("click", () => {
-        this.app.workspace.getLeaf().openFile(note.file);
+        this.app.workspace
+          .getLeaf()
+          .openFile(
+            note.file,
+            note.location ? { eState: { line: note.location.startLine } } : {},
+          );
       });
     }
   }
@@ -406,6 +464,7 @@ export class AIHelperChatView extends ItemView {
     messageEl: HTMLElement;
     contentDiv: HTMLElement;
     updateContent: (content: string) => void;
+    updateReasoning: (reasoning: string) => void;
   } {
     const messageEl = this.messagesContainer.createDiv({
       cls: "ai-helper-chat-message ai-helper-chat-message-assistant",
@@ -455,7 +514,91 @@ export class AIHelperChatView extends ItemView {
       }
     };
 
-    return { messageEl, contentDiv, updateContent };
+    // Reasoning goes into a collapsed section above the answer, created
+    // when the first reasoning arrives
+    let thinkingDiv: HTMLElement | null = null;
+    const updateReasoning = (reasoning: string) => {
+      if (!reasoning) return;
+      if (!thinkingDiv) {
+        const detailsEl = messageEl.createEl("details", {
+          cls: "ai-helper-chat-thinking",
+          prepend: true,
+        });
+        detailsEl.createEl("summary", { text: "Thinking" });
+        thinkingDiv = detailsEl.createDiv({
+          cls: "ai-helper-chat-thinking-content",
+        });
+      }
+      thinkingDiv.setText(reasoning);
+    };
+
+    return { messageEl, contentDiv, updateContent, updateReasoning };
+  }
+
+  // Show a tool call of an agent run in the transcript, above the answer
+  private addToolCallMessage(call: ToolCall, before: HTMLElement) {
+    const toolEl = this.messagesContainer.createDiv({
+      cls: "ai-helper-chat-tool-call",
+    });
+    toolEl.setText(this.describeToolCall(call));
+    this.messagesContainer.insertBefore(toolEl, before);
+  }
+
+  private describeToolCall(call: ToolCall): string {
+    const args = call.arguments || {};
+    switch (call.name) {
+      case "search_notes": {
+        const filters = Object.entries(args.filters || {})
+          .map(([key, value]) => `${key}: ${value}`)
+          .join(", ");
+        return `Searching notes for "${args.query}"${filters ? ` (${filters})` : ""}`;
+      }
+      case "read_note":
+        return `Reading ${args.path}`;
+      case "list_recent_notes":
+        return `Listing notes modified in the last ${args.days} days`;
+      default:
+        return `Calling ${call.name}`;
+    }
+  }
+
+  // Mention which provider answered, and why when it was a fallback
+  private addProviderNote(messageEl: HTMLElement, message: ChatMessage) {
+    if (!message.provider) return;
+
+    const unavailable = message.unavailableProviders || [];
+    const noteEl = messageEl.createDiv({
+      cls: "ai-helper-chat-provider-note",
+    });
+    noteEl.setText(
+      unavailable.length > 0
+        ? `Answered by ${message.provider} because ${unavailable.join(", ")} ${unavailable.length === 1 ? "was" : "were"} unavailable`
+        : `Answered by ${message.provider}`,
+    );
+  }
+
+  // Show the tokens and cost of a response below the message
+  private addUsageFooter(messageEl: HTMLElement, message: ChatMessage) {
+    if (!message.usage) return;
+
+    const { inputTokens, outputTokens, cost } = message.usage;
+    this.conversationCost += cost;
+    const parts = [
+      `${formatTokens(inputTokens)} in`,
+      `${formatTokens(outputTokens)} out`,
+    ];
+    if (this.conversationCost > 0) {
+      parts.push(
+        formatCost(cost),
+        `${formatCost(this.conversationCost)} this chat`,
+      );
+    }
+
+    messageEl.createDiv({
+      cls: "ai-helper-chat-usage",
+      text: parts.join(" · "),
+      attr: { title: message.usage.model },
+    });
   }
 
   private setProcessingState(processing: boolean) {
@@ -514,8 +657,14 @@ export class AIHelperChatView extends ItemView {
       // After context is built, update the relevant notes list to show only included notes
       this.displayContextNotes();
 
-      // If no relevant notes were found, provide standard response
-      if (this.relevantNotes.filter(note => note.includedInContext).length === 0) {
+      const agentMode = this.settings.chatSettings.enableAgentMode;
+
+      // If no relevant notes were found, provide standard response. In agent
+      // mode the model can still search for notes itself.
+      if (
+        !agentMode &&
+        this.relevantNotes.filter(note => note.includedInContext).length === 0
+      ) {
         // Create UI element for displaying the response
         const { messageEl, updateContent } =
           this.createStreamingAssistantMessage();
@@ -532,9 +681,41 @@ export class AIHelperChatView extends ItemView {
 
       logDebug(this.settings, "Sending message to LLM: " + JSON.stringify(modelMessages));
 
-      if (this.settings.chatSettings.enableStreaming) {
+      if (agentMode) {
+        const { messageEl, updateContent, updateReasoning } =
+          this.createStreamingAssistantMessage();
+
+        try {
+          const response = await this.llmConnector.runAgent(
+            modelMessages,
+            this.noteTools,
+            (call) => this.addToolCallMessage(call, messageEl),
+            signal,
+          );
+
+          updateReasoning(response.reasoning || "");
+          updateContent(response.content);
+          this.addProviderNote(messageEl, response);
+          this.addUsageFooter(messageEl, response);
+          // Reasoning stays out of the history sent with later questions
+          this.messages.push({ role: "assistant", content: response.content });
+        } catch (error) {
+          console.error("Agent error:", error);
+          if (error.name !== "AbortError") {
+            const errorMessage =
+              error instanceof BudgetExceededError
+                ? error.message
+                : "I apologize, but I was unable to process your request.";
+            updateContent(errorMessage);
+            this.messages.push({ role: "assistant", content: errorMessage });
+          } else {
+            messageEl.remove();
+          }
+        }
+      } else if (this.settings.chatSettings.enableStreaming) {
         // Create UI element and get the update function
-        const { updateContent } = this.createStreamingAssistantMessage();
+        const { messageEl, updateContent, updateReasoning } =
+          this.createStreamingAssistantMessage();
 
         try {
           // Stream response and update UI with each chunk
@@ -547,7 +728,10 @@ export class AIHelperChatView extends ItemView {
               finalContent = content;
             },
             signal,
+            updateReasoning,
           );
+          this.addProviderNote(messageEl, response);
+          this.addUsageFooter(messageEl, response);
 
           // Add to message history
           this.messages.push({
@@ -574,7 +758,7 @@ export class AIHelperChatView extends ItemView {
       } else {
         // Non-streaming approach
         // Create a temporary "thinking" message
-        const { messageEl, updateContent } =
+        const { messageEl, updateContent, updateReasoning } =
           this.createStreamingAssistantMessage();
 
         try {
@@ -585,7 +769,10 @@ export class AIHelperChatView extends ItemView {
           );
 
           // Update the temporary message with the actual response
+          updateReasoning(response.reasoning || "");
           updateContent(response.content);
+          this.addProviderNote(messageEl, response);
+          this.addUsageFooter(messageEl, response);
 
           // Add to message history
           this.messages.push({
@@ -596,14 +783,16 @@ export class AIHelperChatView extends ItemView {
           console.error("Message processing error:", error);
           if (error.name !== "AbortError") {
             // Update the temporary message with an error message
-            updateContent(
-              "I apologize, but I was unable to process your request.",
-            );
+            const errorMessage =
+              error instanceof BudgetExceededError
+                ? error.message
+                : "I apologize, but I was unable to process your request.";
+            updateContent(errorMessage);
 
             // Add to message history
             this.messages.push({
               role: "assistant",
-              content: "I apologize, but I was unable to process your request.",
+              content: errorMessage,
             });
           } else {
             // If aborted, remove the temporary message
@@ -637,10 +826,8 @@ export class AIHelperChatView extends ItemView {
         `Processed query: ${JSON.stringify(processedQuery)}`,
       );
 
-      // Generate embedding for the processed query
-      const queryEmbedding = await this.embeddingStore.generateEmbedding(
-        processedQuery.processed,
-      );
+      // The store writes the query the way the index expects it
+      const queryEmbedding = await this.embeddingStore.generateEmbedding(query);
       logDebug(this.settings, "Generated query embedding");
 
       // Get the active file if any
@@ -687,7 +874,7 @@ export class AIHelperChatView extends ItemView {
         }
 
         try {
-          const content = await this.app.vault.cachedRead(file);
+          const content = await readFileContent(this.app, file);
           const mtime = file.stat.mtime;
           const lastModified = new Date(mtime).toLocaleString();
 
@@ -709,6 +896,11 @@ export class AIHelperChatView extends ItemView {
             content,
             relevance: result.score,
             chunkIndex: result.chunkIndex,
+            location:
+              typeof result.chunkIndex === "number"
+                ? this.vectorStore.getChunk(result.path, result.chunkIndex)
+                    ?.location
+                : undefined,
             includedInContext: false, // Default to false - will be updated by context manager
           });
         } catch (error) {
@@ -737,6 +929,7 @@ export class AIHelperChatView extends ItemView {
 
     // Clear messages and message history
     this.messages = [];
+    this.conversationCost = 0;
     this.messagesContainer.empty();
 
     // Clear relevant notes
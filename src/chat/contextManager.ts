@@ -1,8 +1,19 @@
 import { NoteWithContent } from "src/chat";
 import { VectorStore, NoteChunk } from "./vectorStore";
+import { formatHeadingPath } from "./markdownChunker";
 import { Settings } from "src/settings";
 import { processQuery } from "../nlp";
 import { ChatMessage } from "../chat";
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  getPromptBudget,
+} from "./tokenBudget";
+
+// Share of the prompt budget (after the system prompt and the query) that
+// conversation history may use. Notes get the rest, plus whatever history
+// leaves unused.
+const HISTORY_BUDGET_SHARE = 0.25;
 
 export class ContextManager {
   private vectorStore: VectorStore;
@@ -13,14 +24,19 @@ export class ContextManager {
     this.settings = settings;
   }
 
+  /**
+   * Build the note context within the token budget left after
+   * `usedTokens`. Notes are added in order of relevance and their chunks are
+   * added whole; a chunk that doesn't fit is dropped, never cut.
+   */
   buildContext(
     query: string,
     notes: NoteWithContent[],
-    existingContextLength: number,
+    usedTokens: number,
   ): string {
     let context = "";
-    const maxContextLength =
-      this.settings.chatSettings.maxContextLength - existingContextLength;
+    let remainingTokens =
+      getPromptBudget(this.settings.chatSettings) - usedTokens;
 
     // Add relevant notes
     if (notes.length > 0) {
@@ -33,20 +49,21 @@ export class ContextManager {
       const sortedNotes = [...notes].sort((a, b) => b.relevance - a.relevance);
 
       for (const note of sortedNotes) {
-        const excerpt = this.extractRelevantExcerpt(note, query);
-        const newContext =
-          context +
-          `File: ${note.file.basename}\nPath: ${note.file.path}\nRelevance: ${note.relevance.toFixed(2)}\nContent: ${excerpt}\n\n`;
-
-        // Check if adding this note would exceed the limit
-        if (JSON.stringify(newContext).length > maxContextLength) {
-          context = newContext.substring(0, maxContextLength);
-          // Mark this note as included
-          note.includedInContext = true;
-          break;
-        } else {
-          context = newContext;
-          // Mark this note as included
+        const header = `File: ${note.file.basename}\nPath: ${note.file.path}\nRelevance: ${note.relevance.toFixed(2)}\nContent: `;
+        const headerTokens = estimateTokens(header);
+        const included: string[] = [];
+
+        for (const chunk of this.extractRelevantChunks(note, query)) {
+          const chunkTokens =
+            estimateTokens(chunk) + (included.length === 0 ? headerTokens : 0);
+          if (chunkTokens > remainingTokens) continue;
+
+          included.push(chunk);
+          remainingTokens -= chunkTokens;
+        }
+
+        if (included.length > 0) {
+          context += `${header}${included.join("\n\n")}\n\n`;
           note.includedInContext = true;
         }
       }
@@ -62,6 +79,7 @@ export class ContextManager {
     messages: ChatMessage[],
     welcomeMessage: string,
     skipWelcomeMessage: boolean,
+    maxTokens: number = Infinity,
   ): string {
     // Filter messages to exclude welcome message if needed
     const filteredHistory = messages.filter(
@@ -73,6 +91,14 @@ export class ContextManager {
         ),
     );
 
+    // Drop the oldest messages until the rest fits the budget
+    while (
+      filteredHistory.length > 0 &&
+      estimateMessageTokens(filteredHistory) > maxTokens
+    ) {
+      filteredHistory.shift();
+    }
+
     // Create conversation history string, if any filtered messages exist
     return filteredHistory.length > 0
       ? `\nConversation history:\n${filteredHistory.map((m) => `${m.role}: ${m.content}`).join("\n")}`
@@ -98,11 +124,15 @@ If you're not sure about something, say so clearly.`;
 
     // If no relevant notes were found, return a simple fallback message
     if (notes.length === 0) {
-      // Get conversation history
+      const fallbackSystemPrompt =
+        "You are an AI assistant helping a user with their notes. Try to be helpful using the conversation history for context";
+
+      // Without notes, history may use the whole remaining budget
       const historyText = this.buildConversationHistory(
         messages.slice(0, -1), // Exclude the last message (current query)
         welcomeMessage,
         this.settings.chatSettings.displayWelcomeMessage,
+        this.getRemainingBudget(fallbackSystemPrompt, userQuery),
       );
 
       const systemMessages: ChatMessage[] = [];
@@ -110,8 +140,7 @@ If you're not sure about something, say so clearly.`;
       // Add primary system message
       systemMessages.push({
         role: "system",
-        content:
-          "You are an AI assistant helping a user with their notes. Try to be helpful using the conversation history for context",
+        content: fallbackSystemPrompt,
       });
 
       // Add history as a separate system message if it exists
@@ -129,11 +158,19 @@ If you're not sure about something, say so clearly.`;
     // Get previous conversation history excluding the last user message
     const conversationHistory = messages.slice(0, -1);
 
+    // The system prompt and the query are always sent, history gets a
+    // capped share of what's left and notes fill the remainder
+    const remainingBudget = this.getRemainingBudget(
+      `${responseSystemPrompt}\n\nContext from user's notes:\n`,
+      userQuery,
+    );
+
     // Build history text with proper filtering
     const historyText = this.buildConversationHistory(
       conversationHistory,
       welcomeMessage,
       this.settings.chatSettings.displayWelcomeMessage,
+      Math.floor(remainingBudget * HISTORY_BUDGET_SHARE),
     );
 
     // Prepare messages for the LLM
@@ -162,8 +199,8 @@ If you're not sure about something, say so clearly.`;
     const context = this.buildContext(
       userQuery,
       notes,
-      // Adjust token budget
-      JSON.stringify(modelMessages).length + 200,
+      estimateMessageTokens(modelMessages) +
+        estimateTokens("\n\nContext from user's notes:\n"),
     );
 
     // Update the system message to include note context
@@ -175,12 +212,28 @@ If you're not sure about something, say so clearly.`;
     return modelMessages;
   }
 
-  private extractRelevantExcerpt(note: NoteWithContent, query: string): string {
+  // Tokens left for history and notes once the fixed parts are in place
+  private getRemainingBudget(systemPrompt: string, userQuery: string): number {
+    const fixedTokens = estimateMessageTokens([
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userQuery },
+    ]);
+    return Math.max(
+      0,
+      getPromptBudget(this.settings.chatSettings) - fixedTokens,
+    );
+  }
+
+  // Relevant chunks of a note, most relevant first
+  private extractRelevantChunks(
+    note: NoteWithContent,
+    query: string,
+  ): string[] {
     // If we have a chunkIndex in the note metadata, use that specific chunk
     if ("chunkIndex" in note && typeof note.chunkIndex === "number") {
       const chunk = this.vectorStore.getChunk(note.file.path, note.chunkIndex);
       if (chunk) {
-        return chunk.content;
+        return [this.formatChunk(chunk)];
       }
     }
 
@@ -228,15 +281,24 @@ If you're not sure about something, say so clearly.`;
       const relevantChunks = scoredChunks
         .filter(({ score }) => score > 0)
         .sort((a, b) => b.score - a.score)
-        .map(({ chunk }) => chunk.content);
+        .map(({ chunk }) => this.formatChunk(chunk));
 
       if (relevantChunks.length > 0) {
-        return relevantChunks.join("\n\n");
+        return relevantChunks;
       }
     }
 
     // Fallback to finding relevant sections in the content
-    return this.findRelevantSection(note.content, query);
+    return [this.findRelevantSection(note.content, query)];
+  }
+
+  // A chunk's text, preceded by the headings it sits under where known, so
+  // that the model can tell which part of the note it comes from
+  private formatChunk(chunk: NoteChunk): string {
+    const headings = chunk.location?.headings || [];
+    return headings.length > 0
+      ? `Section: ${formatHeadingPath(headings)}\n${chunk.content}`
+      : chunk.content;
   }
 
   private findRelevantSection(content: string, query: string): string {
@@ -0,0 +1,134 @@
+import { processQuery } from "../nlp";
+import { EmbeddingSettings, Settings } from "../settings";
+
+// Stands for the query or chunk text in a template
+export const TEXT_PLACEHOLDER = "{text}";
+
+/**
+ * How queries and note chunks are written for an embedding model. Many
+ * models are trained with a task instruction before the text, such as
+ * `query: ` and `passage: `, and match better when both carry theirs. An
+ * empty template leaves the text as it is.
+ */
+export interface EmbeddingTemplates {
+  query: string;
+  document: string;
+}
+
+export type EmbeddingInputKind = keyof EmbeddingTemplates;
+
+// Templates the model cards of well known models ask for
+const RECOMMENDED_TEMPLATES: [RegExp, EmbeddingTemplates][] = [
+  [
+    /nomic-embed/i,
+    { query: "search_query: {text}", document: "search_document: {text}" },
+  ],
+  [
+    /\be5-(small|base|large)/i,
+    { query: "query: {text}", document: "passage: {text}" },
+  ],
+  [
+    /mxbai-embed-large|bge-(small|base|large)-en/i,
+    {
+      query: "Represent this sentence for searching relevant passages: {text}",
+      document: "",
+    },
+  ],
+];
+
+export function getRecommendedTemplates(
+  model: string,
+): EmbeddingTemplates | undefined {
+  const match = RECOMMENDED_TEMPLATES.find(([pattern]) => pattern.test(model));
+  return match ? { ...match[1] } : undefined;
+}
+
+// The templates set for the model
+export function getEmbeddingTemplates(
+  settings: EmbeddingSettings,
+  model: string,
+): EmbeddingTemplates {
+  return { query: "", document: "", ...settings.templates?.[model] };
+}
+
+/**
+ * How texts are written for an embedding model. An index records the one it
+ * was built with, as vectors of texts written another way can't be compared.
+ */
+export interface EmbeddingInput {
+  rawText: boolean;
+  templates: EmbeddingTemplates;
+}
+
+// Normalized text without templates, the only input of earlier versions
+export const DEFAULT_EMBEDDING_INPUT: EmbeddingInput = {
+  rawText: false,
+  templates: { query: "", document: "" },
+};
+
+// The input the settings select for the model
+export function getEmbeddingInput(
+  settings: EmbeddingSettings,
+  model: string,
+): EmbeddingInput {
+  return {
+    rawText: !!settings.rawText,
+    templates: getEmbeddingTemplates(settings, model),
+  };
+}
+
+// A template without the placeholder is a prefix
+export function applyTemplate(template: string, text: string): string {
+  if (!template) return text;
+  return template.includes(TEXT_PLACEHOLDER)
+    ? template.split(TEXT_PLACEHOLDER).join(text)
+    : template + text;
+}
+
+/**
+ * The text sent to the embedding model for a query or a note chunk. Unless
+ * raw text is enabled, it is first normalized like search terms, lowercased
+ * and stemmed without stopwords, then the template of the model is applied.
+ */
+export function prepareEmbeddingInput(
+  text: string,
+  kind: EmbeddingInputKind,
+  input: EmbeddingInput,
+  settings: Settings,
+): string {
+  return applyTemplate(
+    input.templates[kind],
+    input.rawText ? text : processQuery(text, settings).processed,
+  );
+}
+
+/**
+ * Identifies how note chunks are turned into embedding input, so that notes
+ * embedded another way count as changed. Empty for normalized text without
+ * a template, the only input of earlier versions.
+ */
+export function documentInputKey(input: EmbeddingInput): string {
+  const template = applyTemplate(input.templates.document, TEXT_PLACEHOLDER);
+  if (!input.rawText && template === TEXT_PLACEHOLDER) return "";
+  return `${input.rawText ? "raw" : "normalized"}:${template}`;
+}
+
+// Whether queries and chunks are written the same way, a prefix being the
+// same as a template that ends with the placeholder
+export function sameEmbeddingInput(
+  a: EmbeddingInput,
+  b: EmbeddingInput,
+): boolean {
+  const same = (kind: EmbeddingInputKind) =>
+    applyTemplate(a.templates[kind], TEXT_PLACEHOLDER) ===
+    applyTemplate(b.templates[kind], TEXT_PLACEHOLDER);
+  return a.rawText === b.rawText && same("query") && same("document");
+}
+
+export function describeEmbeddingInput(input: EmbeddingInput): string {
+  const text = input.rawText ? "raw text" : "normalized text";
+  const templates = (["query", "document"] as EmbeddingInputKind[])
+    .filter((kind) => input.templates[kind])
+    .map((kind) => `${kind} template "${input.templates[kind]}"`);
+  return templates.length > 0 ? `${text}, ${templates.join(", ")}` : text;
+}
@@ -1,31 +1,106 @@
-import { TFile, requestUrl, RequestUrlParam, App } from "obsidian";
-import { Settings } from "../settings";
+import { TFile, App, CachedMetadata } from "obsidian";
+import { ProviderType, Settings } from "../settings";
 import { VectorStore } from "./vectorStore";
 import { NoteEmbedding } from "../chat";
 import { logDebug, logError } from "../utils";
 import { Notice } from "obsidian";
-import { processQuery } from "../nlp";
+import { estimateTokens } from "./tokenBudget";
+import { hashContent } from "./contentHash";
+import {
+  DEFAULT_EMBEDDING_INPUT,
+  EmbeddingInput,
+  EmbeddingInputKind,
+  describeEmbeddingInput,
+  documentInputKey,
+  getEmbeddingInput,
+  prepareEmbeddingInput,
+  sameEmbeddingInput,
+} from "./embeddingInput";
+import { extractNoteMetadata, sameMetadata } from "./noteMetadata";
+import { isFileExcluded } from "./indexRules";
+import {
+  getIndexableFiles,
+  isIndexableType,
+  readFileContent,
+} from "../extractors";
+import {
+  CHUNKER_VERSION,
+  MarkdownChunk,
+  chunkMarkdown,
+} from "./markdownChunker";
+import {
+  INDEX_VERSION,
+  IndexModel,
+  StoredNote,
+  decodeIndex,
+  encodeIndex,
+} from "./indexStorage";
+import {
+  FutureIndexVersionError,
+  StoredIndex,
+  checkIndexVersion,
+  migrateIndex,
+} from "./indexMigrations";
+import {
+  calculateCost,
+  formatRun,
+  globalUsageTracker,
+  isCloudProvider,
+} from "../usageTracker";
+import {
+  IndexingFailure,
+  IndexingQueue,
+  NoteContent,
+  NoteIndexedListener,
+} from "./indexingQueue";
+import {
+  BaseProvider,
+  EmbeddingResult,
+  ProviderError,
+  RetryEvent,
+  RetryListener,
+  createProvider,
+  createProviderChain,
+  getProviderConfig,
+  isFailoverError,
+  supportsEmbeddings,
+  withFallback,
+} from "../providers";
 
 interface EmbeddingModel {
   embed: (text: string) => Promise<Float32Array>;
+  embedBatch: (texts: string[]) => Promise<Float32Array[]>;
 }
 
-interface PersistedEmbeddingStore {
-  version: number;
-  lastUpdated: number;
-  embeddings: {
-    [path: string]: {
-      path: string;
-      chunks: {
-        content: string;
-        embedding: number[];
-        position: number;
-      }[];
-      lastModified: number;
-    };
-  };
+// A note whose chunks are being embedded
+interface PendingNote {
+  file: TFile;
+  hash: string;
+  chunks: (MarkdownChunk & { hash: string })[];
+  // Vectors so far, kept from the previous version of the note or new
+  embeddings: Float32Array[];
+  // Chunks still without a vector
+  remaining: number;
+  // Stored, or given up after a failed request
+  done: boolean;
 }
 
+// Limits of a single embeddings request. Chunks of several notes share a
+// request up to these, well below what OpenAI and LM Studio accept.
+const MAX_BATCH_INPUTS = 32;
+const MAX_BATCH_TOKENS = 8000;
+
+// Size of an empty index until the selected model returns its first
+// vectors, or a saved index is loaded
+const DEFAULT_DIMENSIONS = 384;
+
+// The index lives in the plugin folder: a JSON manifest and a binary file
+// with the vectors. Older versions kept everything in embeddings.json.
+const INDEX_FOLDER = ".obsidian/plugins/obsidian-ai-helper";
+const INDEX_MANIFEST_FILE = `${INDEX_FOLDER}/embeddings-index.json`;
+const INDEX_VECTORS_FILE = `${INDEX_FOLDER}/embeddings.bin`;
+const LEGACY_INDEX_FILE = `${INDEX_FOLDER}/embeddings.json`;
+
 // Static initialization state to track across instances
 let globalInitializationPromise: Promise<void> | null = null;
 let isGloballyInitialized = false;
@@ -37,6 +112,14 @@ export { globalInitializationPromise, isGloballyInitialized };
 export let globalVectorStore: VectorStore | null = null;
 export let globalEmbeddingStore: EmbeddingStore | null = null;
 
+// Describe a pending retry for indexing progress notices
+export function formatRetryStatus(event: RetryEvent): string {
+  return `${event.label} request failed, retrying in ${Math.ceil(event.delayMs / 1000)}s (attempt ${event.attempt}/${event.maxRetries})`;
+}
+
+// Raised when a fallback embedding model doesn't match the index
+class DimensionMismatchError extends Error {}
+
 export class EmbeddingStore {
   private embeddings: Map<string, NoteEmbedding> = new Map();
   private settings: Settings;
@@ -44,12 +127,39 @@ export class EmbeddingStore {
   private embeddingModel: EmbeddingModel;
   private dimensions: number;
   private app: App;
+  private retryListener?: RetryListener;
+  // Providers whose servers rejected array inputs, by description
+  private singleInputProviders = new Set<string>();
+  private queue: IndexingQueue;
+  // Save in progress, and the one queued behind it
+  private saving: Promise<void> | null = null;
+  private nextSave: Promise<void> | null = null;
+  // Model the stored vectors were made with
+  private indexModel: IndexModel | null = null;
+  // Set once the selected model returned vectors the index can't hold
+  private dimensionMismatch: string | null = null;
+  // Last mismatch the plugin was told about
+  private reportedMismatch: string | null = null;
+  // New index being built while this one keeps serving searches, and
+  // updates of notes changed meanwhile that go into it as well
+  private rebuilding: EmbeddingStore | null = null;
+  private rebuildUpdates: Promise<unknown>[] = [];
+  // Version of a saved index this plugin can't read, left as it is
+  private refusedVersion: number | null = null;
 
   constructor(settings: Settings, vectorStore: VectorStore, app: App) {
     this.settings = settings;
     this.vectorStore = vectorStore;
-    this.dimensions = settings.embeddingSettings.dimensions;
+    this.dimensions = DEFAULT_DIMENSIONS;
     this.app = app;
+    this.queue = new IndexingQueue(settings, app, (notes, onNoteIndexed) =>
+      this.embedNotes(notes, onNoteIndexed),
+    );
+  }
+
+  // Let indexing progress report retried embedding requests
+  setRetryListener(listener?: RetryListener) {
+    this.retryListener = listener;
   }
 
   // Add this method to support the tests
@@ -78,16 +188,19 @@ export class EmbeddingStore {
       // Initialize the embedding model based on settings
       const provider = this.settings.embeddingSettings.provider;
 
-      if (provider === "openai" || provider === "local") {
+      if (supportsEmbeddings(provider)) {
         this.embeddingModel = {
           embed: async (text: string) => {
             return await this.generateProviderEmbedding(text);
           },
+          embedBatch: async (texts: string[]) => {
+            return await this.generateProviderEmbeddings(texts);
+          },
         };
         logDebug(this.settings, `Using ${provider} embeddings`);
       } else {
         throw new Error(
-          'Invalid embedding provider. Must be either "openai" or "local".',
+          'Invalid embedding provider. Must be "openai", "azure", "ollama", "local" or "builtin".',
         );
       }
       logDebug(this.settings, "EmbeddingStore initialized successfully");
@@ -98,74 +211,69 @@ export class EmbeddingStore {
   }
 
   async generateProviderEmbedding(text: string): Promise<Float32Array> {
-    try {
-      const provider = this.settings.embeddingSettings.provider;
-      let apiUrl =
-        provider === "openai"
-          ? this.settings.embeddingSettings.openaiApiUrl ||
-            "https://api.openai.com/v1/embeddings"
-          : this.settings.embeddingSettings.localApiUrl;
-
-      // Ensure API URL is defined
-      if (!apiUrl) {
-        throw new Error(
-          `${provider} API URL is missing. Please configure it in the settings.`,
-        );
-      }
-
-      const model =
-        provider === "openai"
-          ? this.settings.embeddingSettings.openaiModel
-          : this.settings.embeddingSettings.localModel;
-
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
-
-      // Add Authorization header for OpenAI
-      if (provider === "openai") {
-        const apiKey = this.settings.embeddingSettings.openaiApiKey;
-        headers["Authorization"] = `Bearer ${apiKey}`;
-      }
-
-      const requestBody = {
-        model: model,
-        input: text,
-      };
-
-      const requestParams: RequestUrlParam = {
-        url: apiUrl,
-        method: "POST",
-        headers: headers,
-        body: JSON.stringify(requestBody),
-      };
-
-      const response = await requestUrl(requestParams);
-      const responseData = response.json;
-
-      if (
-        responseData.data &&
-        responseData.data.length > 0 &&
-        responseData.data[0].embedding
-      ) {
-        const embedding = new Float32Array(responseData.data[0].embedding);
+    const [embedding] = await this.generateProviderEmbeddings([text]);
+    return embedding;
+  }
 
-        // Validate dimensionality
-        if (embedding.length !== this.dimensions) {
-          logError(
-            `${provider} embedding dimensionality (${embedding.length}) does not match expected dimensionality (${this.dimensions}). This may cause issues with vector search.`,
+  // Embed several texts, in as few requests as the provider accepts
+  async generateProviderEmbeddings(texts: string[]): Promise<Float32Array[]> {
+    try {
+      const providers = this.createProviders();
+      const [primary] = providers;
+
+      const answer = await withFallback(
+        providers,
+        async (provider) => {
+          provider.onRetry = this.retryListener;
+          const { vectors, usage } = await this.embedInputs(provider, texts);
+
+          // Vectors of another size can't be compared with the stored ones,
+          // only the selected model may set the size of an empty index
+          const size = vectors[0].length;
+          if (
+            size !== this.dimensions &&
+            (provider !== primary || this.embeddings.size > 0)
+          ) {
+            const message = `${provider.description} returns ${size}-dimensional embeddings, the index uses ${this.dimensions}`;
+            if (provider === primary) {
+              this.dimensionMismatch = message;
+              this.reportMismatch();
+            }
+            throw new DimensionMismatchError(message);
+          }
+          // Count tokens locally for servers that don't report them
+          globalUsageTracker?.record(
+            "embedding",
+            provider.model || provider.label,
+            usage || {
+              inputTokens: texts.reduce(
+                (total, text) => total + estimateTokens(text),
+                0,
+              ),
+              outputTokens: 0,
+            },
           );
-          // Update the dimensions setting to match the actual embedding
-          this.dimensions = embedding.length;
-          this.settings.embeddingSettings.dimensions = embedding.length;
-        }
+          return vectors;
+        },
+        this.settings,
+        (error) =>
+          error instanceof DimensionMismatchError || isFailoverError(error),
+      );
+      const embeddings = answer.result;
 
-        return embedding;
-      } else {
-        throw new Error(
-          `Invalid response format from ${provider} embeddings API`,
+      // An empty index takes the size of the selected model, which is kept
+      // with the index
+      const size = embeddings[0].length;
+      if (size !== this.dimensions) {
+        logDebug(
+          this.settings,
+          `${answer.provider.label} returns ${size}-dimensional embeddings, the index expected ${this.dimensions}`,
         );
+        this.dimensions = size;
+        this.vectorStore.setDimensions(size);
       }
+
+      return embeddings;
     } catch (error) {
       logError(
         `Error generating ${this.settings.embeddingSettings.provider} embedding`,
@@ -175,294 +283,554 @@ export class EmbeddingStore {
     }
   }
 
-  async addNote(file: TFile, content: string) {
-    try {
-      logDebug(this.settings, `Processing note for embeddings: ${file.path}`);
-
-      // Handle empty or very short content gracefully
-      if (!this.isValidContent(file.path, content)) {
-        return;
-      }
+  // The model to embed with, so that new vectors match the stored ones
+  private activeModel(): IndexModel {
+    return this.indexModel && this.embeddings.size > 0
+      ? this.indexModel
+      : this.currentModel();
+  }
 
-      const chunks = this.chunkContent(content);
-      logDebug(
-        this.settings,
-        `Created ${chunks.length} chunks for ${file.path}`,
-      );
+  // The model selected in the settings
+  private currentModel(): IndexModel {
+    const { type, model } = getProviderConfig(this.settings.embeddingSettings);
+    return {
+      provider: type,
+      model: model || "",
+      input: getEmbeddingInput(this.settings.embeddingSettings, model || ""),
+    };
+  }
 
-      // If no chunks were created, skip this file
-      if (chunks.length === 0) {
-        logDebug(
-          this.settings,
-          `No chunks created for ${file.path}. Skipping.`,
-        );
-        return;
-      }
+  // How texts are written for the active model
+  private activeInput(): EmbeddingInput {
+    return this.activeModel().input || DEFAULT_EMBEDDING_INPUT;
+  }
 
-      const embeddings = await Promise.all(
-        chunks.map(async (chunk, index) => {
-          const embedding = await this.generateEmbedding(chunk.content);
-          logDebug(
-            this.settings,
-            `Generated embedding for chunk ${index + 1}/${chunks.length} of ${file.path}`,
-          );
-          return embedding;
-        }),
+  // The active model followed by the fallbacks of the settings
+  private createProviders(): BaseProvider[] {
+    const section = {
+      ...this.settings.embeddingSettings,
+      openaiApiUrl:
+        this.settings.embeddingSettings.openaiApiUrl ||
+        "https://api.openai.com/v1/embeddings",
+    };
+    const { provider, model } = this.activeModel();
+    const providers = createProviderChain(
+      { ...section, provider: provider as ProviderType },
+      this.settings,
+    );
+    // The index may come from another model of the same provider
+    if ((providers[0].model || "") !== model) {
+      providers[0] = createProvider(
+        { ...getProviderConfig(section, provider as ProviderType), model },
+        this.settings,
       );
+    }
+    return providers;
+  }
 
-      const noteEmbedding: NoteEmbedding = {
-        path: file.path,
-        chunks: chunks.map((chunk, i) => ({
-          content: chunk.content,
-          embedding: embeddings[i],
-          position: chunk.position,
-        })),
-      };
-
-      // Store in both EmbeddingStore and VectorStore
-      this.embeddings.set(file.path, noteEmbedding);
-      this.vectorStore.addEmbedding(file.path, noteEmbedding);
-      logDebug(this.settings, `Successfully added embeddings for ${file.path}`);
-    } catch (error) {
-      logError(`Error adding note ${file.path}`, error);
-      throw error;
+  /**
+   * Why the index doesn't fit the selected embedding model or the way texts
+   * are written for it, or null when it does. Until it is rebuilt, the
+   * index keeps embedding notes and queries as it was built.
+   */
+  getModelMismatch(): string | null {
+    if (this.dimensionMismatch) return this.dimensionMismatch;
+    if (!this.indexModel || this.embeddings.size === 0) return null;
+    const current = this.currentModel();
+    if (
+      this.indexModel.provider !== current.provider ||
+      this.indexModel.model !== current.model
+    ) {
+      return `The index was built with ${describeModel(this.indexModel)}, the settings select ${describeModel(current)}`;
     }
+    const input = this.indexModel.input || DEFAULT_EMBEDDING_INPUT;
+    if (current.input && !sameEmbeddingInput(input, current.input)) {
+      return `The index was built from ${describeEmbeddingInput(input)}, the settings select ${describeEmbeddingInput(current.input)}`;
+    }
+    return null;
   }
 
-  async generateEmbedding(text: string): Promise<Float32Array> {
-    // Apply the same processing to text being embedded as we do to queries
-    // This ensures consistency between query and document processing
-    const processed = typeof text === "string" ? text : "";
+  // Let the plugin offer a rebuild, once for every new mismatch
+  reportMismatch() {
+    const reason = this.getModelMismatch();
+    if (!reason || reason === this.reportedMismatch) return;
+    this.reportedMismatch = reason;
+    logDebug(this.settings, reason);
+    document.dispatchEvent(
+      new CustomEvent("ai-helper-index-model-mismatch", {
+        detail: { reason },
+      }),
+    );
+  }
 
-    try {
-      // For embedding generation, we don't need the full query processing with expansion,
-      // but we want consistent stemming and stopword removal
-      const processedText = processQuery(processed, this.settings).processed;
+  // Rough number of tokens and price of embedding the indexed notes again
+  // with the selected model
+  estimateRebuild(): { notes: number; tokens: number; cost: number } {
+    let tokens = 0;
+    this.embeddings.forEach((embedding) => {
+      embedding.chunks.forEach((chunk) => {
+        tokens += estimateTokens(chunk.content);
+      });
+    });
+    const { provider, model } = this.currentModel();
+    const cost = isCloudProvider(provider as ProviderType)
+      ? calculateCost(this.settings, model, {
+          inputTokens: tokens,
+          outputTokens: 0,
+        })
+      : 0;
+    return { notes: this.embeddings.size, tokens, cost };
+  }
 
-      if (this.settings.embeddingSettings.provider === "openai") {
-        return await this.generateOpenAIEmbedding(processedText);
-      } else {
-        return await this.generateLocalEmbedding(processedText);
-      }
-    } catch (error) {
-      console.error("Error generating embedding:", error);
-      throw error;
+  /**
+   * Embed the files with the selected model into a new index and switch to
+   * it once all of them are done. Searches keep using the current index
+   * until then, and notes changed meanwhile are updated in both.
+   */
+  async rebuild(
+    files: TFile[],
+    onNoteIndexed?: NoteIndexedListener,
+  ): Promise<IndexingFailure[]> {
+    if (this.rebuilding) {
+      throw new Error("The index is already being rebuilt");
     }
-  }
+    const rebuilt = new EmbeddingStore(
+      this.settings,
+      new VectorStore(this.dimensions, this.settings, this.app),
+      this.app,
+    );
+    await rebuilt.initialize();
+    rebuilt.setRetryListener(this.retryListener);
+    this.rebuilding = rebuilt;
 
-  // Generate embedding using OpenAI API
-  private async generateOpenAIEmbedding(text: string): Promise<Float32Array> {
     try {
-      if (!this.embeddingModel) {
-        throw new Error("Embedding model not initialized");
+      const failures = await rebuilt.indexFiles(files, onNoteIndexed);
+      while (this.rebuildUpdates.length > 0) {
+        await Promise.all(this.rebuildUpdates.splice(0));
       }
-
-      if (!this.settings.embeddingSettings.openaiApiKey) {
-        throw new Error(
-          "OpenAI API key is missing. Please configure it in the settings.",
-        );
+      // Nothing could be embedded, most likely the model is unreachable
+      if (files.length > 0 && failures.length === files.length) {
+        throw failures[0].error;
       }
 
-      const embedding = await this.embeddingModel.embed(text);
-      if (!embedding || !(embedding instanceof Float32Array)) {
-        throw new Error("Invalid embedding generated from OpenAI");
-      }
-      return embedding;
-    } catch (error) {
-      logError("Error generating OpenAI embedding", error);
-      throw new Error(`Failed to generate OpenAI embedding: ${error.message}`);
+      this.replaceWith(rebuilt);
+      await this.saveToFile();
+      return failures;
+    } finally {
+      this.rebuilding = null;
+      this.rebuildUpdates = [];
     }
   }
 
-  // Generate embedding using local API
-  private async generateLocalEmbedding(text: string): Promise<Float32Array> {
-    try {
-      if (!this.embeddingModel) {
-        throw new Error("Embedding model not initialized");
-      }
+  private replaceWith(rebuilt: EmbeddingStore) {
+    this.embeddings = rebuilt.embeddings;
+    this.indexModel = rebuilt.indexModel;
+    this.dimensions = rebuilt.dimensions;
+    this.dimensionMismatch = null;
+    this.reportedMismatch = null;
+    this.refusedVersion = null;
+    this.vectorStore.clear();
+    this.vectorStore.setDimensions(this.dimensions);
+    this.embeddings.forEach((embedding, path) =>
+      this.vectorStore.addEmbedding(path, embedding),
+    );
+    logDebug(
+      this.settings,
+      `Switched to the index built with ${describeModel(this.activeModel())}`,
+    );
+  }
 
-      if (!this.settings.embeddingSettings.localApiUrl) {
-        throw new Error(
-          "Local API URL is missing. Please configure it in the settings.",
+  /**
+   * Send all texts in one request. Servers that reject an input array get
+   * one request per text instead, now and for the rest of the session.
+   */
+  private async embedInputs(
+    provider: BaseProvider,
+    texts: string[],
+  ): Promise<EmbeddingResult> {
+    if (
+      texts.length > 1 &&
+      !this.singleInputProviders.has(provider.description)
+    ) {
+      try {
+        return await provider.embedWithUsage(texts);
+      } catch (error) {
+        if (!rejectsInputArray(error)) throw error;
+        logDebug(
+          this.settings,
+          `${provider.description} rejected ${texts.length} inputs in one request (${error.message}), sending them one at a time`,
         );
       }
+    }
 
-      const embedding = await this.embeddingModel.embed(text);
-      if (!embedding || !(embedding instanceof Float32Array)) {
-        throw new Error("Invalid embedding generated from local provider");
+    const vectors: Float32Array[] = [];
+    let usage = { inputTokens: 0, outputTokens: 0 };
+    let reported = true;
+    for (const text of texts) {
+      const result = await provider.embedWithUsage([text]);
+      vectors.push(result.vectors[0]);
+      if (result.usage) {
+        usage = {
+          inputTokens: usage.inputTokens + result.usage.inputTokens,
+          outputTokens: usage.outputTokens + result.usage.outputTokens,
+        };
+      } else {
+        reported = false;
       }
-      return embedding;
-    } catch (error) {
-      logError("Error generating local embedding", error);
-      throw new Error(`Failed to generate local embedding: ${error.message}`);
     }
+    if (texts.length > 1) this.singleInputProviders.add(provider.description);
+    return { vectors, usage: reported ? usage : undefined };
   }
 
-  private chunkContent(
-    content: string,
-  ): { content: string; position: number }[] {
-    const chunkSize = this.settings.embeddingSettings.chunkSize;
-    const chunkOverlap = this.settings.embeddingSettings.chunkOverlap;
-    const chunks: { content: string; position: number }[] = [];
-
-    // Split content into sections based on headers
-    const sections = content.split(/(?=^#{1,6}\s)/m);
-    let position = 0;
-
-    for (const section of sections) {
-      if (section.trim().length === 0) continue;
+  async addNote(file: TFile, content: string) {
+    const [failure] = await this.addNotes([{ file, content }]);
+    if (failure) throw failure.error;
+  }
 
-      // Split section into paragraphs
-      const paragraphs = section.split(/\n\s*\n/);
-      let currentChunk = "";
-      let chunkStartPosition = position;
-      let lastChunkContent = ""; // Keep track of last chunk for overlap
+  // Queue notes for indexing and wait until all of them are done
+  async addNotes(
+    notes: NoteContent[],
+    onNoteIndexed?: NoteIndexedListener,
+  ): Promise<IndexingFailure[]> {
+    return this.waitForQueue(notes, onNoteIndexed);
+  }
 
-      for (const paragraph of paragraphs) {
-        const trimmedParagraph = paragraph.trim();
-        if (trimmedParagraph.length === 0) continue;
+  // Like addNotes, with each file read once its turn comes
+  async indexFiles(
+    files: TFile[],
+    onNoteIndexed?: NoteIndexedListener,
+  ): Promise<IndexingFailure[]> {
+    return this.waitForQueue(
+      files.map((file) => ({ file })),
+      onNoteIndexed,
+    );
+  }
 
-        // If this is a header paragraph, always start a new chunk
-        const isHeader = /^#{1,6}\s/.test(trimmedParagraph);
+  private async waitForQueue(
+    notes: { file: TFile; content?: string }[],
+    onNoteIndexed?: NoteIndexedListener,
+  ): Promise<IndexingFailure[]> {
+    if (this.rebuilding) {
+      this.rebuildUpdates.push(this.rebuilding.waitForQueue(notes));
+    }
+    const failures: IndexingFailure[] = [];
+    await Promise.all(
+      notes.map(async ({ file, content }) => {
+        try {
+          await this.queue.add(file, content);
+          onNoteIndexed?.(file);
+        } catch (error) {
+          failures.push({ file, error });
+          onNoteIndexed?.(file, error);
+        }
+      }),
+    );
+    return failures;
+  }
 
-        if (
-          isHeader ||
-          (currentChunk.length + trimmedParagraph.length > chunkSize &&
-            currentChunk.length > 0)
-        ) {
-          if (currentChunk.length > 0) {
-            chunks.push({
-              content: currentChunk.trim(),
-              position: chunkStartPosition,
-            });
-            lastChunkContent = currentChunk;
-          }
+  /**
+   * Chunk and embed notes, packing chunks of different notes into shared
+   * requests that are sent one at a time. Each note is stored once all its
+   * chunks have vectors; a failed request fails only the notes with chunks
+   * in it, and their remaining chunks are skipped.
+   */
+  private async embedNotes(
+    notes: NoteContent[],
+    onNoteIndexed: NoteIndexedListener,
+  ) {
+    const pending: PendingNote[] = [];
+
+    for (const { file, content } of notes) {
+      logDebug(this.settings, `Processing note for embeddings: ${file.path}`);
 
-          // Start new chunk, including overlap from previous chunk if available
-          if (!isHeader && lastChunkContent.length > 0) {
-            // Get the last few sentences or paragraphs up to chunkOverlap characters
-            const overlapText = this.getOverlapText(
-              lastChunkContent,
-              chunkOverlap,
-            );
-            currentChunk = overlapText + "\n\n" + trimmedParagraph;
-          } else {
-            currentChunk = trimmedParagraph;
-          }
-          chunkStartPosition = position - (isHeader ? 0 : chunkOverlap);
-        } else {
-          // Add to current chunk
-          currentChunk +=
-            (currentChunk.length > 0 ? "\n\n" : "") + trimmedParagraph;
-        }
+      // Whatever queued it, an excluded note is never sent to the provider
+      if (this.isExcluded(file)) {
+        logDebug(this.settings, `${file.path} is excluded from the index.`);
+        if (this.embeddings.has(file.path)) this.removeNote(file.path);
+        onNoteIndexed(file);
+        continue;
+      }
 
-        position += trimmedParagraph.length + 2; // +2 for newlines
+      // Handle empty or very short content gracefully
+      if (!this.isValidContent(file.path, content)) {
+        onNoteIndexed(file);
+        continue;
       }
 
-      // Add the last chunk of the section
-      if (currentChunk.length > 0) {
-        chunks.push({
-          content: currentChunk.trim(),
-          position: chunkStartPosition,
-        });
-        lastChunkContent = currentChunk;
+      // Notes touched without a change, e.g. by a sync, keep their vectors
+      const hash = this.noteHash(content);
+      const previous = this.embeddings.get(file.path);
+      if (previous?.hash === hash) {
+        logDebug(this.settings, `${file.path} is unchanged. Skipping.`);
+        this.updateMetadata(file);
+        onNoteIndexed(file);
+        continue;
       }
-    }
 
-    // If we have very small chunks at the end, combine them with overlap
-    const consolidatedChunks: { content: string; position: number }[] = [];
-    let currentConsolidated = "";
-    let currentPosition = 0;
-    let lastConsolidatedContent = "";
+      const chunks = this.chunkContent(content).map((chunk) => ({
+        ...chunk,
+        hash: this.chunkHash(chunk.content),
+      }));
+      logDebug(
+        this.settings,
+        `Created ${chunks.length} chunks for ${file.path}`,
+      );
 
-    for (const chunk of chunks) {
-      const wouldExceedSize =
-        currentConsolidated.length + chunk.content.length > chunkSize;
+      // If no chunks were created, skip this file
+      if (chunks.length === 0) {
+        logDebug(
+          this.settings,
+          `No chunks created for ${file.path}. Skipping.`,
+        );
+        onNoteIndexed(file);
+        continue;
+      }
 
-      if (!wouldExceedSize) {
-        if (currentConsolidated.length > 0) {
-          currentConsolidated += "\n\n";
-        }
-        currentConsolidated += chunk.content;
-        if (currentConsolidated.length === 0) {
-          currentPosition = chunk.position;
+      // Only chunks whose text changed need new vectors
+      const known = new Map<string, Float32Array>();
+      for (const chunk of previous?.chunks || []) {
+        if (chunk.embedding.length === this.dimensions) {
+          known.set(chunk.hash || hashContent(chunk.content), chunk.embedding);
         }
-      } else {
-        if (currentConsolidated.length > 0) {
-          consolidatedChunks.push({
-            content: currentConsolidated,
-            position: currentPosition,
-          });
-          lastConsolidatedContent = currentConsolidated;
-
-          // Start new consolidated chunk with overlap
-          const overlapText = this.getOverlapText(
-            lastConsolidatedContent,
-            chunkOverlap,
-          );
-          currentConsolidated = overlapText + "\n\n" + chunk.content;
-          currentPosition = chunk.position - chunkOverlap;
+      }
+      const note: PendingNote = {
+        file,
+        hash,
+        chunks,
+        embeddings: [],
+        remaining: 0,
+        done: false,
+      };
+      chunks.forEach((chunk, index) => {
+        const embedding = known.get(chunk.hash);
+        if (embedding) {
+          note.embeddings[index] = embedding;
         } else {
-          currentConsolidated = chunk.content;
-          currentPosition = chunk.position;
+          note.remaining++;
         }
+      });
+      logDebug(
+        this.settings,
+        `Reusing ${chunks.length - note.remaining} of ${chunks.length} chunk embeddings for ${file.path}`,
+      );
+
+      if (note.remaining === 0) {
+        note.done = true;
+        this.storeNote(note);
+        onNoteIndexed(file);
+      } else {
+        pending.push(note);
       }
     }
 
-    if (currentConsolidated.length > 0) {
-      consolidatedChunks.push({
-        content: currentConsolidated,
-        position: currentPosition,
+    const queue: { note: PendingNote; index: number }[] = [];
+    for (const note of pending) {
+      note.chunks.forEach((_chunk, index) => {
+        if (!note.embeddings[index]) queue.push({ note, index });
       });
     }
 
-    return consolidatedChunks;
+    let next = 0;
+    while (next < queue.length) {
+      // Fill the next request up to the input and token limits
+      const batch: typeof queue = [];
+      let tokens = 0;
+      for (; next < queue.length; next++) {
+        const { note, index } = queue[next];
+        if (note.done) continue;
+        const size = estimateTokens(note.chunks[index].content);
+        if (
+          batch.length === MAX_BATCH_INPUTS ||
+          (batch.length > 0 && tokens + size > MAX_BATCH_TOKENS)
+        ) {
+          break;
+        }
+        batch.push(queue[next]);
+        tokens += size;
+      }
+      if (batch.length === 0) break;
+
+      let embeddings: Float32Array[];
+      try {
+        embeddings = await this.generateEmbeddings(
+          batch.map(({ note, index }) => note.chunks[index].content),
+        );
+      } catch (error) {
+        for (const { note } of batch) {
+          if (note.done) continue;
+          note.done = true;
+          logError(`Error adding note ${note.file.path}`, error);
+          onNoteIndexed(note.file, error);
+        }
+        continue;
+      }
+      logDebug(
+        this.settings,
+        `Generated ${embeddings.length} embeddings in one batch`,
+      );
+
+      batch.forEach(({ note, index }, i) => {
+        note.embeddings[index] = embeddings[i];
+        note.remaining--;
+      });
+      for (const { note } of batch) {
+        if (note.done || note.remaining > 0) continue;
+        note.done = true;
+        this.storeNote(note);
+        onNoteIndexed(note.file);
+      }
+    }
   }
 
-  // Helper method to get overlap text
-  private getOverlapText(text: string, overlapLength: number): string {
-    if (text.length <= overlapLength) return text;
+  private storeNote({ file, hash, chunks, embeddings }: PendingNote) {
+    // Deleted, renamed or excluded while its chunks were being embedded
+    if (this.queue.isRemoved(file.path)) {
+      logDebug(this.settings, `${file.path} was removed while indexing it`);
+      return;
+    }
 
-    // Try to break at sentence boundaries first
-    const sentences = text.split(/(?<=[.!?])\s+/);
-    let overlap = "";
+    const noteEmbedding: NoteEmbedding = {
+      path: file.path,
+      hash,
+      metadata: extractNoteMetadata(this.app.metadataCache.getFileCache(file)),
+      chunks: chunks.map((chunk, i) => ({
+        content: chunk.content,
+        embedding: embeddings[i],
+        position: chunk.position,
+        hash: chunk.hash,
+        location: chunk.location,
+      })),
+    };
 
-    // Build up overlap text from complete sentences
-    for (let i = sentences.length - 1; i >= 0; i--) {
-      const potentialOverlap = sentences[i] + (overlap ? " " + overlap : "");
-      if (potentialOverlap.length > overlapLength) break;
-      overlap = potentialOverlap;
+    // The first note of an empty index decides its model
+    if (this.embeddings.size === 0) {
+      this.indexModel = this.currentModel();
     }
 
-    // If we couldn't get enough text from sentence boundaries,
-    // fall back to paragraph boundaries
-    if (overlap.length < overlapLength * 0.5) {
-      const paragraphs = text.split(/\n\s*\n/);
-      overlap = "";
+    // Store in both EmbeddingStore and VectorStore
+    this.embeddings.set(file.path, noteEmbedding);
+    this.vectorStore.addEmbedding(file.path, noteEmbedding);
+    logDebug(this.settings, `Successfully added embeddings for ${file.path}`);
+  }
 
-      for (let i = paragraphs.length - 1; i >= 0; i--) {
-        const potentialOverlap =
-          paragraphs[i] + (overlap ? "\n\n" + overlap : "");
-        if (potentialOverlap.length > overlapLength) break;
-        overlap = potentialOverlap;
+  // Embed a search query, written the way the model expects queries
+  async generateEmbedding(text: string): Promise<Float32Array> {
+    try {
+      if (!this.embeddingModel) {
+        throw new Error("Embedding model not initialized");
+      }
+
+      const embedding = await this.embeddingModel.embed(
+        this.embeddingInput(typeof text === "string" ? text : "", "query"),
+      );
+      if (!embedding || !(embedding instanceof Float32Array)) {
+        throw new Error("Invalid embedding generated from provider");
       }
+      return embedding;
+    } catch (error) {
+      logError("Error generating embedding", error);
+      throw error;
     }
+  }
+
+  // Embed note chunks, written the way the model expects documents
+  async generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
+    try {
+      if (!this.embeddingModel) {
+        throw new Error("Embedding model not initialized");
+      }
 
-    // If we still don't have enough overlap, just take the last N characters
-    if (overlap.length < overlapLength * 0.5) {
-      overlap = text.slice(-overlapLength);
+      const embeddings = await this.embeddingModel.embedBatch(
+        texts.map((text) => this.embeddingInput(text, "document")),
+      );
+      if (
+        embeddings.length !== texts.length ||
+        embeddings.some((embedding) => !(embedding instanceof Float32Array))
+      ) {
+        throw new Error("Invalid embedding generated from provider");
+      }
+      return embeddings;
+    } catch (error) {
+      logError("Error generating embeddings", error);
+      throw error;
     }
+  }
+
+  // Queries and chunks are written the way the index was built
+  private embeddingInput(text: string, kind: EmbeddingInputKind): string {
+    return prepareEmbeddingInput(text, kind, this.activeInput(), this.settings);
+  }
 
-    return overlap;
+  private chunkContent(content: string): MarkdownChunk[] {
+    const { chunkSize, chunkOverlap } = this.settings.embeddingSettings;
+    return chunkMarkdown(content, { chunkSize, chunkOverlap }).chunks;
+  }
+
+  /**
+   * Store the current tags, aliases, links and properties of an indexed
+   * note, which can change without its text being indexed again. Returns
+   * whether they changed.
+   */
+  updateMetadata(file: TFile, cache?: CachedMetadata | null): boolean {
+    this.rebuilding?.updateMetadata(file, cache);
+    const embedding = this.embeddings.get(file.path);
+    if (!embedding) return false;
+
+    const metadata = extractNoteMetadata(
+      cache === undefined ? this.app.metadataCache.getFileCache(file) : cache,
+    );
+    if (sameMetadata(embedding.metadata, metadata)) return false;
+    // The vector store shares the embedding object
+    embedding.metadata = metadata;
+    return true;
   }
 
   removeNote(path: string) {
+    this.rebuilding?.removeNote(path);
+    this.queue.remove(path);
     this.embeddings.delete(path);
     // Also remove from the vector store
     this.vectorStore.removeEmbedding(path);
     logDebug(this.settings, `Removed embeddings for ${path}`);
   }
 
+  // Identifies the content of a note together with the chunker and chunk
+  // settings it was split with, as others produce other chunks, and the way
+  // its chunks are written for the model
+  private noteHash(content: string): string {
+    const { chunkSize, chunkOverlap } = this.settings.embeddingSettings;
+    const inputKey = this.documentInputKey();
+    return hashContent(
+      `${CHUNKER_VERSION}:${chunkSize}:${chunkOverlap}:${inputKey ? `${inputKey}:` : ""}${content}`,
+    );
+  }
+
+  // A chunk written another way for the model needs a new vector
+  private chunkHash(content: string): string {
+    const inputKey = this.documentInputKey();
+    return hashContent(inputKey ? `${inputKey}:${content}` : content);
+  }
+
+  private documentInputKey(): string {
+    return documentInputKey(this.activeInput());
+  }
+
+  // Whether the index rules, or a disabled extractor for its type, keep the
+  // file out of the index
+  isExcluded(file: TFile): boolean {
+    const settings = this.settings.embeddingSettings;
+    return (
+      !isIndexableType(file, settings) ||
+      isFileExcluded(this.app, file, settings)
+    );
+  }
+
+  // Whether the note is indexed with exactly this content
+  isIndexed(path: string, content: string): boolean {
+    const embedding = this.embeddings.get(path);
+    return !!embedding && embedding.hash === this.noteHash(content);
+  }
+
   // Helper method to validate note content before processing
   public isValidContent(path: string, content: string): boolean {
     if (!content || content.trim().length < 50) {
@@ -475,44 +843,128 @@ export class EmbeddingStore {
     return true;
   }
 
-  async saveToFile() {
-    try {
-      const data: PersistedEmbeddingStore = {
-        version: 1,
-        lastUpdated: Date.now(),
-        embeddings: Object.fromEntries(
-          Array.from(this.embeddings.entries()).map(([path, embedding]) => [
-            path,
-            {
-              ...embedding,
-              chunks: embedding.chunks.map((chunk) => ({
-                ...chunk,
-                embedding: Array.from(chunk.embedding),
-              })),
-              lastModified:
-                (this.app.vault.getAbstractFileByPath(path) as TFile)?.stat
-                  ?.mtime || Date.now(),
-            },
-          ]),
-        ),
+  // Whether the saved index comes from a newer plugin version, which is
+  // only replaced by a rebuild
+  isReadOnly(): boolean {
+    return this.refusedVersion !== null;
+  }
+
+  async saveToFile(): Promise<void> {
+    if (this.isReadOnly()) {
+      logDebug(
+        this.settings,
+        `Not saving over the version ${this.refusedVersion} embedding index`,
+      );
+      return;
+    }
+
+    // Saves requested while one is running, e.g. by several notes being
+    // reindexed at once, are folded into a single one after it
+    if (this.saving) {
+      if (!this.nextSave) {
+        this.nextSave = this.saving.then(() => {
+          this.nextSave = null;
+          return this.saveToFile();
+        });
+      }
+      return this.nextSave;
+    }
+
+    this.saving = this.writeIndex()
+      .then(() =>
+        logDebug(this.settings, "Successfully saved embeddings to file"),
+      )
+      .catch((error) => logError("Error saving embeddings to file", error))
+      .then(() => {
+        this.saving = null;
+      });
+    return this.saving;
+  }
+
+  private async writeIndex() {
+    const { manifest, vectors } = encodeIndex(
+      Array.from(this.embeddings.values()).map((embedding) => ({
+        embedding,
+        lastModified:
+          (this.app.vault.getAbstractFileByPath(embedding.path) as TFile)?.stat
+            ?.mtime || Date.now(),
+      })),
+      this.activeModel(),
+    );
+    // The manifest goes last; one left from an earlier save doesn't match
+    // the size of the new vectors file and is rejected on load
+    await this.app.vault.adapter.writeBinary(INDEX_VECTORS_FILE, vectors);
+    await this.app.vault.adapter.write(
+      INDEX_MANIFEST_FILE,
+      JSON.stringify(manifest),
+    );
+  }
+
+  // The saved notes in the current format, or null when there is no index yet
+  private async readIndex(): Promise<{
+    notes: StoredNote[];
+    model: IndexModel;
+    // Version the index was saved in, when older than the current one
+    upgradedFrom?: number;
+    legacy: boolean;
+  } | null> {
+    const adapter = this.app.vault.adapter;
+    let stored: StoredIndex;
+    let legacy = false;
+    if (await adapter.exists(INDEX_MANIFEST_FILE)) {
+      const manifest = JSON.parse(await adapter.read(INDEX_MANIFEST_FILE));
+      checkIndexVersion(manifest?.version);
+      stored = {
+        manifest,
+        vectors: await adapter.readBinary(INDEX_VECTORS_FILE),
       };
-      await this.app.vault.adapter.write(
-        ".obsidian/plugins/obsidian-ai-helper/embeddings.json",
-        JSON.stringify(data),
+    } else if (await adapter.exists(LEGACY_INDEX_FILE)) {
+      stored = {
+        manifest: JSON.parse(await adapter.read(LEGACY_INDEX_FILE)),
+        vectors: null,
+      };
+      legacy = true;
+    } else {
+      return null;
+    }
+
+    const version = stored.manifest?.version;
+    const { manifest, vectors } = migrateIndex(stored, {
+      model: this.currentModel(),
+    });
+    return {
+      notes: decodeIndex(manifest, vectors),
+      model: {
+        provider: manifest.provider,
+        model: manifest.model,
+        input: manifest.input,
+      },
+      upgradedFrom: version === INDEX_VERSION ? undefined : version,
+      legacy,
+    };
+  }
+
+  // Save an index read in an older format in the current one, once
+  private async saveUpgradedIndex(from: number, legacy: boolean) {
+    try {
+      await this.writeIndex();
+      if (legacy) {
+        await this.app.vault.adapter.remove(LEGACY_INDEX_FILE);
+      }
+      logDebug(
+        this.settings,
+        `Upgraded the embedding index from version ${from} to ${INDEX_VERSION}`,
       );
-      logDebug(this.settings, "Successfully saved embeddings to file");
     } catch (error) {
-      logError("Error saving embeddings to file", error);
+      // The old files stay, so the next start tries again
+      logError("Error saving the upgraded embedding index", error);
     }
   }
 
   async loadFromFile() {
     try {
-      const filePath = ".obsidian/plugins/obsidian-ai-helper/embeddings.json";
-
-      // Check if file exists first
-      const exists = await this.app.vault.adapter.exists(filePath);
-      if (!exists) {
+      const index = await this.readIndex();
+      if (!index) {
         logDebug(
           this.settings,
           "No existing embeddings file found. Starting with empty index."
@@ -520,42 +972,66 @@ export class EmbeddingStore {
         return;
       }
 
-      const data = JSON.parse(
-        await this.app.vault.adapter.read(filePath)
-      ) as PersistedEmbeddingStore;
-
       // Clear existing embeddings
       this.embeddings.clear();
       this.vectorStore.clear();
 
+      // The vectors decide the size, whatever the settings say
+      this.indexModel = index.model;
+      const first = index.notes.find(
+        (note) => note.embedding.chunks.length > 0,
+      );
+      if (first) {
+        this.dimensions = first.embedding.chunks[0].embedding.length;
+        this.vectorStore.setDimensions(this.dimensions);
+      }
+
       // Load embeddings
-      for (const [path, embedding] of Object.entries(data.embeddings)) {
-        const file = this.app.vault.getAbstractFileByPath(path);
+      const staleFiles: TFile[] = [];
+      for (const { embedding, lastModified } of index.notes) {
+        const file = this.app.vault.getAbstractFileByPath(embedding.path);
         if (file instanceof TFile) {
           // Check if file has been modified since last save and if we should update it
-          const shouldReindex = file.stat.mtime > embedding.lastModified &&
+          const shouldReindex = file.stat.mtime > lastModified &&
                                 this.settings.embeddingSettings.updateMode !== 'none';
 
-          if (shouldReindex) {
+          // Modified notes are loaded too, so that reindexing them keeps
+          // the vectors of unchanged chunks
+          this.embeddings.set(embedding.path, embedding);
+          this.vectorStore.addEmbedding(embedding.path, embedding);
+          // Excluded notes are left to the scan for changes, which removes
+          // them from the saved index as well
+          if (shouldReindex && !this.isExcluded(file)) {
             // Only reindex if update mode is not 'none'
-            const content = await this.app.vault.cachedRead(file);
-            await this.addNote(file, content);
-          } else {
-            // File unchanged or we're not updating, load from cache
-            const noteEmbedding: NoteEmbedding = {
-              path: embedding.path,
-              chunks: embedding.chunks.map((chunk) => ({
-                ...chunk,
-                embedding: new Float32Array(chunk.embedding),
-              })),
-            };
-            this.embeddings.set(path, noteEmbedding);
-            this.vectorStore.addEmbedding(path, noteEmbedding);
+            staleFiles.push(file);
           }
         }
       }
+      if (index.upgradedFrom !== undefined) {
+        await this.saveUpgradedIndex(index.upgradedFrom, index.legacy);
+      }
+      this.reportMismatch();
+      // Notes that can't be updated now keep their old vectors, whose hash
+      // no longer matches, so the next scan for changes tries them again
+      const failures = await this.indexFiles(staleFiles);
+      if (failures.length > 0) {
+        logError(
+          `Could not update ${failures.length} changed notes, they are updated on the next sync: ${failures.map(({ file }) => file.path).join(", ")}`,
+          failures[0].error,
+        );
+      }
       logDebug(this.settings, "Successfully loaded embeddings from file");
     } catch (error) {
+      if (error instanceof FutureIndexVersionError) {
+        // Neither indexed over nor saved over, until a rebuild replaces it
+        this.refusedVersion = error.version;
+        logError("Error loading embeddings from file", error);
+        new Notice(
+          `${error.message}. Update the plugin to use it, or run "Rebuild AI index with the selected embedding model" to replace it.`,
+          0,
+        );
+        return;
+      }
       // Only log as debug since this is expected on first run
       if (error.code === "ENOENT") {
         logDebug(
@@ -575,7 +1051,10 @@ export class EmbeddingStore {
   }
 
   private async reindexAll() {
-    const files = this.app.vault.getMarkdownFiles();
+    const files = getIndexableFiles(
+      this.app,
+      this.settings.embeddingSettings,
+    ).filter((file) => !this.isExcluded(file));
     logDebug(this.settings, `Reindexing all ${files.length} files`);
 
     // Show progress notice for reindexing
@@ -583,33 +1062,45 @@ export class EmbeddingStore {
     const progressElement = progressNotice.noticeEl.createDiv();
     progressElement.setText("Initializing index...");
 
+    let processedCount = 0;
+    let failedCount = 0;
+    this.setRetryListener((event) => {
+      progressElement.setText(
+        `Indexing files: ${processedCount}/${files.length} (${formatRetryStatus(event)})`,
+      );
+    });
+    const usageRun = globalUsageTracker?.startRun();
+
     try {
-      let processedCount = 0;
-      for (const file of files) {
-        try {
-          const content = await this.app.vault.cachedRead(file);
-          if (this.isValidContent(file.path, content)) {
-            await this.addNote(file, content);
-          }
-          processedCount++;
-          progressElement.setText(
-            `Indexing files: ${processedCount}/${files.length} (${file.path})`,
-          );
-        } catch (error) {
-          logError(`Error reindexing file ${file.path}`, error);
+      await this.indexFiles(files, (file, error) => {
+        if (error) {
+          failedCount++;
+          return;
         }
-      }
+        processedCount++;
+        progressElement.setText(
+          `Indexing files: ${processedCount}/${files.length} (${file.path})`,
+        );
+      });
 
       // Save the embeddings after reindexing
       await this.saveToFile();
 
       // Show completion notice
-      new Notice(`Indexing complete: ${processedCount} files processed`, 3000);
+      const usage = formatRun(usageRun);
+      new Notice(
+        failedCount > 0
+          ? `Indexing complete: ${processedCount} files processed, ${failedCount} failed${usage}`
+          : `Indexing complete: ${processedCount} files processed${usage}`,
+        failedCount > 0 ? 10000 : 3000,
+      );
     } catch (error) {
       new Notice("Error during reindexing: " + error, 10000);
       logError("Error during reindexing", error);
       throw error;
     } finally {
+      this.setRetryListener(undefined);
+      if (usageRun) globalUsageTracker?.finishRun(usageRun);
       progressNotice.hide();
     }
   }
@@ -641,7 +1132,7 @@ export async function initializeEmbeddingSystem(
   // Create global instances if they don't exist yet
   if (!globalVectorStore) {
     globalVectorStore = new VectorStore(
-      settings.embeddingSettings.dimensions,
+      DEFAULT_DIMENSIONS,
       settings,
       app,
     );
@@ -662,9 +1153,13 @@ export async function initializeEmbeddingSystem(
       // Load cached embeddings first
       await globalEmbeddingStore.loadFromFile();
 
-      // Only scan for changes if in onLoad or onUpdate mode
+      // Only scan for changes if in onLoad or onUpdate mode, and not into
+      // an index that can't be saved
       if (
-        ["onLoad", "onUpdate"].includes(settings.embeddingSettings.updateMode)
+        ["onLoad", "onUpdate"].includes(
+          settings.embeddingSettings.updateMode,
+        ) &&
+        !globalEmbeddingStore.isReadOnly()
       ) {
         // Scan for changes and update as needed
         await scanForChanges(app, settings, true);
@@ -709,37 +1204,66 @@ async function scanForChanges(
 
   if (!globalEmbeddingStore) return;
 
-  const files = app.vault.getMarkdownFiles();
+  const files = getIndexableFiles(app, settings.embeddingSettings);
   const changedFiles = [];
   const deletedPaths = new Set<string>();
+  const excludedPaths = new Set<string>();
+  let metadataChanged = false;
 
-  // First, identify deleted files by comparing cached paths with existing files
+  // First, identify deleted files by comparing cached paths with existing
+  // files. Files still in the vault are of a type no longer indexed.
   const existingPaths = new Set(files.map((f) => f.path));
   for (const cachedPath of globalEmbeddingStore.getEmbeddedPaths()) {
-    if (!existingPaths.has(cachedPath)) {
+    if (existingPaths.has(cachedPath)) continue;
+    if (app.vault.getAbstractFileByPath(cachedPath) instanceof TFile) {
+      excludedPaths.add(cachedPath);
+    } else {
       deletedPaths.add(cachedPath);
     }
   }
 
-  // Then identify modified files
+  // Then identify modified files, and indexed notes the rules now exclude
   for (const file of files) {
-    const content = await app.vault.cachedRead(file);
+    if (globalEmbeddingStore.isExcluded(file)) {
+      if (globalEmbeddingStore.getEmbedding(file.path)) {
+        excludedPaths.add(file.path);
+      }
+      continue;
+    }
+    // A file that can't be read or extracted is left for the next scan,
+    // the rest of the vault is still indexed
+    let content: string;
+    try {
+      content = await readFileContent(app, file);
+    } catch (error) {
+      logError(`Error reading ${file.path}`, error);
+      continue;
+    }
     // Skip files that are too small
     if (!globalEmbeddingStore.isValidContent(file.path, content)) {
       continue;
     }
-    const cached = globalEmbeddingStore.getEmbedding(file.path);
-    if (!cached || file.stat.mtime > (cached as any).lastModified) {
+    if (!globalEmbeddingStore.isIndexed(file.path, content)) {
       changedFiles.push(file);
+    } else if (globalEmbeddingStore.updateMetadata(file)) {
+      metadataChanged = true;
     }
   }
 
-  let totalChanges = changedFiles.length + deletedPaths.size;
+  let totalChanges =
+    changedFiles.length + deletedPaths.size + excludedPaths.size;
   if (totalChanges > 0) {
     // Show progress for handling all changes
     const progressNotice = new Notice("", 0);
     const progressElement = progressNotice.noticeEl.createDiv();
     let processedCount = 0;
+    const failedPaths: string[] = [];
+    globalEmbeddingStore.setRetryListener((event) => {
+      progressElement.setText(
+        `Updating index: ${processedCount + 1}/${totalChanges} (${formatRetryStatus(event)})`,
+      );
+    });
+    const usageRun = globalUsageTracker?.startRun();
 
     try {
       // Remove deleted files from both memory and persisted store
@@ -750,36 +1274,67 @@ async function scanForChanges(
           `Updating index: ${processedCount}/${totalChanges} (Removing deleted files)`,
         );
       }
-
-      // Update modified files
-      for (const file of changedFiles) {
+      for (const excludedPath of excludedPaths) {
+        globalEmbeddingStore.removeNote(excludedPath);
+        processedCount++;
         progressElement.setText(
-          `Updating index: ${processedCount + 1}/${totalChanges} (Processing ${file.path})`,
+          `Updating index: ${processedCount}/${totalChanges} (Removing excluded files)`,
         );
-        const content = await app.vault.cachedRead(file);
-        await globalEmbeddingStore.addNote(file, content);
-        processedCount++;
       }
 
+      // Update modified files, one failing note doesn't block the others
+      progressElement.setText(
+        `Updating index: ${processedCount}/${totalChanges} (Processing modified files)`,
+      );
+      await globalEmbeddingStore.indexFiles(changedFiles, (file, error) => {
+        if (error) failedPaths.push(file.path);
+        processedCount++;
+        progressElement.setText(
+          `Updating index: ${processedCount}/${totalChanges} (Processed ${file.path})`,
+        );
+      });
+
       // Save updated embeddings after all changes are processed
       await globalEmbeddingStore.saveToFile();
 
       // Show summary of changes
       const deletedCount = deletedPaths.size;
-      const modifiedCount = changedFiles.length;
+      const modifiedCount = changedFiles.length - failedPaths.length;
       let summaryMessage = [];
       if (modifiedCount > 0)
         summaryMessage.push(`updated ${modifiedCount} files`);
       if (deletedCount > 0)
         summaryMessage.push(`removed ${deletedCount} deleted files`);
-
-      new Notice(`Index update complete: ${summaryMessage.join(", ")}`, 3000);
+      if (excludedPaths.size > 0)
+        summaryMessage.push(`removed ${excludedPaths.size} excluded files`);
+      if (failedPaths.length > 0)
+        summaryMessage.push(`failed to update ${failedPaths.length} files`);
+
+      new Notice(
+        `Index update complete: ${summaryMessage.join(", ")}${formatRun(usageRun)}`,
+        failedPaths.length > 0 ? 10000 : 3000,
+      );
     } catch (error) {
       new Notice("Error during index update: " + error, 10000);
       logError("Error during index update", error);
       throw error;
     } finally {
+      globalEmbeddingStore?.setRetryListener(undefined);
+      if (usageRun) globalUsageTracker?.finishRun(usageRun);
       progressNotice.hide();
     }
+  } else if (metadataChanged) {
+    await globalEmbeddingStore.saveToFile();
   }
 }
+
+function describeModel({ provider, model }: IndexModel): string {
+  return `${model || "the default model"} (${provider})`;
+}
+
+// Servers without array support answer a batch with a client error, or with
+// fewer vectors than inputs
+function rejectsInputArray(error: any): boolean {
+  if (!(error instanceof ProviderError) || isFailoverError(error)) return false;
+  return error.status === undefined || [400, 413, 422].includes(error.status);
+}
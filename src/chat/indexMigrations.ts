@@ -0,0 +1,211 @@
+import { hashContent } from "./contentHash";
+import { INDEX_VERSION, IndexManifest, IndexModel } from "./indexStorage";
+
+/**
+ * Upgrades of the saved embedding index. Each step takes an index of one
+ * version to the next, so a file of any older version is brought up to date
+ * one step at a time without embedding notes again. Steps describe the
+ * formats as they were and are never changed once released.
+ */
+
+// An index as read from disk, of whatever version it was saved in
+export interface StoredIndex {
+  manifest: { version: number };
+  // The binary vectors file, absent for version 1
+  vectors: ArrayBuffer | null;
+}
+
+// Values older indexes didn't record, taken from the current settings
+export interface MigrationContext {
+  model: IndexModel;
+}
+
+// Version 1: a single JSON file with every vector as a number array
+export interface IndexV1 {
+  version: 1;
+  lastUpdated: number;
+  embeddings: {
+    [path: string]: {
+      path: string;
+      chunks: {
+        content: string;
+        embedding: number[];
+        position: number;
+      }[];
+      lastModified: number;
+    };
+  };
+}
+
+// Version 2: the manifest and vectors file, the model and hashes optional
+export interface IndexManifestV2 {
+  version: 2;
+  lastUpdated: number;
+  provider?: string;
+  model?: string;
+  dimensions: number;
+  vectorCount: number;
+  embeddings: {
+    [path: string]: {
+      path: string;
+      chunks: {
+        content: string;
+        position: number;
+        vector: number;
+        hash?: string;
+      }[];
+      lastModified: number;
+      hash?: string;
+    };
+  };
+}
+
+// Version 3: the model and chunk hashes recorded
+export interface IndexManifestV3 {
+  version: 3;
+  lastUpdated: number;
+  provider: string;
+  model: string;
+  dimensions: number;
+  vectorCount: number;
+  embeddings: {
+    [path: string]: {
+      path: string;
+      chunks: {
+        content: string;
+        position: number;
+        vector: number;
+        hash: string;
+      }[];
+      lastModified: number;
+      hash?: string;
+    };
+  };
+}
+
+// Raised for an index saved by a newer version of the plugin
+export class FutureIndexVersionError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(
+      `The embedding index was saved by a newer version of the plugin (format ${version}, this version reads up to ${INDEX_VERSION})`,
+    );
+    this.name = "FutureIndexVersionError";
+    this.version = version;
+  }
+}
+
+type Migration = (index: StoredIndex, context: MigrationContext) => StoredIndex;
+
+const MIGRATIONS: { [version: number]: Migration } = {
+  // The vectors move from the JSON file into the binary file
+  1: (index) => {
+    const legacy = index.manifest as IndexV1;
+    const notes = Object.values(legacy.embeddings);
+    const first = notes.find((note) => note.chunks.length > 0);
+    const dimensions = first ? first.chunks[0].embedding.length : 0;
+    const vectorCount = notes.reduce(
+      (count, note) => count + note.chunks.length,
+      0,
+    );
+    const vectors = new Float32Array(vectorCount * dimensions);
+
+    const manifest: IndexManifestV2 = {
+      version: 2,
+      lastUpdated: legacy.lastUpdated,
+      dimensions,
+      vectorCount,
+      embeddings: {},
+    };
+    let vector = 0;
+    for (const note of notes) {
+      manifest.embeddings[note.path] = {
+        path: note.path,
+        chunks: note.chunks.map((chunk) => {
+          if (chunk.embedding.length !== dimensions) {
+            throw new Error(
+              `Chunk of ${note.path} has ${chunk.embedding.length} dimensions, the index uses ${dimensions}`,
+            );
+          }
+          vectors.set(chunk.embedding, vector * dimensions);
+          return {
+            content: chunk.content,
+            position: chunk.position,
+            vector: vector++,
+          };
+        }),
+        lastModified: note.lastModified,
+      };
+    }
+    return { manifest, vectors: vectors.buffer };
+  },
+
+  // The model is recorded, indexes without one were made with the selected
+  // model, and every chunk gets the hash of its text
+  2: (index, { model }) => {
+    const previous = index.manifest as IndexManifestV2;
+    const manifest: IndexManifestV3 = {
+      ...previous,
+      version: 3,
+      provider: previous.provider || model.provider,
+      model: previous.provider ? previous.model || "" : model.model,
+      embeddings: {},
+    };
+    for (const note of Object.values(previous.embeddings)) {
+      manifest.embeddings[note.path] = {
+        ...note,
+        chunks: note.chunks.map((chunk) => ({
+          ...chunk,
+          hash: chunk.hash || hashContent(chunk.content),
+        })),
+      };
+    }
+    return { manifest, vectors: index.vectors };
+  },
+
+  // Chunks record their headings and lines. Notes indexed without them
+  // lose their hash, so the next scan splits them again; chunks whose text
+  // didn't change keep their vectors
+  3: (index) => {
+    const previous = index.manifest as IndexManifestV3;
+    const manifest: IndexManifest = {
+      ...previous,
+      version: 4,
+      embeddings: {},
+    };
+    for (const note of Object.values(previous.embeddings)) {
+      manifest.embeddings[note.path] = { ...note, hash: undefined };
+    }
+    return { manifest, vectors: index.vectors };
+  },
+};
+
+// Refuse versions this plugin doesn't know before reading any further
+export function checkIndexVersion(version: number) {
+  if (typeof version === "number" && version > INDEX_VERSION) {
+    throw new FutureIndexVersionError(version);
+  }
+  if (version !== INDEX_VERSION && !MIGRATIONS[version]) {
+    throw new Error(`Unsupported embedding index version: ${version}`);
+  }
+}
+
+// Bring an index of any known version up to the current one
+export function migrateIndex(
+  index: StoredIndex,
+  context: MigrationContext,
+): { manifest: IndexManifest; vectors: ArrayBuffer } {
+  let current = index;
+  checkIndexVersion(current.manifest.version);
+  while (current.manifest.version !== INDEX_VERSION) {
+    current = MIGRATIONS[current.manifest.version](current, context);
+  }
+  if (!current.vectors) {
+    throw new Error("The embedding index has no vectors file");
+  }
+  return {
+    manifest: current.manifest as IndexManifest,
+    vectors: current.vectors,
+  };
+}
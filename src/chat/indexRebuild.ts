@@ -0,0 +1,122 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { Settings } from "../settings";
+import { logError } from "../utils";
+import {
+  formatCost,
+  formatRun,
+  formatTokens,
+  globalUsageTracker,
+} from "../usageTracker";
+import { formatRetryStatus, globalEmbeddingStore } from "./embeddingStore";
+import { getIndexableFiles } from "../extractors";
+
+/**
+ * Asks before rebuilding the index with the selected embedding model,
+ * showing why the current index doesn't fit and roughly what a rebuild costs
+ */
+export class IndexRebuildModal extends Modal {
+  settings: Settings;
+
+  constructor(app: App, settings: Settings) {
+    super(app);
+    this.settings = settings;
+  }
+
+  onOpen() {
+    this.titleEl.setText("Rebuild AI index");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const store = globalEmbeddingStore;
+    if (!store) {
+      contentEl.createEl("p", { text: "The index is not loaded yet." });
+      return;
+    }
+
+    const reason = store.getModelMismatch();
+    contentEl.createEl("p", {
+      text: reason
+        ? `${reason}. Their embeddings can't be compared, so the index has to be built again to use the selected settings.`
+        : "The index already uses the selected embedding model. Rebuilding embeds every note again.",
+    });
+
+    const { notes, tokens, cost } = store.estimateRebuild();
+    contentEl.createEl("p", {
+      text: `Embedding ${notes} notes takes about ${formatTokens(tokens)} tokens${cost > 0 ? `, roughly ${formatCost(cost)}` : ""}. Searches keep using the current index until the new one is complete.`,
+    });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Later").onClick(() => this.close()),
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Rebuild")
+          .setCta()
+          .onClick(() => {
+            this.close();
+            rebuildIndex(this.app, this.settings);
+          }),
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// Rebuild the index of all notes, showing the progress in a notice
+export async function rebuildIndex(app: App, settings: Settings) {
+  const store = globalEmbeddingStore;
+  if (!store) return;
+  // The new index leaves out the notes the index rules exclude
+  const files = getIndexableFiles(app, settings.embeddingSettings).filter(
+    (file) => !store.isExcluded(file),
+  );
+
+  const progressNotice = new Notice("", 0);
+  const progressElement = progressNotice.noticeEl.createDiv();
+  const progressBar = progressNotice.noticeEl.createEl("progress", {
+    cls: "ai-helper-progress-bar",
+    attr: { max: files.length, value: 0 },
+  });
+  progressElement.setText("Rebuilding index...");
+
+  let processedCount = 0;
+  let failedCount = 0;
+  store.setRetryListener((event) => {
+    progressElement.setText(
+      `Rebuilding index: ${processedCount}/${files.length} (${formatRetryStatus(event)})`,
+    );
+  });
+  const usageRun = globalUsageTracker?.startRun();
+
+  try {
+    await store.rebuild(files, (file, error) => {
+      processedCount++;
+      if (error) failedCount++;
+      progressBar.value = processedCount;
+      progressElement.setText(
+        `Rebuilding index: ${processedCount}/${files.length} (${file.path})`,
+      );
+    });
+
+    const usage = formatRun(usageRun);
+    new Notice(
+      failedCount > 0
+        ? `Index rebuilt: ${processedCount - failedCount} files processed, ${failedCount} failed${usage}`
+        : `Index rebuilt: ${processedCount} files processed${usage}`,
+      failedCount > 0 ? 10000 : 3000,
+    );
+  } catch (error) {
+    new Notice(
+      `Error rebuilding the index, the previous index stays in use: ${error}`,
+      10000,
+    );
+    logError("Error rebuilding the index", error);
+  } finally {
+    store.setRetryListener(undefined);
+    if (usageRun) globalUsageTracker?.finishRun(usageRun);
+    progressNotice.hide();
+  }
+}
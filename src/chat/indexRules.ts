@@ -0,0 +1,103 @@
+import { App, TFile } from "obsidian";
+import { NoteMetadata, extractNoteMetadata, matchesTag } from "./noteMetadata";
+
+// Frontmatter property that keeps a single note out of the index when false
+export const INDEX_PROPERTY = "ai-index";
+
+/**
+ * Which notes may be indexed and used as context. A note is indexed when it
+ * is inside one of the included paths, or there are none, and nothing
+ * excludes it.
+ */
+export interface IndexRules {
+  includePaths?: string[];
+  excludePaths?: string[];
+  excludeTags?: string[];
+}
+
+/**
+ * Why a note is kept out of the index, or null when it may be indexed.
+ * Without metadata only the paths are checked.
+ */
+export function getExclusionReason(
+  path: string,
+  metadata: NoteMetadata | undefined,
+  rules: IndexRules,
+): string | null {
+  const includePaths = rules.includePaths || [];
+  if (
+    includePaths.length > 0 &&
+    !includePaths.some((glob) => matchesPathGlob(path, glob))
+  ) {
+    return "outside the included paths";
+  }
+
+  const excludedPath = (rules.excludePaths || []).find((glob) =>
+    matchesPathGlob(path, glob),
+  );
+  if (excludedPath) return `matches ${excludedPath}`;
+  if (!metadata) return null;
+
+  const excludedTag = (rules.excludeTags || []).find((tag) =>
+    matchesTag(metadata.tags, tag),
+  );
+  if (excludedTag) return `tagged ${excludedTag}`;
+
+  const flag = metadata.properties[INDEX_PROPERTY];
+  if (flag === false || String(flag).toLowerCase() === "false") {
+    return `${INDEX_PROPERTY}: false`;
+  }
+  return null;
+}
+
+// Whether the rules keep a file out of the index, as Obsidian currently
+// knows its tags and properties
+export function isFileExcluded(
+  app: App,
+  file: TFile,
+  rules: IndexRules,
+): boolean {
+  const metadata = extractNoteMetadata(app.metadataCache.getFileCache(file));
+  return getExclusionReason(file.path, metadata, rules) !== null;
+}
+
+// Whether the path lies inside the folder, the root holding every path
+export function isInFolder(path: string, folder: string): boolean {
+  const prefix = folder.replace(/^\/+|\/+$/g, "");
+  return prefix === "" || path.startsWith(`${prefix}/`);
+}
+
+/**
+ * Match a vault path against a glob, where "*" and "?" don't cross folders
+ * and "**" does. A glob also matches everything inside the folder it names,
+ * so "Templates" matches "Templates/Daily.md".
+ */
+export function matchesPathGlob(path: string, glob: string): boolean {
+  const pattern = glob.trim().replace(/^\/+|\/+$/g, "");
+  if (pattern === "") return false;
+  return globToRegExp(pattern).test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" may also stand for no folder at all
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
@@ -0,0 +1,153 @@
+import { NoteEmbedding } from "../chat";
+import { hashContent } from "./contentHash";
+import { EmbeddingInput } from "./embeddingInput";
+import { ChunkLocation } from "./markdownChunker";
+import { NoteMetadata } from "./noteMetadata";
+
+/**
+ * On-disk format of the embedding index. Vectors are stored back to back as
+ * raw Float32 values in one binary file; a JSON manifest holds the paths,
+ * chunk texts and where each chunk's vector starts in that file. Older
+ * formats are upgraded by the steps in indexMigrations.
+ */
+
+// The embedding model an index was built with, and how texts were written
+// for it. Indexes without the input were embedded with the default one.
+export interface IndexModel {
+  provider: string;
+  model: string;
+  input?: EmbeddingInput;
+}
+
+export interface IndexManifest {
+  version: 4;
+  lastUpdated: number;
+  provider: string;
+  model: string;
+  input?: EmbeddingInput;
+  // Length of every vector in the binary file
+  dimensions: number;
+  // Number of vectors in the binary file
+  vectorCount: number;
+  embeddings: {
+    [path: string]: {
+      path: string;
+      chunks: {
+        content: string;
+        position: number;
+        // Index of the chunk's vector in the binary file
+        vector: number;
+        hash: string;
+        location?: ChunkLocation;
+      }[];
+      lastModified: number;
+      hash?: string;
+      metadata?: NoteMetadata;
+    };
+  };
+}
+
+// A note of the index together with the file time it was indexed at
+export interface StoredNote {
+  embedding: NoteEmbedding;
+  lastModified: number;
+}
+
+export const INDEX_VERSION = 4;
+
+export function encodeIndex(
+  notes: StoredNote[],
+  model: IndexModel,
+): {
+  manifest: IndexManifest;
+  vectors: ArrayBuffer;
+} {
+  const first = notes.find((note) => note.embedding.chunks.length > 0);
+  const dimensions = first ? first.embedding.chunks[0].embedding.length : 0;
+  const vectorCount = notes.reduce(
+    (count, note) => count + note.embedding.chunks.length,
+    0,
+  );
+  const vectors = new Float32Array(vectorCount * dimensions);
+
+  const manifest: IndexManifest = {
+    version: INDEX_VERSION,
+    lastUpdated: Date.now(),
+    provider: model.provider,
+    model: model.model,
+    input: model.input,
+    dimensions,
+    vectorCount,
+    embeddings: {},
+  };
+  let vector = 0;
+  for (const { embedding, lastModified } of notes) {
+    manifest.embeddings[embedding.path] = {
+      path: embedding.path,
+      chunks: embedding.chunks.map((chunk) => {
+        if (chunk.embedding.length !== dimensions) {
+          throw new Error(
+            `Chunk of ${embedding.path} has ${chunk.embedding.length} dimensions, the index uses ${dimensions}`,
+          );
+        }
+        vectors.set(chunk.embedding, vector * dimensions);
+        return {
+          content: chunk.content,
+          position: chunk.position,
+          vector: vector++,
+          hash: chunk.hash || hashContent(chunk.content),
+          location: chunk.location,
+        };
+      }),
+      lastModified,
+      hash: embedding.hash,
+      metadata: embedding.metadata,
+    };
+  }
+  return { manifest, vectors: vectors.buffer };
+}
+
+// Chunk vectors are views into the loaded buffer rather than copies
+export function decodeIndex(
+  manifest: IndexManifest,
+  vectors: ArrayBuffer,
+): StoredNote[] {
+  if (manifest?.version !== INDEX_VERSION) {
+    throw new Error(
+      `Unsupported embedding index version: ${manifest?.version}`,
+    );
+  }
+  const { dimensions, vectorCount } = manifest;
+  const expectedBytes =
+    vectorCount * dimensions * Float32Array.BYTES_PER_ELEMENT;
+  if (vectors.byteLength !== expectedBytes) {
+    throw new Error(
+      `Embedding vectors file has ${vectors.byteLength} bytes, the manifest expects ${expectedBytes}`,
+    );
+  }
+
+  return Object.values(manifest.embeddings).map((note) => ({
+    embedding: {
+      path: note.path,
+      chunks: note.chunks.map((chunk) => {
+        if (chunk.vector < 0 || chunk.vector >= vectorCount) {
+          throw new Error(`Chunk of ${note.path} points past the vectors file`);
+        }
+        return {
+          content: chunk.content,
+          position: chunk.position,
+          embedding: new Float32Array(
+            vectors,
+            chunk.vector * dimensions * Float32Array.BYTES_PER_ELEMENT,
+            dimensions,
+          ),
+          hash: chunk.hash,
+          location: chunk.location,
+        };
+      }),
+      hash: note.hash,
+      metadata: note.metadata,
+    },
+    lastModified: note.lastModified,
+  }));
+}
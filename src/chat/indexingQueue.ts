@@ -0,0 +1,193 @@
+import { App, TFile } from "obsidian";
+import { Settings } from "../settings";
+import { logDebug, logError } from "../utils";
+import { readFileContent } from "../extractors";
+
+// A note waiting to be indexed and the file it was read from
+export interface NoteContent {
+  file: TFile;
+  content: string;
+}
+
+// A note that couldn't be indexed
+export interface IndexingFailure {
+  file: TFile;
+  error: unknown;
+}
+
+// Called once a note has been indexed, or with the error that stopped it
+export type NoteIndexedListener = (file: TFile, error?: unknown) => void;
+
+// Embeds a group of notes, reporting each note as it is done
+export type NoteIndexer = (
+  notes: NoteContent[],
+  onNoteIndexed: NoteIndexedListener,
+) => Promise<unknown>;
+
+// Notes a worker reads into memory and indexes together
+const GROUP_SIZE = 50;
+
+interface QueuedNote {
+  file: TFile;
+  // Content handed in by the caller, read from the vault otherwise
+  content?: string;
+  waiters: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * The single queue all indexing goes through. Each worker indexes a group
+ * of notes with one embeddings request at a time, so the number of workers
+ * is the number of requests in flight. A note queued again before its turn
+ * is indexed once, and the active file goes first.
+ */
+export class IndexingQueue {
+  private settings: Settings;
+  private app: App;
+  private indexer: NoteIndexer;
+  // Waiting notes by path, in the order they were queued
+  private pending: Map<string, QueuedNote> = new Map();
+  // Paths a worker is indexing right now
+  private running: Set<string> = new Set();
+  // Running paths removed since, whose results must not be stored
+  private removed: Set<string> = new Set();
+  private workers = 0;
+  private startScheduled = false;
+
+  constructor(settings: Settings, app: App, indexer: NoteIndexer) {
+    this.settings = settings;
+    this.app = app;
+    this.indexer = indexer;
+  }
+
+  // Resolves once the note is indexed, rejects with the error that stopped it
+  add(file: TFile, content?: string): Promise<void> {
+    let note = this.pending.get(file.path);
+    if (note) {
+      logDebug(this.settings, `${file.path} is already queued for indexing`);
+      note.file = file;
+      note.content = content;
+    } else {
+      note = { file, content, waiters: [] };
+      this.pending.set(file.path, note);
+    }
+
+    const queued = note;
+    const promise = new Promise<void>((resolve, reject) => {
+      queued.waiters.push({ resolve, reject });
+    });
+    this.scheduleWorkers();
+    return promise;
+  }
+
+  // Drop a note that no longer needs indexing, e.g. because it was deleted
+  remove(path: string) {
+    if (this.running.has(path)) this.removed.add(path);
+    const note = this.pending.get(path);
+    if (!note) return;
+    this.pending.delete(path);
+    note.waiters.forEach((waiter) => waiter.resolve());
+  }
+
+  // Whether the note was removed while a worker was indexing it, so that
+  // the vectors on their way don't bring it back
+  isRemoved(path: string): boolean {
+    return this.removed.has(path);
+  }
+
+  private get maxWorkers(): number {
+    return Math.max(
+      1,
+      this.settings.embeddingSettings.maxConcurrentRequests || 1,
+    );
+  }
+
+  // Start once the caller has queued everything it has at hand, so that
+  // notes queued together are indexed together
+  private scheduleWorkers() {
+    if (this.startScheduled) return;
+    this.startScheduled = true;
+    Promise.resolve().then(() => {
+      this.startScheduled = false;
+      this.startWorkers();
+    });
+  }
+
+  private startWorkers() {
+    while (this.workers < this.maxWorkers) {
+      const notes = this.takeGroup();
+      if (notes.length === 0) return;
+      this.workers++;
+      this.work(notes);
+    }
+  }
+
+  private takeGroup(): QueuedNote[] {
+    // A note already being indexed waits until that run is done, its
+    // content may have changed since
+    const notes = Array.from(this.pending.values()).filter(
+      (note) => !this.running.has(note.file.path),
+    );
+
+    const activePath = this.app.workspace.getActiveFile()?.path;
+    const active = notes.findIndex((note) => note.file.path === activePath);
+    if (active > 0) {
+      notes.unshift(...notes.splice(active, 1));
+    }
+
+    const group = notes.slice(0, GROUP_SIZE);
+    for (const note of group) {
+      this.pending.delete(note.file.path);
+      this.running.add(note.file.path);
+    }
+    return group;
+  }
+
+  private async work(notes: QueuedNote[]) {
+    try {
+      await this.index(notes);
+    } finally {
+      notes.forEach((note) => {
+        this.running.delete(note.file.path);
+        this.removed.delete(note.file.path);
+      });
+      this.workers--;
+      this.startWorkers();
+    }
+  }
+
+  private async index(notes: QueuedNote[]) {
+    const unsettled = new Map<TFile, QueuedNote>();
+    const settle = (note: QueuedNote, error?: unknown) => {
+      unsettled.delete(note.file);
+      note.waiters.forEach((waiter) =>
+        error ? waiter.reject(error) : waiter.resolve(),
+      );
+    };
+
+    const contents: NoteContent[] = [];
+    for (const note of notes) {
+      try {
+        const content =
+          note.content ?? (await readFileContent(this.app, note.file));
+        contents.push({ file: note.file, content });
+        unsettled.set(note.file, note);
+      } catch (error) {
+        logError(`Error reading ${note.file.path}`, error);
+        settle(note, error);
+      }
+    }
+
+    let failure: unknown;
+    try {
+      await this.indexer(contents, (file, error) => {
+        const note = unsettled.get(file);
+        if (note) settle(note, error);
+      });
+    } catch (error) {
+      logError("Error indexing notes", error);
+      failure = error;
+    }
+    // Notes the indexer didn't report share the fate of the whole run
+    Array.from(unsettled.values()).forEach((note) => settle(note, failure));
+  }
+}
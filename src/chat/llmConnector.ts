@@ -1,7 +1,32 @@
-import { requestUrl, RequestUrlParam } from "obsidian";
 import { Settings } from "../settings";
 import { ChatMessage } from "../chat";
-import { logError, logDebug } from "../utils";
+import { logDebug, logError } from "../utils";
+import {
+  BaseProvider,
+  CompletionRequest,
+  CompletionResult,
+  FallbackResult,
+  ProviderError,
+  TokenUsage,
+  ToolCall,
+  createProviderChain,
+  isFailoverError,
+  withFallback,
+} from "../providers";
+import {
+  BudgetExceededError,
+  globalUsageTracker,
+  summarizeUsage,
+} from "../usageTracker";
+import { NoteTools } from "./noteTools";
+import { estimateMessageTokens, estimateTokens } from "./tokenBudget";
+
+const AGENT_SYSTEM_PROMPT = `You can call tools to search and read the user's notes.
+If the provided context doesn't answer the question, search for more, for example to follow a reference to another note or project.
+Read a note when an excerpt is not enough. Stop calling tools once you can answer.`;
+
+const FINAL_ANSWER_PROMPT =
+  "You have reached the limit of tool calls. Answer now using the information gathered so far.";
 
 export class LLMConnector {
   private settings: Settings;
@@ -14,69 +39,19 @@ export class LLMConnector {
     messages: ChatMessage[],
     signal?: AbortSignal,
   ): Promise<ChatMessage> {
-    const provider = this.settings.chatSettings.provider;
-    const apiEndpoint =
-      provider === "local"
-        ? this.settings.chatSettings.localApiUrl
-        : this.settings.chatSettings.openaiApiUrl;
-    const modelName =
-      provider === "local"
-        ? this.settings.chatSettings.localModel
-        : this.settings.chatSettings.openaiModel;
-
-    if (!apiEndpoint) {
-      throw new Error(
-        "API endpoint is not configured. Please check your settings.",
-      );
-    }
+    const providers = this.getProviders();
 
     try {
-      // Prepare request parameters
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
-
-      // Add Authorization header for OpenAI
-      if (provider === "openai") {
-        const apiKey = this.settings.chatSettings.openaiApiKey;
-        if (!apiKey) {
-          throw new Error(
-            "OpenAI API key is missing. Please configure it in the settings.",
-          );
-        }
-        headers["Authorization"] = `Bearer ${apiKey}`;
-      }
-
-      // Prepare request body
-      const requestBody = {
-        model: modelName,
-        messages: messages,
-        temperature: this.settings.chatSettings.temperature,
-        max_tokens: this.settings.chatSettings.maxTokens,
-        stream: false,
-      };
-
-      // Use fetch instead of requestUrl to support abort signals
-      const response = await fetch(apiEndpoint, {
-        method: "POST",
-        headers: headers,
-        body: JSON.stringify(requestBody),
-        signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-
-      // Parse response
-      const responseData = await response.json();
-
-      if (responseData.choices && responseData.choices.length > 0) {
-        const messageContent = responseData.choices[0].message.content;
-        return { role: "assistant", content: messageContent };
-      } else {
-        throw new Error("Invalid response format from API");
-      }
+      const answer = await withFallback(
+        providers,
+        (provider) => provider.complete(this.buildRequest(messages, signal)),
+        this.settings,
+      );
+      return this.toMessage(
+        answer.result,
+        answer,
+        this.getUsage(messages, answer.result),
+      );
     } catch (error) {
       if (error.name === "AbortError") {
         throw error; // Re-throw abort errors to let caller handle them
@@ -90,183 +65,247 @@ export class LLMConnector {
     messages: ChatMessage[],
     updateCallback: (content: string) => void,
     signal?: AbortSignal,
+    reasoningCallback?: (reasoning: string) => void,
   ): Promise<ChatMessage> {
-    const provider = this.settings.chatSettings.provider;
-    const apiEndpoint =
-      provider === "local"
-        ? this.settings.chatSettings.localApiUrl
-        : this.settings.chatSettings.openaiApiUrl;
-
-    if (!apiEndpoint) {
-      throw new Error(`API endpoint for ${provider} provider is not set.`);
-    }
-
-    const modelName =
-      provider === "local"
-        ? this.settings.chatSettings.localModel
-        : this.settings.chatSettings.openaiModel;
-
-    // Check for API key
-    let apiKey: string | undefined;
-    if (provider === "openai") {
-      apiKey = this.settings.chatSettings.openaiApiKey;
-      if (!apiKey) {
-        throw new Error(
-          "OpenAI API key is missing. Please configure it in the settings.",
-        );
-      }
-    }
+    // Resolve the providers first so configuration errors reach the caller
+    const providers = this.getProviders();
 
     let content = "";
-    const decoder = new TextDecoder();
-    let lastUpdateLength = 0;
+    let reasoning = "";
     let hasStartedStreaming = false;
+    // Providers in the order they were tried, the last one answered or
+    // failed last
+    const tried: BaseProvider[] = [];
 
     try {
-      // Prepare headers based on provider
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
+      // Once content arrived the answer can't move to another provider
+      const answer = await withFallback(
+        providers,
+        (provider) => {
+          tried.push(provider);
+          return provider.stream(
+            this.buildRequest(messages, signal),
+            (delta) => {
+              content += delta;
+              hasStartedStreaming = true;
+              updateCallback(content);
+            },
+            (delta) => {
+              reasoning += delta;
+              hasStartedStreaming = true;
+              reasoningCallback?.(reasoning);
+            },
+          );
+        },
+        this.settings,
+        (error) => !hasStartedStreaming && isFailoverError(error),
+      );
 
-      if (provider === "openai") {
-        headers["Authorization"] = `Bearer ${apiKey}`;
+      // Check if we've received any content
+      if (!hasStartedStreaming || content.trim() === "") {
+        const fallbackMessage =
+          "I apologize, but I couldn't generate a response. Please try again with a different prompt.";
+        updateCallback(fallbackMessage);
+        return { role: "assistant", content: fallbackMessage };
       }
 
-      // Prepare request body
-      const requestBody = {
-        model: modelName,
-        messages: messages,
-        temperature: this.settings.chatSettings.temperature,
-        max_tokens: this.settings.chatSettings.maxTokens,
-        stream: true,
-      };
+      const result = { ...answer.result, content };
+      return this.toMessage(result, answer, this.getUsage(messages, result));
+    } catch (error) {
+      if (error.name === "AbortError") {
+        throw error; // Re-throw abort errors to let caller handle them
+      }
 
-      // Make the API request
-      const response = await fetch(apiEndpoint, {
-        method: "POST",
-        headers: headers,
-        body: JSON.stringify(requestBody),
-        signal,
-      });
+      logError("Error in streamResponse:", error);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        logError(
-          `API request failed with status ${response.status}: ${errorText}`,
+      // Keep what the provider streamed before it failed, it was billed
+      const provider = tried[tried.length - 1];
+      if (hasStartedStreaming && provider) {
+        const partial: CompletionResult = { content };
+        if (reasoning) partial.reasoning = reasoning;
+        const answer = {
+          result: partial,
+          provider,
+          failed: tried.slice(0, -1).map(({ label }) => label),
+        };
+        return this.toMessage(
+          partial,
+          answer,
+          this.getUsage(messages, partial),
         );
-        const errorMessage =
-          "I apologize, but I couldn't generate a response. Please check your API key and try again.";
-        updateCallback(errorMessage);
-        return { role: "assistant", content: errorMessage };
       }
 
-      if (!response.body) {
-        throw new Error("Response body is null");
-      }
+      const errorMessage = getErrorMessage(
+        error,
+        tried.map(({ label }) => label),
+      );
+      updateCallback(errorMessage);
+      return { role: "assistant", content: errorMessage };
+    }
+  }
 
-      const reader = response.body.getReader();
+  /**
+   * Agentic chat: let the model call note tools until it answers or the
+   * iteration cap is reached. Each call is reported through `onToolCall`
+   * before it runs.
+   */
+  async runAgent(
+    messages: ChatMessage[],
+    tools: NoteTools,
+    onToolCall: (call: ToolCall) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatMessage> {
+    const providers = this.getProviders();
+    const maxIterations = Math.max(
+      1,
+      this.settings.chatSettings.maxToolIterations,
+    );
+    const conversation: ChatMessage[] = [
+      { role: "system", content: AGENT_SYSTEM_PROMPT },
+      ...messages,
+    ];
+    const nextStep = () => ({
+      ...this.buildRequest(conversation, signal),
+      tools: tools.definitions,
+    });
 
-      while (true) {
-        const { done, value } = await reader.read();
+    try {
+      // The provider that answers the first step handles the whole run,
+      // tool call ids are not portable between providers
+      const answer = await withFallback(
+        providers,
+        (provider) => provider.complete(nextStep()),
+        this.settings,
+      );
+      const provider = answer.provider;
+      let result = answer.result;
+      let usage = this.getUsage(conversation, result);
 
-        if (done) {
-          // Process any remaining content in the decoder
-          const finalChunk = decoder.decode();
-          if (finalChunk.trim()) {
-            try {
-              this.processStreamChunk(finalChunk, (newContent) => {
-                content += newContent;
-              });
-            } catch (e) {
-              logError("Error processing final chunk:", e);
-            }
-          }
-          break;
+      for (let iteration = 1; ; iteration++) {
+        if (!result.toolCalls?.length) {
+          return this.toMessage(result, answer, usage);
         }
 
-        try {
-          // Decode the chunk
-          const chunk = decoder.decode(value, { stream: true });
-
-          // Process the chunk
-          this.processStreamChunk(chunk, (newContent) => {
-            if (newContent) {
-              content += newContent;
-              hasStartedStreaming = true;
-            }
+        conversation.push({
+          role: "assistant",
+          content: result.content,
+          toolCalls: result.toolCalls,
+        });
+
+        for (const call of result.toolCalls) {
+          onToolCall(call);
+          conversation.push({
+            role: "tool",
+            content: await tools.execute(call),
+            toolCallId: call.id,
+            toolName: call.name,
           });
-
-          // Only send updates if we have new content, avoid duplicate updates
-          if (content.length > lastUpdateLength) {
-            lastUpdateLength = content.length;
-            updateCallback(content);
-          }
-        } catch (e) {
-          logError("Error processing chunk:", e);
         }
-      }
 
-      // Check if we've received any content
-      if (!hasStartedStreaming || content.trim() === "") {
-        const fallbackMessage =
-          "I apologize, but I couldn't generate a response. Please try again with a different prompt.";
-        updateCallback(fallbackMessage);
-        return { role: "assistant", content: fallbackMessage };
+        if (iteration >= maxIterations) break;
+        result = await provider.complete(nextStep());
+        usage = addUsage(usage, this.getUsage(conversation, result));
       }
 
-      return { role: "assistant", content: content };
+      // Out of iterations: ask for an answer without further tool calls
+      logDebug(
+        this.settings,
+        `Agent reached the limit of ${maxIterations} tool iterations`,
+      );
+      conversation.push({ role: "user", content: FINAL_ANSWER_PROMPT });
+      const final = await provider.complete({
+        ...this.buildRequest(conversation, signal),
+        tools: tools.definitions,
+        toolChoice: "none",
+      });
+      usage = addUsage(usage, this.getUsage(conversation, final));
+      return this.toMessage(final, answer, usage);
     } catch (error) {
       if (error.name === "AbortError") {
         throw error; // Re-throw abort errors to let caller handle them
       }
+      logError("Error in agent run", error);
+      throw error;
+    }
+  }
 
-      logError("Error in streamResponse:", error);
-      const errorMessage =
-        "I apologize, but I couldn't generate a response due to a technical error.";
+  // The chat provider followed by its configured fallbacks
+  private getProviders() {
+    return createProviderChain(this.settings.chatSettings, this.settings);
+  }
 
-      // Only update with error message if we haven't started streaming content
-      if (!hasStartedStreaming) {
-        updateCallback(errorMessage);
+  // Tokens the provider reported for a response, estimated when it didn't
+  private getUsage(
+    messages: ChatMessage[],
+    result: CompletionResult,
+  ): TokenUsage {
+    return (
+      result.usage || {
+        inputTokens: estimateMessageTokens(messages),
+        outputTokens:
+          estimateTokens(result.content) +
+          estimateTokens(result.reasoning || ""),
       }
+    );
+  }
 
-      return {
-        role: "assistant",
-        content: hasStartedStreaming ? content : errorMessage,
-      };
+  // Record the usage of a response, keep the model's reasoning apart from
+  // the answer and note which provider answered, and which were unavailable
+  private toMessage(
+    result: CompletionResult,
+    answer: FallbackResult<unknown>,
+    usage: TokenUsage,
+  ): ChatMessage {
+    const model = answer.provider.model || answer.provider.label;
+    globalUsageTracker?.record("chat", model, usage);
+
+    const message: ChatMessage = {
+      role: "assistant",
+      content: result.content,
+      usage: summarizeUsage(this.settings, model, usage),
+    };
+    if (result.reasoning) {
+      message.reasoning = result.reasoning;
     }
+    message.provider = answer.provider.description;
+    if (answer.failed.length > 0) {
+      message.unavailableProviders = answer.failed;
+    }
+    return message;
   }
 
-  private processStreamChunk(
-    chunk: string,
-    addContent: (content: string) => void,
-  ): void {
-    // Split the chunk by lines
-    const lines = chunk.split("\n").filter((line) => line.trim() !== "");
-
-    for (const line of lines) {
-      // Skip if it's not a data line
-      if (!line.startsWith("data:")) continue;
-
-      try {
-        // Extract the JSON part
-        const jsonStr = line.slice(5).trim();
-
-        // Handle [DONE] marker
-        if (jsonStr === "[DONE]") continue;
-
-        // Parse the JSON
-        const data = JSON.parse(jsonStr);
+  private buildRequest(
+    messages: ChatMessage[],
+    signal?: AbortSignal,
+  ): CompletionRequest {
+    return {
+      messages,
+      maxTokens: this.settings.chatSettings.maxTokens,
+      temperature: this.settings.chatSettings.temperature,
+      signal,
+    };
+  }
+}
 
-        // Extract content
-        if (data.choices && data.choices.length > 0) {
-          const delta = data.choices[0].delta;
-          if (delta && delta.content) {
-            addContent(delta.content);
-          }
-        }
-      } catch (e) {
-        console.error("Error parsing chunk line:", e, "Line:", line);
-      }
-    }
+// What the chat shows when no provider could answer
+function getErrorMessage(error: any, tried: string[]): string {
+  if (error instanceof BudgetExceededError) return error.message;
+  if (
+    error instanceof ProviderError &&
+    (error.status === 401 || error.status === 403)
+  ) {
+    return "I apologize, but I couldn't generate a response. Please check your API key and try again.";
+  }
+  if (tried.length > 0 && (isFailoverError(error) || error?.status)) {
+    const unavailable = tried.join(", ");
+    return `I apologize, but I couldn't generate a response because ${unavailable} ${tried.length > 1 ? "were" : "was"} unavailable. Please try again later.`;
   }
+  return "I apologize, but I couldn't generate a response due to a technical error.";
+}
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+  };
 }
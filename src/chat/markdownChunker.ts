@@ -0,0 +1,517 @@
+/**
+ * Splits a note into chunks for embedding along its Markdown structure.
+ * Fenced code, math blocks, tables, callouts and list items are never cut
+ * in half, chunks don't reach across top-level headings, and the
+ * frontmatter is set aside instead of being embedded as prose.
+ */
+
+// Part of the note hash, so that notes are split again when the rules change
+export const CHUNKER_VERSION = 2;
+
+// Blocks that must stay whole may grow up to this many chunk sizes before
+// they are split at line breaks after all
+const MAX_BLOCK_CHUNKS = 4;
+
+export interface ChunkOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+// Where a chunk's own text sits in its note, without the overlap it repeats
+export interface ChunkLocation {
+  // Headings the text sits under, outermost first
+  headings: string[];
+  // Lines counted from 0 as in the editor, the end line included
+  startLine: number;
+  endLine: number;
+  // Character offsets, the end excluded
+  start: number;
+  end: number;
+}
+
+export interface MarkdownChunk {
+  content: string;
+  // Offset in the note where the chunk's own text starts, after the overlap
+  position: number;
+  location: ChunkLocation;
+}
+
+export interface ChunkedNote {
+  // The YAML between the frontmatter fences, null for notes without one
+  frontmatter: string | null;
+  chunks: MarkdownChunk[];
+}
+
+type BlockKind =
+  "heading" | "paragraph" | "code" | "math" | "quote" | "table" | "list";
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A run of the note, as offsets into its text
+interface Block {
+  kind: BlockKind;
+  start: number;
+  end: number;
+  level?: number;
+  title?: string;
+}
+
+interface Atom extends Block {
+  section: number;
+  // Headings in effect from this block on
+  headings: string[];
+}
+
+interface Span {
+  start: number;
+  end: number;
+  section: number;
+  headings: string[];
+  hasContent: boolean;
+  lastKind: BlockKind;
+}
+
+const FRONTMATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const MATH_FENCE = /^ {0,3}\$\$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s|$)/;
+const CLOSING_HASHES = /(?:^|\s+)#+\s*$/;
+const QUOTE = /^ {0,3}>/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d{1,9}[.)])(?:\s|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export function chunkMarkdown(
+  content: string,
+  options: ChunkOptions,
+): ChunkedNote {
+  const match = content.match(FRONTMATTER);
+  const frontmatter = match ? match[1] : null;
+  const lines = splitLines(content, match ? match[0].length : 0);
+  const atoms = splitOversized(
+    content,
+    assignSections(parseBlocks(lines)),
+    options.chunkSize,
+  );
+  return { frontmatter, chunks: packAtoms(content, atoms, options) };
+}
+
+function splitLines(content: string, from: number): Line[] {
+  const lines: Line[] = [];
+  let start = from;
+  while (start < content.length) {
+    const newline = content.indexOf("\n", start);
+    const next = newline === -1 ? content.length : newline + 1;
+    let end = newline === -1 ? content.length : newline;
+    if (content[end - 1] === "\r") end--;
+    lines.push({ text: content.slice(start, end), start, end });
+    start = next;
+  }
+  return lines;
+}
+
+const isBlank = (text: string) => text.trim().length === 0;
+
+const isTableStart = (lines: Line[], i: number) =>
+  i + 1 < lines.length &&
+  lines[i].text.includes("|") &&
+  lines[i + 1].text.includes("|") &&
+  lines[i + 1].text.includes("-") &&
+  TABLE_DELIMITER.test(lines[i + 1].text);
+
+// Whether a line opens a block of its own instead of continuing a paragraph
+const startsBlock = (lines: Line[], i: number) =>
+  FENCE.test(lines[i].text) ||
+  MATH_FENCE.test(lines[i].text) ||
+  HEADING.test(lines[i].text) ||
+  QUOTE.test(lines[i].text) ||
+  LIST_ITEM.test(lines[i].text) ||
+  isTableStart(lines, i);
+
+const indentOf = (text: string) => text.length - text.trimStart().length;
+
+function parseBlocks(lines: Line[]): Block[] {
+  const blocks: Block[] = [];
+  const add = (kind: BlockKind, first: number, last: number) =>
+    blocks.push({ kind, start: lines[first].start, end: lines[last].end });
+
+  let i = 0;
+  while (i < lines.length) {
+    const text = lines[i].text;
+    if (isBlank(text)) {
+      i++;
+      continue;
+    }
+
+    const fence = text.match(FENCE);
+    const heading = text.match(HEADING);
+    let last = i;
+    if (fence) {
+      // Runs to the closing fence, or to the end of an unclosed block
+      const marker = fence[1];
+      last = lines.length - 1;
+      for (let j = i + 1; j < lines.length; j++) {
+        const closing = lines[j].text.trim();
+        if (
+          closing.length >= marker.length &&
+          closing === marker[0].repeat(closing.length)
+        ) {
+          last = j;
+          break;
+        }
+      }
+      add("code", i, last);
+    } else if (MATH_FENCE.test(text)) {
+      const opening = text.trim();
+      if (opening.length < 4 || !opening.endsWith("$$")) {
+        last = lines.length - 1;
+        for (let j = i + 1; j < lines.length; j++) {
+          if (lines[j].text.includes("$$")) {
+            last = j;
+            break;
+          }
+        }
+      }
+      add("math", i, last);
+    } else if (heading) {
+      blocks.push({
+        kind: "heading",
+        start: lines[i].start,
+        end: lines[i].end,
+        level: heading[1].length,
+        title: text
+          .trim()
+          .slice(heading[1].length)
+          .replace(CLOSING_HASHES, "")
+          .trim(),
+      });
+    } else if (QUOTE.test(text)) {
+      // Callouts are block quotes, kept together with their title line
+      while (last + 1 < lines.length && QUOTE.test(lines[last + 1].text)) {
+        last++;
+      }
+      add("quote", i, last);
+    } else if (isTableStart(lines, i)) {
+      last = i + 1;
+      while (
+        last + 1 < lines.length &&
+        !isBlank(lines[last + 1].text) &&
+        lines[last + 1].text.includes("|")
+      ) {
+        last++;
+      }
+      add("table", i, last);
+    } else if (LIST_ITEM.test(text)) {
+      last = parseList(lines, i, add);
+    } else {
+      while (
+        last + 1 < lines.length &&
+        !isBlank(lines[last + 1].text) &&
+        !startsBlock(lines, last + 1)
+      ) {
+        last++;
+      }
+      add("paragraph", i, last);
+    }
+    i = last + 1;
+  }
+  return blocks;
+}
+
+/**
+ * Adds a block for each top-level item of the list starting at the given
+ * line, with its nested items and continuation lines, and returns the last
+ * line of the list.
+ */
+function parseList(
+  lines: Line[],
+  first: number,
+  add: (kind: BlockKind, first: number, last: number) => void,
+): number {
+  const baseIndent = indentOf(lines[first].text);
+  let itemStart = first;
+  let last = first;
+
+  for (let j = first + 1; j < lines.length; j++) {
+    const text = lines[j].text;
+    if (isBlank(text)) continue;
+
+    const indent = indentOf(text);
+    const previousBlank = j > last + 1;
+    if (indent <= baseIndent) {
+      if (LIST_ITEM.test(text)) {
+        add("list", itemStart, last);
+        itemStart = j;
+      } else if (previousBlank || startsBlock(lines, j)) {
+        break;
+      }
+    }
+    // Nested items, indented lines and lines continuing the item's
+    // paragraph belong to the current item
+    last = j;
+  }
+  add("list", itemStart, last);
+  return last;
+}
+
+/**
+ * Numbers the sections between top-level headings and records the headings
+ * above each block. Top-level headings are the note's shallowest ones,
+ * unless there is only one of them, as for a title, in which case the next
+ * level down divides the note as well. A heading with nothing but headings
+ * below it stays with the section that follows.
+ */
+function assignSections(blocks: Block[]): Atom[] {
+  const levels = blocks
+    .filter((block) => block.kind === "heading")
+    .map((block) => block.level as number);
+  let topLevel = Math.min(...levels);
+  if (levels.filter((level) => level === topLevel).length === 1) {
+    const deeper = levels.filter((level) => level > topLevel);
+    if (deeper.length > 0) topLevel = Math.min(...deeper);
+  }
+
+  let section = 0;
+  let sectionHasContent = false;
+  const open: { level: number; title: string }[] = [];
+  return blocks.map((block) => {
+    if (block.kind === "heading") {
+      const level = block.level as number;
+      if (level <= topLevel && sectionHasContent) {
+        section++;
+        sectionHasContent = false;
+      }
+      while (open.length > 0 && open[open.length - 1].level >= level) {
+        open.pop();
+      }
+      open.push({ level, title: block.title as string });
+    } else {
+      sectionHasContent = true;
+    }
+    return {
+      ...block,
+      section,
+      headings: open.map((heading) => heading.title),
+    };
+  });
+}
+
+/**
+ * Splits what can't fit in a chunk. Paragraphs are split at sentences,
+ * other blocks only when they exceed several chunk sizes, at line breaks.
+ */
+function splitOversized(
+  content: string,
+  atoms: Atom[],
+  chunkSize: number,
+): Atom[] {
+  const result: Atom[] = [];
+  for (const atom of atoms) {
+    const limit =
+      atom.kind === "paragraph" ? chunkSize : chunkSize * MAX_BLOCK_CHUNKS;
+    if (atom.end - atom.start <= limit) {
+      result.push(atom);
+      continue;
+    }
+    const boundary = atom.kind === "paragraph" ? /(?<=[.!?])\s+/g : /\n/g;
+    for (const [start, end] of splitRange(content, atom, chunkSize, boundary)) {
+      result.push({ ...atom, start, end });
+    }
+  }
+  return result;
+}
+
+// Ranges of at most `limit` characters, ending at the given boundaries
+// where possible, otherwise at a space or mid-word
+function splitRange(
+  content: string,
+  range: { start: number; end: number },
+  limit: number,
+  boundary: RegExp,
+): [number, number][] {
+  const text = content.slice(range.start, range.end);
+  const pieces: { start: number; end: number }[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    pieces.push({ start, end: match.index });
+    start = match.index + match[0].length;
+  }
+  pieces.push({ start, end: text.length });
+
+  const ranges: [number, number][] = [];
+  let current: { start: number; end: number } | null = null;
+  for (const piece of pieces) {
+    if (piece.end <= piece.start) continue;
+    if (current && piece.end - current.start <= limit) {
+      current.end = piece.end;
+      continue;
+    }
+    if (current) ranges.push([current.start, current.end]);
+    current = { ...piece };
+    while (current.end - current.start > limit) {
+      const space = text.lastIndexOf(" ", current.start + limit);
+      const cut = space > current.start ? space : current.start + limit;
+      ranges.push([current.start, cut]);
+      current.start = cut;
+      while (current.start < current.end && text[current.start] === " ") {
+        current.start++;
+      }
+    }
+  }
+  if (current && current.end > current.start) {
+    ranges.push([current.start, current.end]);
+  }
+  return ranges.map(([start, end]) => [range.start + start, range.start + end]);
+}
+
+/**
+ * Fills chunks with consecutive atoms of a section. A heading starts a new
+ * chunk unless everything up to the next heading still fits in the current
+ * one, and headings are never left in a chunk by themselves. A chunk
+ * continuing a section split after a paragraph repeats the end of that
+ * paragraph. A chunk's headings are those of its first block below a
+ * heading.
+ */
+function packAtoms(
+  content: string,
+  atoms: Atom[],
+  { chunkSize, chunkOverlap }: ChunkOptions,
+): MarkdownChunk[] {
+  const spans: Span[] = [];
+  atoms.forEach((atom, i) => {
+    let end = atom.end;
+    if (atom.kind === "heading") {
+      for (let j = i + 1; j < atoms.length; j++) {
+        if (atoms[j].kind === "heading" || atoms[j].section !== atom.section) {
+          break;
+        }
+        end = atoms[j].end;
+      }
+    }
+
+    const current = spans[spans.length - 1];
+    // Headings always keep what follows them
+    if (
+      current &&
+      current.section === atom.section &&
+      (!current.hasContent || end - current.start <= chunkSize)
+    ) {
+      current.end = atom.end;
+      current.lastKind = atom.kind;
+      if (!current.hasContent) {
+        current.headings = atom.headings;
+        current.hasContent = atom.kind !== "heading";
+      }
+    } else {
+      spans.push({
+        start: atom.start,
+        end: atom.end,
+        section: atom.section,
+        headings: atom.headings,
+        hasContent: atom.kind !== "heading",
+        lastKind: atom.kind,
+      });
+    }
+  });
+
+  const lineAt = lineFinder(content);
+  return spans.map((span, i) => {
+    const text = content.slice(span.start, span.end);
+    const location: ChunkLocation = {
+      headings: span.headings,
+      startLine: lineAt(span.start),
+      endLine: lineAt(span.end - 1),
+      start: span.start,
+      end: span.end,
+    };
+    const previous = spans[i - 1];
+    const followsParagraph =
+      previous &&
+      previous.section === span.section &&
+      previous.lastKind === "paragraph" &&
+      !HEADING.test(text);
+    if (!followsParagraph || chunkOverlap <= 0) {
+      return { content: text, position: span.start, location };
+    }
+    const paragraphs = content
+      .slice(previous.start, previous.end)
+      .split(/\n\s*\n/);
+    const overlap = getOverlapText(
+      paragraphs[paragraphs.length - 1],
+      chunkOverlap,
+    );
+    return {
+      content: `${overlap}\n\n${text}`,
+      position: span.start,
+      location,
+    };
+  });
+}
+
+// The headings above a chunk as one line, e.g. "Project X > Risks > Budget"
+export function formatHeadingPath(headings: string[]): string {
+  return headings.join(" > ");
+}
+
+// Finds the line of an offset, counted from 0
+function lineFinder(content: string): (offset: number) => number {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") starts.push(i + 1);
+  }
+  return (offset) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (starts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  };
+}
+
+// The end of a text, at most overlapLength long, cut at a sentence or
+// paragraph break where one is near enough
+export function getOverlapText(text: string, overlapLength: number): string {
+  if (text.length <= overlapLength) return text;
+
+  // Try to break at sentence boundaries first
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  let overlap = "";
+
+  // Build up overlap text from complete sentences
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const potentialOverlap = sentences[i] + (overlap ? " " + overlap : "");
+    if (potentialOverlap.length > overlapLength) break;
+    overlap = potentialOverlap;
+  }
+
+  // If we couldn't get enough text from sentence boundaries,
+  // fall back to paragraph boundaries
+  if (overlap.length < overlapLength * 0.5) {
+    const paragraphs = text.split(/\n\s*\n/);
+    overlap = "";
+
+    for (let i = paragraphs.length - 1; i >= 0; i--) {
+      const potentialOverlap =
+        paragraphs[i] + (overlap ? "\n\n" + overlap : "");
+      if (potentialOverlap.length > overlapLength) break;
+      overlap = potentialOverlap;
+    }
+  }
+
+  // If we still don't have enough overlap, just take the last N characters
+  if (overlap.length < overlapLength * 0.5) {
+    overlap = text.slice(-overlapLength);
+  }
+
+  return overlap;
+}
@@ -0,0 +1,137 @@
+import { CachedMetadata } from "obsidian";
+
+/**
+ * What Obsidian's metadata cache knows about a note, kept with its
+ * embeddings so that search can match aliases and filter or rank by tags
+ * and properties without reading the note again.
+ */
+export interface NoteMetadata {
+  // Frontmatter properties other than the tags and aliases below
+  properties: { [key: string]: unknown };
+  // Lowercase and without "#", from the frontmatter and the text
+  tags: string[];
+  aliases: string[];
+  // Targets of outgoing links and embeds as written, without headings
+  links: string[];
+}
+
+// Frontmatter keys read into fields of their own, or added by Obsidian
+const SEPARATE_KEYS = ["tags", "tag", "aliases", "alias", "position"];
+
+export function extractNoteMetadata(
+  cache: CachedMetadata | null | undefined,
+): NoteMetadata {
+  const frontmatter = cache?.frontmatter || {};
+  const properties: { [key: string]: unknown } = {};
+  for (const key of Object.keys(frontmatter)) {
+    if (!SEPARATE_KEYS.includes(key)) properties[key] = frontmatter[key];
+  }
+
+  const tags = [
+    ...(cache?.tags || []).map((tag) => tag.tag),
+    ...listValue(frontmatter.tags, /[,\s]+/),
+    ...listValue(frontmatter.tag, /[,\s]+/),
+  ].map(normalizeTag);
+  const aliases = [
+    ...listValue(frontmatter.aliases, /,/),
+    ...listValue(frontmatter.alias, /,/),
+  ].map((alias) => alias.trim());
+  const links = [
+    ...(cache?.links || []),
+    ...(cache?.embeds || []),
+    ...(cache?.frontmatterLinks || []),
+  ].map((link) => link.link.split("#")[0].trim());
+
+  return {
+    properties,
+    tags: unique(tags),
+    aliases: unique(aliases),
+    links: unique(links),
+  };
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+// Nested tags match their parents, so #project matches #project/alpha
+export function matchesTag(tags: string[], tag: string): boolean {
+  const wanted = normalizeTag(tag);
+  return tags.some((t) => t === wanted || t.startsWith(`${wanted}/`));
+}
+
+/**
+ * A frontmatter property a note must have. Without a value any value but an
+ * empty one matches. Names and values are compared ignoring case, and a
+ * list matches when one of its items does.
+ */
+export interface PropertyFilter {
+  key: string;
+  value?: string;
+}
+
+export function matchesProperty(
+  properties: { [key: string]: unknown },
+  filter: PropertyFilter,
+): boolean {
+  const key = Object.keys(properties).find(
+    (name) => name.toLowerCase() === filter.key.trim().toLowerCase(),
+  );
+  if (key === undefined) return false;
+
+  const values = (
+    Array.isArray(properties[key])
+      ? (properties[key] as unknown[])
+      : [properties[key]]
+  )
+    .filter((value) => value != null && value !== "")
+    .map((value) => String(value).trim().toLowerCase());
+  if (filter.value == null || filter.value === "") return values.length > 0;
+  return values.includes(String(filter.value).trim().toLowerCase());
+}
+
+// Reordering the properties in the frontmatter doesn't change the metadata
+export function sameMetadata(a?: NoteMetadata, b?: NoteMetadata): boolean {
+  return sameValue(a, b);
+}
+
+// Deep comparison where the order of object keys doesn't matter, while the
+// order of list items does
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => sameValue(item, b[index]))
+    );
+  }
+  const objectA = a as { [key: string]: unknown };
+  const objectB = b as { [key: string]: unknown };
+  const keys = Object.keys(objectA);
+  return (
+    keys.length === Object.keys(objectB).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(objectB, key) &&
+        sameValue(objectA[key], objectB[key]),
+    )
+  );
+}
+
+// Frontmatter lists may also be written as a single separated string
+function listValue(value: unknown, separator: RegExp): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item) => item != null).map(String);
+  }
+  if (typeof value === "string") return value.split(separator);
+  return [];
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter((value) => value.length > 0)));
+}
@@ -0,0 +1,303 @@
+import { App, TFile } from "obsidian";
+import { Settings } from "../settings";
+import { logDebug, logError } from "../utils";
+import { processQuery } from "../nlp";
+import { VectorStore } from "./vectorStore";
+import { EmbeddingStore } from "./embeddingStore";
+import {
+  PropertyFilter,
+  extractNoteMetadata,
+  matchesProperty,
+  matchesTag,
+} from "./noteMetadata";
+import { isFileExcluded, isInFolder } from "./indexRules";
+import { getIndexableFiles, readFileContent } from "../extractors";
+import { ToolCall, ToolDefinition } from "../providers";
+
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 20;
+const MAX_RECENT_NOTES = 20;
+const EXCERPT_LENGTH = 500;
+// Longer notes are cut at a paragraph break so one read can't fill the prompt
+const MAX_NOTE_LENGTH = 8000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NOTE_TOOLS: ToolDefinition[] = [
+  {
+    name: "search_notes",
+    description:
+      "Semantic search over the user's notes. Returns the most relevant notes with an excerpt of the matching section.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "What to look for, in natural language",
+        },
+        filters: {
+          type: "object",
+          description: "Optional filters to narrow the search",
+          properties: {
+            folder: {
+              type: "string",
+              description: "Only notes inside this folder",
+            },
+            tag: {
+              type: "string",
+              description: "Only notes with this tag, e.g. #project",
+            },
+            property: {
+              type: "object",
+              description:
+                "Only notes with this frontmatter property, e.g. status: active. Without a value, notes where it is set",
+              properties: {
+                key: { type: "string", description: "Name of the property" },
+                value: {
+                  type: "string",
+                  description: "Value the property must have",
+                },
+              },
+              required: ["key"],
+            },
+            modified_after: {
+              type: "string",
+              description: "Only notes modified after this ISO date",
+            },
+            limit: {
+              type: "number",
+              description: `Maximum number of results (default ${DEFAULT_SEARCH_LIMIT})`,
+            },
+          },
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "read_note",
+    description: "Read the full content of a note by its path in the vault.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path of the note, e.g. Projects/Plan.md",
+        },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "list_recent_notes",
+    description:
+      "List notes modified within the last number of days, newest first.",
+    parameters: {
+      type: "object",
+      properties: {
+        days: {
+          type: "number",
+          description: "How many days to look back",
+        },
+      },
+      required: ["days"],
+    },
+  },
+];
+
+interface SearchFilters {
+  folder?: string;
+  tag?: string;
+  property?: PropertyFilter;
+  modified_after?: string;
+  limit?: number;
+}
+
+/**
+ * Executes the note tools the chat model can call during an agent run,
+ * backed by the vector store and the vault.
+ */
+export class NoteTools {
+  private app: App;
+  private settings: Settings;
+  private vectorStore: VectorStore;
+  private embeddingStore: EmbeddingStore;
+
+  constructor(
+    app: App,
+    settings: Settings,
+    vectorStore: VectorStore,
+    embeddingStore: EmbeddingStore,
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.vectorStore = vectorStore;
+    this.embeddingStore = embeddingStore;
+  }
+
+  get definitions(): ToolDefinition[] {
+    return NOTE_TOOLS;
+  }
+
+  // Run a tool call and return its result as text for the model. Failures
+  // are reported back to the model so it can correct itself.
+  async execute(call: ToolCall): Promise<string> {
+    logDebug(
+      this.settings,
+      `Executing tool ${call.name} with ${JSON.stringify(call.arguments)}`,
+    );
+
+    try {
+      switch (call.name) {
+        case "search_notes":
+          return await this.searchNotes(
+            String(call.arguments.query || ""),
+            call.arguments.filters || {},
+          );
+        case "read_note":
+          return await this.readNote(String(call.arguments.path || ""));
+        case "list_recent_notes":
+          return this.listRecentNotes(Number(call.arguments.days));
+        default:
+          return `Error: unknown tool "${call.name}".`;
+      }
+    } catch (error) {
+      logError(`Error executing tool ${call.name}`, error);
+      return `Error: ${error.message}`;
+    }
+  }
+
+  private async searchNotes(
+    query: string,
+    filters: SearchFilters,
+  ): Promise<string> {
+    if (!query.trim()) {
+      return "Error: query must not be empty.";
+    }
+
+    const limit = Math.min(
+      Math.max(1, Number(filters.limit) || DEFAULT_SEARCH_LIMIT),
+      MAX_SEARCH_LIMIT,
+    );
+    const modifiedAfter = filters.modified_after
+      ? Date.parse(filters.modified_after)
+      : NaN;
+
+    // Models sometimes leave out the name, which filters nothing
+    const property = filters.property?.key ? filters.property : undefined;
+
+    const processedQuery = processQuery(query, this.settings);
+    const queryEmbedding = await this.embeddingStore.generateEmbedding(query);
+
+    // Over-fetch so the checks against the vault below still leave enough
+    // results
+    const results = await this.vectorStore.search(queryEmbedding, {
+      similarity: this.settings.chatSettings.similarity,
+      limit: limit * 3,
+      searchTerms: processedQuery.expandedTokens,
+      phrases: processedQuery.phrases,
+      query,
+      tag: filters.tag,
+      property,
+      folder: filters.folder,
+      modifiedAfter: isNaN(modifiedAfter) ? undefined : modifiedAfter,
+    });
+
+    const lines: string[] = [];
+    const seen = new Set<string>();
+    for (const result of results) {
+      if (lines.length >= limit) break;
+      if (seen.has(result.path)) continue;
+      seen.add(result.path);
+
+      const file = this.app.vault.getAbstractFileByPath(result.path);
+      if (!(file instanceof TFile) || this.isExcluded(file)) continue;
+      if (filters.folder && !isInFolder(file.path, filters.folder)) continue;
+      if (filters.tag && !this.hasTag(file, filters.tag)) continue;
+      if (property && !this.hasProperty(file, property)) continue;
+      if (!isNaN(modifiedAfter) && file.stat.mtime < modifiedAfter) continue;
+
+      const chunk =
+        typeof result.chunkIndex === "number"
+          ? this.vectorStore.getChunk(file.path, result.chunkIndex)
+          : null;
+      const excerpt = chunk ? truncate(chunk.content, EXCERPT_LENGTH) : "";
+
+      lines.push(
+        `${lines.length + 1}. ${file.basename} (${file.path}), relevance ${result.score.toFixed(2)}, modified ${formatDate(file.stat.mtime)}` +
+          (excerpt ? `\n${excerpt}` : ""),
+      );
+    }
+
+    return lines.length > 0
+      ? lines.join("\n\n")
+      : `No notes found for "${query}".`;
+  }
+
+  private async readNote(path: string): Promise<string> {
+    const file =
+      this.app.vault.getAbstractFileByPath(path) ||
+      this.app.vault.getAbstractFileByPath(`${path}.md`);
+    if (!(file instanceof TFile)) {
+      return `Error: no note found at "${path}".`;
+    }
+    if (this.isExcluded(file)) {
+      return `Error: "${file.path}" is excluded from AI access by the index rules.`;
+    }
+
+    const content = await readFileContent(this.app, file);
+    if (content.length <= MAX_NOTE_LENGTH) {
+      return `# ${file.path}\n\n${content}`;
+    }
+
+    const breakAt = content.lastIndexOf("\n\n", MAX_NOTE_LENGTH);
+    const cut = breakAt > 0 ? breakAt : MAX_NOTE_LENGTH;
+    return `# ${file.path}\n\n${content.substring(0, cut)}\n\n[Note truncated, ${content.length - cut} more characters not shown]`;
+  }
+
+  private listRecentNotes(days: number): string {
+    if (!(days > 0)) {
+      return "Error: days must be a positive number.";
+    }
+
+    const since = Date.now() - days * DAY_MS;
+    const files = getIndexableFiles(this.app, this.settings.embeddingSettings)
+      .filter((file) => file.stat.mtime >= since && !this.isExcluded(file))
+      .sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+    if (files.length === 0) {
+      return `No notes were modified in the last ${days} days.`;
+    }
+
+    const lines = files
+      .slice(0, MAX_RECENT_NOTES)
+      .map((file) => `- ${file.path} (modified ${formatDate(file.stat.mtime)})`);
+    if (files.length > MAX_RECENT_NOTES) {
+      lines.push(`...and ${files.length - MAX_RECENT_NOTES} more`);
+    }
+    return lines.join("\n");
+  }
+
+  // Notes kept out of the index are kept from the model as well
+  private isExcluded(file: TFile): boolean {
+    return isFileExcluded(this.app, file, this.settings.embeddingSettings);
+  }
+
+  private hasTag(file: TFile, tag: string): boolean {
+    const cache = this.app.metadataCache.getFileCache(file);
+    return matchesTag(extractNoteMetadata(cache).tags, tag);
+  }
+
+  private hasProperty(file: TFile, property: PropertyFilter): boolean {
+    const cache = this.app.metadataCache.getFileCache(file);
+    return matchesProperty(extractNoteMetadata(cache).properties, property);
+  }
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,90 @@
+import { ChatMessage } from "../chat";
+import { ChatSettings } from "../settings";
+import { getProviderConfig } from "../providers";
+
+// Tokens most chat APIs add around every message for role and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Local servers load models with a smaller context than the model supports
+// (LM Studio and Ollama both default to a few thousand tokens)
+const DEFAULT_LOCAL_CONTEXT_WINDOW = 4096;
+const DEFAULT_CLOUD_CONTEXT_WINDOW = 8192;
+
+// Known context windows by model name prefix, most specific first
+const MODEL_CONTEXT_WINDOWS: [string, number][] = [
+  ["gpt-4.1", 1047576],
+  ["gpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4", 8192],
+  ["gpt-3.5-turbo", 16385],
+  ["gpt-5", 400000],
+  ["o1", 200000],
+  ["o3", 200000],
+  ["o4", 200000],
+  ["claude", 200000],
+];
+
+// CJK scripts are roughly one token per character
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/;
+const TOKEN_PATTERN =
+  /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]|[A-Za-z\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+|[0-9]+|[^\sA-Za-z0-9]/g;
+
+/**
+ * Approximate the number of tokens a BPE tokenizer produces for the text.
+ * Common words are a single token, longer words and numbers are split into
+ * pieces, punctuation and CJK characters count one token each. The estimate
+ * errs on the high side so prompts stay inside the context window.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const piece of text.match(TOKEN_PATTERN) || []) {
+    if (CJK_PATTERN.test(piece)) {
+      tokens += 1;
+    } else if (/^[0-9]+$/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else {
+      tokens += Math.max(1, Math.ceil(piece.length / 4));
+    }
+  }
+  return tokens;
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (total, message) =>
+      total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+    0,
+  );
+}
+
+/**
+ * Context window of the configured chat model in tokens. An explicit
+ * `contextWindow` setting wins, otherwise known cloud models are looked up
+ * by name and local servers get a conservative default.
+ */
+export function getContextWindow(chatSettings: ChatSettings): number {
+  if (chatSettings.contextWindow > 0) {
+    return chatSettings.contextWindow;
+  }
+
+  const config = getProviderConfig(chatSettings);
+  if (config.type === "local" || config.type === "ollama") {
+    return DEFAULT_LOCAL_CONTEXT_WINDOW;
+  }
+
+  const model = (config.model || "").toLowerCase();
+  const match = MODEL_CONTEXT_WINDOWS.find(([prefix]) =>
+    model.startsWith(prefix),
+  );
+  return match ? match[1] : DEFAULT_CLOUD_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens available for the prompt: the context window minus the tokens
+ * reserved for the response.
+ */
+export function getPromptBudget(chatSettings: ChatSettings): number {
+  return Math.max(0, getContextWindow(chatSettings) - chatSettings.maxTokens);
+}
@@ -3,11 +3,20 @@ import { NoteEmbedding } from "../chat";
 import { Settings } from "../settings";
 import { logDebug, logError } from "../utils";
 import { processQuery } from "../nlp";
+import { ChunkLocation } from "./markdownChunker";
+import {
+  NoteMetadata,
+  PropertyFilter,
+  matchesProperty,
+  matchesTag,
+} from "./noteMetadata";
+import { getExclusionReason, isInFolder } from "./indexRules";
 
 export interface NoteChunk {
   content: string;
   embedding: Float32Array;
   position: number;
+  location?: ChunkLocation;
 }
 
 export interface SearchOptions {
@@ -17,6 +26,15 @@ export interface SearchOptions {
   phrases?: string[];
   query?: string; // Original query for advanced processing if needed
   file?: TFile;
+  // Only notes with this tag or one nested below it. Notes indexed before
+  // their tags were recorded are kept.
+  tag?: string;
+  // Only notes with this property, kept the same way
+  property?: PropertyFilter;
+  // Only notes inside this folder
+  folder?: string;
+  // Only notes modified after this time, in milliseconds
+  modifiedAfter?: number;
 }
 
 export class VectorStore {
@@ -43,6 +61,11 @@ export class VectorStore {
     logDebug(this.settings, "Cleared vector store");
   }
 
+  // Size of the vectors accepted from now on, e.g. after switching models
+  setDimensions(dimensions: number) {
+    this.dimensions = dimensions;
+  }
+
   // Helper method to calculate recency score
   private calculateRecencyScore(mtime: number): number {
     const now = Date.now();
@@ -104,46 +127,54 @@ export class VectorStore {
     }
 
     for (const [path, noteEmbedding] of this.embeddings.entries()) {
+      const metadata = noteEmbedding.metadata;
+      if (options.tag && metadata && !matchesTag(metadata.tags, options.tag)) {
+        continue;
+      }
+      if (
+        options.property &&
+        metadata &&
+        !matchesProperty(metadata.properties, options.property)
+      ) {
+        continue;
+      }
+      if (options.folder && !isInFolder(path, options.folder)) continue;
+      // Notes excluded since they were indexed are left out until the next
+      // scan removes them
+      if (getExclusionReason(path, metadata, this.settings.embeddingSettings)) {
+        continue;
+      }
+
       let maxSimilarity = 0;
       let bestChunkIndex = -1;
 
-      // Calculate title relevance score using NLP-processed terms
-      const filename = path.split("/").pop()?.toLowerCase() || "";
-      let titleScore = 0;
-
       // Use expanded tokens for better recall if available
       const termsForTitleMatch =
         queryProcessingResult?.expandedTokens || searchTerms;
-
-      // Calculate title match score
-      titleScore = termsForTitleMatch.reduce((score, term) => {
-        // Don't try to match phrases in the title score calculation
-        if (term.includes(" ")) return score;
-
-        // Exact token match
-        if (filename.includes(term.toLowerCase())) {
-          score += this.settings.chatSettings.titleMatchBoost;
-        }
-
-        // Match word boundaries for more precise matching
-        const wordBoundaryRegex = new RegExp(`\\b${term.toLowerCase()}\\b`);
-        if (wordBoundaryRegex.test(filename)) {
-          score += this.settings.chatSettings.titleMatchBoost * 1.2; // Higher score for exact word match
-        }
-
-        return score;
-      }, 0);
-
-      // Additional boost for exact phrase matches in title
       const phrasesForMatch = queryProcessingResult?.phrases || phrases;
-      phrasesForMatch.forEach((phrase) => {
-        if (filename.includes(phrase.toLowerCase())) {
-          titleScore += this.settings.chatSettings.titleMatchBoost * 1.5; // Higher boost for phrases
-        }
-      });
+
+      // A note is named by its filename and by each of its aliases, the
+      // best matching name counts
+      const filename = path.split("/").pop()?.toLowerCase() || "";
+      const titleScore = Math.max(
+        ...[filename, ...(metadata?.aliases || [])].map((name) =>
+          this.calculateTitleScore(
+            name.toLowerCase(),
+            termsForTitleMatch,
+            phrasesForMatch,
+          ),
+        ),
+      );
 
       // Calculate recency score if we have access to the file
       const file = this.app?.vault.getAbstractFileByPath(path);
+      if (
+        options.modifiedAfter !== undefined &&
+        file instanceof TFile &&
+        file.stat.mtime < options.modifiedAfter
+      ) {
+        continue;
+      }
       const recencyScore =
         file instanceof TFile ? this.calculateRecencyScore(file.stat.ctime) : 0;
 
@@ -338,6 +369,11 @@ export class VectorStore {
     this.index.delete(path);
   }
 
+  // Tags, aliases, links and properties of a note, where recorded
+  getMetadata(path: string): NoteMetadata | undefined {
+    return this.embeddings.get(path)?.metadata;
+  }
+
   // Get a specific chunk from a note
   getChunk(path: string, chunkIndex: number): NoteChunk | null {
     const noteEmbedding = this.embeddings.get(path);
@@ -360,6 +396,46 @@ export class VectorStore {
     return noteEmbedding.chunks;
   }
 
+  /**
+   * Calculate how well a note name matches the query
+   * @param name The lowercase filename or alias
+   * @param terms Array of terms to look for
+   * @param phrases Array of phrases to look for
+   * @returns A score based on term and phrase matches
+   */
+  private calculateTitleScore(
+    name: string,
+    terms: string[],
+    phrases: string[],
+  ): number {
+    const score = terms.reduce((score, term) => {
+      // Don't try to match phrases in the title score calculation
+      if (term.includes(" ")) return score;
+
+      // Exact token match
+      if (name.includes(term.toLowerCase())) {
+        score += this.settings.chatSettings.titleMatchBoost;
+      }
+
+      // Match word boundaries for more precise matching
+      const wordBoundaryRegex = new RegExp(`\\b${term.toLowerCase()}\\b`);
+      if (wordBoundaryRegex.test(name)) {
+        score += this.settings.chatSettings.titleMatchBoost * 1.2; // Higher score for exact word match
+      }
+
+      return score;
+    }, 0);
+
+    // Additional boost for exact phrase matches in title
+    return phrases.reduce(
+      (score, phrase) =>
+        name.includes(phrase.toLowerCase())
+          ? score + this.settings.chatSettings.titleMatchBoost * 1.5 // Higher boost for phrases
+          : score,
+      score,
+    );
+  }
+
   /**
    * Calculate score for exact phrase matches
    * @param content The content to check for phrase matches
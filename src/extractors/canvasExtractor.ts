@@ -0,0 +1,137 @@
+import { ContentExtractor } from "./types";
+
+// The parts of the JSON Canvas format that carry text
+interface CanvasNode {
+  id: string;
+  type: "text" | "file" | "link" | "group";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+}
+
+interface CanvasEdge {
+  fromNode: string;
+  toNode: string;
+  label?: string;
+}
+
+// Longest card text used to name a card in a connection
+const CARD_NAME_LENGTH = 40;
+
+/**
+ * Flattens a canvas into Markdown: its cards in reading order, grouped under
+ * the labels of the groups they are in, followed by the labelled
+ * connections between cards. File cards become embeds of the note they show.
+ */
+export const canvasExtractor: ContentExtractor = {
+  label: "Canvas",
+  extract(content) {
+    if (!content.trim()) return "";
+    // A canvas that is still being written or synced is skipped like an
+    // empty one until it changes again
+    let canvas;
+    try {
+      canvas = JSON.parse(content);
+    } catch (e) {
+      return "";
+    }
+    const nodes: CanvasNode[] = (canvas.nodes || []).slice();
+    const edges: CanvasEdge[] = canvas.edges || [];
+    nodes.sort((a, b) => a.y - b.y || a.x - b.x);
+
+    const groups = nodes.filter((node) => node.type === "group");
+    const cards = nodes.filter((node) => node.type !== "group");
+    const ungrouped: string[] = [];
+    const grouped = new Map<CanvasNode, string[]>();
+    groups.forEach((group) => grouped.set(group, []));
+    for (const card of cards) {
+      const text = cardText(card);
+      if (!text) continue;
+      const group = innermostGroup(card, groups);
+      if (group) {
+        grouped.get(group)?.push(text);
+      } else {
+        ungrouped.push(text);
+      }
+    }
+
+    const sections = [ungrouped.join("\n\n")];
+    grouped.forEach((texts, group) => {
+      if (texts.length === 0) return;
+      const heading = group.label?.trim();
+      sections.push(
+        heading ? `## ${heading}\n\n${texts.join("\n\n")}` : texts.join("\n\n"),
+      );
+    });
+
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    const connections = edges
+      .filter((edge) => edge.label?.trim())
+      .map((edge) => {
+        const from = byId.get(edge.fromNode);
+        const to = byId.get(edge.toNode);
+        if (!from || !to) return "";
+        return `- ${cardName(from)} → ${cardName(to)}: ${edge.label?.trim()}`;
+      })
+      .filter((line) => line);
+    if (connections.length > 0) {
+      sections.push(`## Connections\n\n${connections.join("\n")}`);
+    }
+
+    return sections.filter((section) => section).join("\n\n");
+  },
+};
+
+function cardText(node: CanvasNode): string {
+  switch (node.type) {
+    case "text":
+      return (node.text || "").trim();
+    case "file":
+      return node.file ? `![[${node.file}${node.subpath || ""}]]` : "";
+    case "link":
+      return node.url || "";
+    default:
+      return "";
+  }
+}
+
+// Short name of a card, for the connections
+function cardName(node: CanvasNode): string {
+  if (node.type === "group") return node.label?.trim() || "group";
+  if (node.type === "file") return node.file || "file";
+  const text = cardText(node)
+    .split("\n")[0]
+    .replace(/^#+\s*/, "");
+  return text.length > CARD_NAME_LENGTH
+    ? `${text.slice(0, CARD_NAME_LENGTH)}...`
+    : text;
+}
+
+// The smallest group the node lies inside, as groups may be nested
+function innermostGroup(
+  node: CanvasNode,
+  groups: CanvasNode[],
+): CanvasNode | undefined {
+  let innermost: CanvasNode | undefined;
+  for (const group of groups) {
+    const contains =
+      node.x >= group.x &&
+      node.y >= group.y &&
+      node.x + node.width <= group.x + group.width &&
+      node.y + node.height <= group.y + group.height;
+    if (
+      contains &&
+      (!innermost ||
+        group.width * group.height < innermost.width * innermost.height)
+    ) {
+      innermost = group;
+    }
+  }
+  return innermost;
+}
@@ -0,0 +1,85 @@
+import { ContentExtractor } from "./types";
+
+const DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Turns a table exported as CSV into a list with one item per row, each
+ * value named by its column, so that every chunk of a long table still says
+ * what its numbers mean
+ */
+export const csvExtractor: ContentExtractor = {
+  label: "CSV",
+  extract(content) {
+    const rows = parseCsv(
+      content.replace(/^\uFEFF/, ""),
+      detectDelimiter(content),
+    );
+    if (rows.length === 0) return "";
+
+    const columns = rows[0].map(
+      (column, i) => column.trim() || `Column ${i + 1}`,
+    );
+    const items = rows.slice(1).map((row) =>
+      row
+        .map((value, i) =>
+          value.trim()
+            ? `${columns[i] || `Column ${i + 1}`}: ${value.trim()}`
+            : "",
+        )
+        .filter((field) => field)
+        .join("; "),
+    );
+    return [
+      `Columns: ${columns.join(", ")}`,
+      ...items.filter((item) => item).map((item) => `- ${item}`),
+    ].join("\n");
+  },
+};
+
+// The delimiter found most often in the header line
+function detectDelimiter(content: string): string {
+  const header = content.split("\n")[0];
+  const counts = DELIMITERS.map(
+    (delimiter) => header.split(delimiter).length - 1,
+  );
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+// Rows of fields, with quoted fields that may hold delimiters, doubled
+// quotes and line breaks
+function parseCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((value) => value.trim())) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value.trim())) rows.push(row);
+  return rows;
+}
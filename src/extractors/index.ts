@@ -0,0 +1,80 @@
+import { App, TAbstractFile, TFile } from "obsidian";
+import { EmbeddingSettings } from "../settings";
+import { canvasExtractor } from "./canvasExtractor";
+import { csvExtractor } from "./csvExtractor";
+import { ContentExtractor } from "./types";
+
+export type { ContentExtractor } from "./types";
+
+const textExtractor: ContentExtractor = {
+  label: "Plain text",
+  extract: (content) => content,
+};
+
+// Keyed by file extension, each enabled separately in the settings
+const EXTRACTORS: Record<string, ContentExtractor> = {
+  canvas: canvasExtractor,
+  txt: textExtractor,
+  csv: csvExtractor,
+};
+
+export function registerContentExtractor(
+  extension: string,
+  extractor: ContentExtractor,
+) {
+  EXTRACTORS[extension.toLowerCase()] = extractor;
+}
+
+export function getContentExtractors(): Record<string, ContentExtractor> {
+  return { ...EXTRACTORS };
+}
+
+// Extractor of a file, or undefined for Markdown notes and unknown types
+export function getContentExtractor(file: TFile): ContentExtractor | undefined {
+  const extension = file.extension.toLowerCase();
+  return extension === "md" ? undefined : EXTRACTORS[extension];
+}
+
+// Markdown notes, and files whose extractor is enabled
+export function isIndexableFile(
+  file: TAbstractFile | null,
+  settings: EmbeddingSettings,
+): file is TFile {
+  return file instanceof TFile && isIndexableType(file, settings);
+}
+
+export function isIndexableType(
+  file: TFile,
+  settings: EmbeddingSettings,
+): boolean {
+  if (file.extension === "md") return true;
+  return (
+    !!getContentExtractor(file) &&
+    !!settings.extractors?.[file.extension.toLowerCase()]
+  );
+}
+
+export function getIndexableFiles(
+  app: App,
+  settings: EmbeddingSettings,
+): TFile[] {
+  const files = app.vault.getMarkdownFiles();
+  // Listing every file of the vault is only worth it with an extractor on
+  if (!Object.values(settings.extractors || {}).some((enabled) => enabled)) {
+    return files;
+  }
+  return files.concat(
+    app.vault
+      .getFiles()
+      .filter(
+        (file) => file.extension !== "md" && isIndexableFile(file, settings),
+      ),
+  );
+}
+
+// The text of a file as it is embedded and shown to the model
+export async function readFileContent(app: App, file: TFile): Promise<string> {
+  const content = await app.vault.cachedRead(file);
+  const extractor = getContentExtractor(file);
+  return extractor ? extractor.extract(content) : content;
+}
@@ -0,0 +1,9 @@
+/**
+ * Turns the content of a file other than a Markdown note into text that can
+ * be chunked, embedded and given to the model, written as Markdown
+ */
+export interface ContentExtractor {
+  // Name of the file type, shown in the settings and next to matching files
+  label: string;
+  extract(content: string): string;
+}
@@ -1,7 +1,10 @@
 import { Settings } from "./settings";
 import { logDebug, logError } from "./utils";
-import { globalEmbeddingStore, isGloballyInitialized, globalInitializationPromise } from "./chat/embeddingStore";
-import { TFile, App } from "obsidian";
+import { globalEmbeddingStore, isGloballyInitialized, globalInitializationPromise, formatRetryStatus } from "./chat/embeddingStore";
+import { NoteContent } from "./chat/indexingQueue";
+import { formatRun, globalUsageTracker } from "./usageTracker";
+import { getIndexableFiles, isIndexableFile, readFileContent } from "./extractors";
+import { TFile, App, CachedMetadata } from "obsidian";
 import { Notice } from "obsidian";
 
 // Custom debounce implementation with flush method
@@ -130,17 +133,17 @@ export class FileUpdateManager {
 
 				// Update: Process files sequentially or in parallel based on context
 				if (isGloballyInitialized) {
-					// Use Promise.all for parallel processing when embedding store is initialized
+					// Queue all files at once, the indexing queue limits how many requests run in parallel
 					await Promise.all(filesToUpdate.map(async path => {
 						// Remove from tracking
 						this.deleteModifiedFile(path);
 
 						// Get the file and reindex
 						const file = this.app.vault.getAbstractFileByPath(path);
-						if (file instanceof TFile && file.extension === 'md') {
+						if (isIndexableFile(file, this.settings.embeddingSettings)) {
 							await this.reindexFile(file);
 						} else {
-							logError(`File not found or not a markdown file: ${path}`);
+							logError(`File not found or not an indexed file type: ${path}`);
 						}
 					}));
 				} else {
@@ -151,10 +154,10 @@ export class FileUpdateManager {
 
 						// Get the file and reindex
 						const file = this.app.vault.getAbstractFileByPath(path);
-						if (file instanceof TFile && file.extension === 'md') {
+						if (isIndexableFile(file, this.settings.embeddingSettings)) {
 							await this.reindexFile(file);
 						} else {
-							logError(`File not found or not a markdown file: ${path}`);
+							logError(`File not found or not an indexed file type: ${path}`);
 						}
 					}
 				}
@@ -181,8 +184,16 @@ export class FileUpdateManager {
 		}
 
 		try {
+			// Moving a note to an excluded folder or tagging it to be left out
+			// removes it from the index
+			if (globalEmbeddingStore.isExcluded(file)) {
+				logDebug(this.settings, `${file.path} is excluded from the index, not reindexing it`);
+				await this.removeExcludedFile(file.path);
+				return;
+			}
+
 			logDebug(this.settings, `Starting to reindex file: ${file.path}`);
-			const content = await this.app.vault.cachedRead(file);
+			const content = await readFileContent(this.app, file);
 
 			// Skip empty or very short files
 			if (!content || content.trim().length < 50) {
@@ -190,15 +201,7 @@ export class FileUpdateManager {
 				return;
 			}
 
-			// Remove the old embedding first to ensure it's fully updated
-			try {
-				logDebug(this.settings, `Removing old embedding for ${file.path} before reindexing`);
-				globalEmbeddingStore.removeNote(file.path);
-			} catch (e) {
-				logDebug(this.settings, `No existing embedding found for ${file.path}, creating new one`);
-			}
-
-			// Add the new embedding
+			// Only chunks that changed since the note was last indexed are embedded again
 			await globalEmbeddingStore.addNote(file, content);
 
 			// Save the updated embeddings to disk
@@ -225,12 +228,28 @@ export class FileUpdateManager {
 			return;
 		}
 
-		// Get all markdown files
-		const files = this.app.vault.getMarkdownFiles();
-		logDebug(this.settings, `Found ${files.length} markdown files to index`);
+		// Get all markdown files the index rules allow, and remove the others
+		// from the index
+		const files: TFile[] = [];
+		let excludedCount = 0;
+		for (const file of getIndexableFiles(this.app, this.settings.embeddingSettings)) {
+			if (!globalEmbeddingStore.isExcluded(file)) {
+				files.push(file);
+			} else if (globalEmbeddingStore.getEmbedding(file.path)) {
+				globalEmbeddingStore.removeNote(file.path);
+				excludedCount++;
+			}
+		}
+		logDebug(this.settings, `Found ${files.length} markdown files to index, removed ${excludedCount} excluded files`);
+		const removed = excludedCount > 0 ? `, removed ${excludedCount} excluded files` : '';
 
 		if (files.length === 0) {
-			new Notice('No markdown files found in your vault.');
+			new Notice(`No markdown files found in your vault${removed}.`);
+			if (excludedCount > 0) {
+				globalEmbeddingStore.saveToFile().catch(error => {
+					logError('Error saving embeddings to disk', error);
+				});
+			}
 			return;
 		}
 
@@ -241,54 +260,78 @@ export class FileUpdateManager {
 
 		// Process files in batches to avoid UI blocking
 		let processedCount = 0;
+		let failedCount = 0;
+		globalEmbeddingStore.setRetryListener((event) => {
+			progressElement.setText(`Indexing files: ${processedCount}/${files.length} (${formatRetryStatus(event)})`);
+		});
+		const usageRun = globalUsageTracker?.startRun();
 		const processFiles = (batch: TFile[], startIndex: number) => {
 			Promise.all(batch.map(async (file) => {
 				try {
-					const content = await this.app.vault.cachedRead(file);
+					const content = await readFileContent(this.app, file);
 
 					// Skip empty or very short files
 					if (!content || content.trim().length < 50) {
 						logDebug(this.settings, `File ${file.path} is too short to generate meaningful embeddings (${content.length} chars). Skipping.`);
 						processedCount++;
-						return;
+						return null;
 					}
-
-					await globalEmbeddingStore?.addNote(file, content);
-					processedCount++;
+					return { file, content };
 				} catch (error) {
-					logError(`Error indexing file ${file.path}`, error);
-					processedCount++; // Still count as processed even if it fails
+					logError(`Error reading file ${file.path}`, error);
+					processedCount++; // Still advance progress, but report the failure
+					failedCount++;
+					return null;
 				}
-			})).then(() => {
+			})).then(async (notes) => {
+				// Chunks of the whole batch share embedding requests
+				const failures = await globalEmbeddingStore?.addNotes(
+					notes.filter((note): note is NoteContent => note !== null),
+					() => processedCount++
+				);
+				failedCount += failures?.length ?? 0;
+			}).catch(error => {
+				logError('Error indexing files', error);
+			}).then(() => {
 				// Update notice with current progress
-				progressElement.setText(`Indexing files: ${processedCount}/${files.length}`);
+				progressElement.setText(failedCount > 0
+					? `Indexing files: ${processedCount}/${files.length} (${failedCount} failed)`
+					: `Indexing files: ${processedCount}/${files.length}`);
 
 				// Process next batch
 				const nextStartIndex = startIndex + batch.length;
 				if (nextStartIndex < files.length) {
-					const nextBatch = files.slice(nextStartIndex, nextStartIndex + 10);
+					const nextBatch = files.slice(nextStartIndex, nextStartIndex + 25);
 					setTimeout(() => processFiles(nextBatch, nextStartIndex), 50);
 				} else {
 					// Show completion notification
 					progressNotice.hide(); // Hide the progress notification
+					globalEmbeddingStore?.setRetryListener(undefined);
+					if (usageRun) globalUsageTracker?.finishRun(usageRun);
+					const indexedCount = processedCount - failedCount;
+					const usage = formatRun(usageRun);
 
 					// Save embeddings to disk
 					if (globalEmbeddingStore) {
 						globalEmbeddingStore.saveToFile().then(() => {
-							new Notice(`Completed indexing ${processedCount} files for AI search`, 3000);
+							if (failedCount > 0) {
+								new Notice(`Indexed ${indexedCount} files for AI search${usage}${removed}, ${failedCount} failed. Check the console for details.`, 10000);
+							} else {
+								new Notice(`Completed indexing ${indexedCount} files for AI search${usage}${removed}`, 3000);
+							}
 						}).catch(error => {
 							logError('Error saving embeddings to disk', error);
 							new Notice(`Error saving embeddings: ${error.message}`, 5000);
 						});
 					} else {
-						new Notice(`Completed indexing ${processedCount} files for AI search, but embeddings store is not initialized`, 3000);
+						new Notice(`Completed indexing ${indexedCount} files for AI search, but embeddings store is not initialized`, 3000);
 					}
 				}
 			});
 		};
 
-		// Start processing files in batches of 10
-		const firstBatch = files.slice(0, 10);
+		// Start processing files in batches of 25
+		const firstBatch = files.slice(0, 25);
 		processFiles(firstBatch, 0);
 	}
 
@@ -307,6 +350,42 @@ export class FileUpdateManager {
 		}
 	}
 
+	// Remove a note the index rules exclude, and keep one that is being
+	// embedded right now from being stored
+	private async removeExcludedFile(filePath: string) {
+		if (!globalEmbeddingStore) return;
+
+		const wasIndexed = !!globalEmbeddingStore.getEmbedding(filePath);
+		globalEmbeddingStore.removeNote(filePath);
+		if (!wasIndexed) return;
+
+		await globalEmbeddingStore.saveToFile();
+		logDebug(this.settings, `Removed excluded file ${filePath} from index`);
+	}
+
+	// Store the tags, aliases, links and properties Obsidian parsed from a
+	// note, without embedding it again
+	async updateMetadata(file: TFile, cache: CachedMetadata) {
+		if (!globalEmbeddingStore || this.settings.embeddingSettings.updateMode === 'none') {
+			return;
+		}
+
+		try {
+			// A new tag or "ai-index: false" can exclude the note
+			if (globalEmbeddingStore.isExcluded(file)) {
+				await this.removeExcludedFile(file.path);
+				return;
+			}
+
+			if (globalEmbeddingStore.updateMetadata(file, cache)) {
+				await globalEmbeddingStore.saveToFile();
+				logDebug(this.settings, `Updated the metadata of ${file.path}`);
+			}
+		} catch (error) {
+			logError(`Error updating the metadata of ${file.path}`, error);
+		}
+	}
+
 	// Helper method to update debounce settings when file update frequency changes
 	updateDebounceSettings() {
 		// Recreate the debounced function with the new timing
@@ -1,18 +1,23 @@
-import { Editor, MarkdownView, Notice, Plugin, TFile } from 'obsidian';
+import { Editor, MarkdownView, Notice, Plugin } from 'obsidian';
 import { AI_CHAT_VIEW_TYPE, AIHelperChatView, openAIChat } from './chat';
 import { DEFAULT_SETTINGS, Settings, AIHelperSettingTab } from './settings';
 import { summarizeSelection } from './summarize';
 import { logDebug } from './utils';
-import { isGloballyInitialized, globalInitializationPromise, initializeEmbeddingSystem } from './chat/embeddingStore';
+import { isGloballyInitialized, globalInitializationPromise, globalEmbeddingStore, initializeEmbeddingSystem } from './chat/embeddingStore';
+import { IndexRebuildModal } from './chat/indexRebuild';
 import { FileUpdateManager } from './fileUpdateManager';
+import { isIndexableFile } from './extractors';
+import { globalUsageTracker, initializeUsageTracker } from './usageTracker';
 
 export default class AIHelperPlugin extends Plugin {
 	settings: Settings;
 	private indexingCompleteListener: (e: CustomEvent) => void;
+	private modelMismatchListener: () => void;
 	private fileUpdateManager: FileUpdateManager;
 
 	async onload() {
 		await this.loadSettings();
+		initializeUsageTracker(this.settings, this.app);
 		this.fileUpdateManager = new FileUpdateManager(this.settings, this.app);
 		// Register the AI Chat view
 		this.registerView(
@@ -47,6 +52,15 @@ export default class AIHelperPlugin extends Plugin {
 			}
 		});
 
+		// Add a command to rebuild the index with the selected embedding model
+		this.addCommand({
+			id: 'rebuild-embedding-index',
+			name: 'Rebuild AI index with the selected embedding model',
+			callback: () => {
+				new IndexRebuildModal(this.app, this.settings).open();
+			}
+		});
+
 		// Add a command to manually process pending file updates
 		this.addCommand({
 			id: 'process-pending-updates',
@@ -80,13 +94,19 @@ export default class AIHelperPlugin extends Plugin {
 			})
 		);
 
+		// Offer a rebuild when the saved index was made with another model
+		this.modelMismatchListener = () => {
+			new IndexRebuildModal(this.app, this.settings).open();
+		};
+		document.addEventListener('ai-helper-index-model-mismatch', this.modelMismatchListener);
+
 		// Only set up file monitoring if update mode is 'onUpdate'
 		if (this.settings.embeddingSettings.updateMode === 'onUpdate') {
 			// Register for vault changes to ensure we catch all files
 			this.registerEvent(
 				this.app.vault.on('create', (file) => {
-					if (file instanceof TFile && file.extension === 'md') {
-						logDebug(this.settings, `New markdown file created: ${file.path}. Will add to index.`);
+					if (isIndexableFile(file, this.settings.embeddingSettings)) {
+						logDebug(this.settings, `New file created: ${file.path}. Will add to index.`);
 						this.fileUpdateManager.reindexFile(file);
 					}
 				})
@@ -95,8 +115,9 @@ export default class AIHelperPlugin extends Plugin {
 			// Register for file deletion events to remove embeddings
 			this.registerEvent(
 				this.app.vault.on('delete', (file) => {
-					if (file instanceof TFile && file.extension === 'md') {
-						logDebug(this.settings, `Markdown file deleted: ${file.path}. Removing from index.`);
+					// Also files of a type that is no longer indexed, but still is in the index
+					if (isIndexableFile(file, this.settings.embeddingSettings) || this.isInIndex(file.path)) {
+						logDebug(this.settings, `File deleted: ${file.path}. Removing from index.`);
 						this.fileUpdateManager.removeFileFromIndex(file.path);
 						this.fileUpdateManager.deleteModifiedFile(file.path); // Clean up from modified files tracking
 					}
@@ -106,13 +127,20 @@ export default class AIHelperPlugin extends Plugin {
 			// Also register for file rename events
 			this.registerEvent(
 				this.app.vault.on('rename', (file, oldPath) => {
-					if (file instanceof TFile && file.extension === 'md') {
-						logDebug(this.settings, `Markdown file renamed from ${oldPath} to ${file.path}. Updating index.`);
+					const indexable = isIndexableFile(file, this.settings.embeddingSettings);
+					// The old path goes whatever the type, e.g. when a.txt became a.csv
+					if (indexable || this.isInIndex(oldPath)) {
+						logDebug(this.settings, `File renamed from ${oldPath} to ${file.path}. Updating index.`);
 						this.fileUpdateManager.removeFileFromIndex(oldPath);
+					}
+					if (indexable) {
+						// Not indexed again when moved to an excluded path
 						this.fileUpdateManager.reindexFile(file);
 
 						// Update tracking if the file was in the modified list
 						this.fileUpdateManager.transferModifiedFile(oldPath, file.path);
+					} else {
+						this.fileUpdateManager.deleteModifiedFile(oldPath);
 					}
 				})
 			);
@@ -120,7 +148,7 @@ export default class AIHelperPlugin extends Plugin {
 			// Register for file modification events
 			this.registerEvent(
 				this.app.vault.on('modify', (file) => {
-					if (file instanceof TFile && file.extension === 'md') {
+					if (isIndexableFile(file, this.settings.embeddingSettings)) {
 						// Track the modification time
 						const now = Date.now();
 						logDebug(this.settings, `File modified: ${file.path} at ${new Date(now).toLocaleTimeString()}`);
@@ -142,6 +170,16 @@ export default class AIHelperPlugin extends Plugin {
 				})
 			);
 
+			// Tags, aliases, links and properties are parsed after the file is
+			// saved, and can change without the text being indexed again
+			this.registerEvent(
+				this.app.metadataCache.on('changed', (file, _data, cache) => {
+					if (file.extension === 'md') {
+						this.fileUpdateManager.updateMetadata(file, cache);
+					}
+				})
+			);
+
 			// Set up periodic checking for modified files
 			// The interval will be twice the user-defined file update frequency
 			const checkInterval = this.fileUpdateManager.getPeriodicCheckInterval();
@@ -209,10 +247,14 @@ export default class AIHelperPlugin extends Plugin {
 		// Process any pending file updates before unloading
 		this.fileUpdateManager.processPendingFileUpdates.flush();
 
+		// Write usage recorded since the last save
+		globalUsageTracker?.flush();
+
 		// Clean up event listener
 		if (this.indexingCompleteListener) {
 			document.removeEventListener('ai-helper-indexing-complete', this.indexingCompleteListener);
 		}
+		document.removeEventListener('ai-helper-index-model-mismatch', this.modelMismatchListener);
 
 		// Detach any active views when the plugin is unloaded
 		this.app.workspace.detachLeavesOfType(AI_CHAT_VIEW_TYPE);
@@ -220,6 +262,9 @@ export default class AIHelperPlugin extends Plugin {
 
 	async loadSettings() {
 		const savedData = await this.loadData();
+		// Earlier versions had a Dimensions setting, the index now takes the
+		// size its model returns
+		delete savedData?.embeddingSettings?.dimensions;
 		this.settings = {
 			...DEFAULT_SETTINGS,
 			chatSettings: {
@@ -236,7 +281,11 @@ export default class AIHelperPlugin extends Plugin {
 			},
 			openChatOnStartup: savedData?.openChatOnStartup ?? DEFAULT_SETTINGS.openChatOnStartup,
 			debugMode: savedData?.debugMode ?? DEFAULT_SETTINGS.debugMode,
-			fileUpdateFrequency: savedData?.fileUpdateFrequency ?? DEFAULT_SETTINGS.fileUpdateFrequency
+			fileUpdateFrequency: savedData?.fileUpdateFrequency ?? DEFAULT_SETTINGS.fileUpdateFrequency,
+			maxRetries: savedData?.maxRetries ?? DEFAULT_SETTINGS.maxRetries,
+			retryBaseDelay: savedData?.retryBaseDelay ?? DEFAULT_SETTINGS.retryBaseDelay,
+			modelPrices: savedData?.modelPrices ?? DEFAULT_SETTINGS.modelPrices,
+			monthlyBudget: savedData?.monthlyBudget ?? DEFAULT_SETTINGS.monthlyBudget
 		};
 	}
 
@@ -251,4 +300,9 @@ export default class AIHelperPlugin extends Plugin {
 	public rescanVaultFiles(): void {
 		this.fileUpdateManager.rescanVaultFiles();
 	}
+
+	// Whether the index holds vectors for the path
+	private isInIndex(path: string): boolean {
+		return !!globalEmbeddingStore?.getEmbedding(path);
+	}
 }
@@ -0,0 +1,189 @@
+import { ChatMessage } from "../chat";
+import { BaseProvider } from "./baseProvider";
+import { ServerSentEvent } from "./sse";
+import {
+  CompletionRequest,
+  ProviderError,
+  StreamEvent,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+
+const ANTHROPIC_API_VERSION = "2023-06-01";
+
+/**
+ * Anthropic Messages API. The system prompt travels in a top-level field and
+ * streams arrive as typed SSE events.
+ */
+export class AnthropicProvider extends BaseProvider {
+  readonly label = "Anthropic";
+
+  validate(): void {
+    super.validate();
+    if (!this.config.apiKey) {
+      throw new ProviderError(
+        "Anthropic API key is missing. Please configure it in the settings.",
+        this.type,
+      );
+    }
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": this.config.apiKey as string,
+      "anthropic-version": ANTHROPIC_API_VERSION,
+      // Obsidian runs in a browser context, which Anthropic rejects by default
+      "anthropic-dangerous-direct-browser-access": "true",
+    };
+  }
+
+  protected buildCompletionBody(
+    request: CompletionRequest,
+    stream: boolean,
+  ): Record<string, unknown> {
+    // The Messages API only accepts user and assistant turns in messages
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: formatMessages(
+        request.messages.filter((m) => m.role !== "system"),
+      ),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream,
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (request.tools?.length) {
+      body.tools = request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+      body.tool_choice = { type: request.toolChoice || "auto" };
+    }
+    return body;
+  }
+
+  protected parseCompletion(data: any): string | undefined {
+    if (!Array.isArray(data?.content)) return undefined;
+    return data.content
+      .filter((block: { type: string }) => block.type === "text")
+      .map((block: { text: string }) => block.text)
+      .join("");
+  }
+
+  // Extended thinking arrives in thinking blocks
+  protected parseReasoning(data: any): string | undefined {
+    if (!Array.isArray(data?.content)) return undefined;
+    return (
+      data.content
+        .filter((block: { type: string }) => block.type === "thinking")
+        .map((block: { thinking: string }) => block.thinking)
+        .join("") || undefined
+    );
+  }
+
+  protected parseUsage(data: any): TokenUsage | undefined {
+    if (!data?.usage) return undefined;
+    return {
+      inputTokens: data.usage.input_tokens || 0,
+      outputTokens: data.usage.output_tokens || 0,
+    };
+  }
+
+  protected parseToolCalls(data: any): ToolCall[] {
+    if (!Array.isArray(data?.content)) return [];
+    return data.content
+      .filter((block: { type: string }) => block.type === "tool_use")
+      .map((block: any) => ({
+        id: block.id,
+        name: block.name,
+        arguments: block.input || {},
+      }));
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent): StreamEvent | null {
+    // Events carry their type in the payload as well as the event: field
+    const data = JSON.parse(event.data);
+    switch (event.event === "message" ? data.type : event.event) {
+      case "message_start":
+        return {
+          usage: { inputTokens: data.message?.usage?.input_tokens },
+        };
+      case "content_block_delta":
+        return { content: data.delta?.text, reasoning: data.delta?.thinking };
+      case "message_delta":
+        // Output tokens are cumulative for the whole message
+        return { usage: { outputTokens: data.usage?.output_tokens } };
+      case "message_stop":
+        return { done: true };
+      case "error":
+        throw new ProviderError(
+          `Anthropic stream error: ${data.error?.message || "unknown error"}`,
+          this.type,
+        );
+      default:
+        return null;
+    }
+  }
+
+  protected buildEmbeddingBody(inputs: string[]): Record<string, unknown> {
+    throw new ProviderError(
+      "Anthropic does not provide an embeddings API. Choose another embedding provider.",
+      this.type,
+    );
+  }
+
+  protected parseEmbeddings(data: any): number[][] | undefined {
+    return undefined;
+  }
+}
+
+/**
+ * Tool calls become tool_use blocks of the assistant turn, and results are
+ * tool_result blocks of the next user turn. Consecutive results must share
+ * one user message.
+ */
+function formatMessages(messages: ChatMessage[]): Record<string, unknown>[] {
+  const formatted: Record<string, any>[] = [];
+
+  for (const message of messages) {
+    if (message.role === "tool") {
+      const result = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      const previous = formatted[formatted.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(result);
+      } else {
+        formatted.push({ role: "user", content: [result] });
+      }
+    } else if (message.toolCalls?.length) {
+      const blocks: Record<string, unknown>[] = message.content
+        ? [{ type: "text", text: message.content }]
+        : [];
+      for (const call of message.toolCalls) {
+        blocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        });
+      }
+      formatted.push({ role: "assistant", content: blocks });
+    } else {
+      formatted.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return formatted;
+}
@@ -0,0 +1,71 @@
+import { OpenAIProvider } from "./openaiProvider";
+import { CompletionRequest, ProviderError, RequestOperation } from "./types";
+
+/**
+ * Azure OpenAI deployments. The wire format is OpenAI's, but requests go to
+ * a deployment URL with an api-version parameter and authenticate with an
+ * api-key header. The configured model is the deployment name.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  get label(): string {
+    return "Azure OpenAI";
+  }
+
+  validate(): void {
+    if (!this.config.apiUrl) {
+      throw new ProviderError(
+        "Azure OpenAI endpoint is missing. Please configure it in the settings.",
+        this.type,
+      );
+    }
+    if (!this.config.model) {
+      throw new ProviderError(
+        "Azure OpenAI deployment is missing. Please configure it in the settings.",
+        this.type,
+      );
+    }
+    if (!this.config.apiKey) {
+      throw new ProviderError(
+        "Azure OpenAI API key is missing. Please configure it in the settings.",
+        this.type,
+      );
+    }
+  }
+
+  // The data plane can't list deployments, so there are no suggestions
+  async listModels(): Promise<string[]> {
+    return [];
+  }
+
+  protected buildUrl(operation: RequestOperation): string {
+    const endpoint = (this.config.apiUrl as string).replace(/\/+$/, "");
+    const path = operation === "chat" ? "chat/completions" : "embeddings";
+    const url = `${endpoint}/openai/deployments/${encodeURIComponent(this.config.model as string)}/${path}`;
+    return this.config.apiVersion
+      ? `${url}?api-version=${encodeURIComponent(this.config.apiVersion)}`
+      : url;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "api-key": this.config.apiKey as string,
+    };
+  }
+
+  // The deployment decides the model, so none is sent
+  protected buildCompletionBody(
+    request: CompletionRequest,
+    stream: boolean,
+  ): Record<string, unknown> {
+    const body = super.buildCompletionBody(request, stream);
+    delete body.model;
+    return body;
+  }
+
+  protected buildEmbeddingBody(inputs: string[]): Record<string, unknown> {
+    const body = super.buildEmbeddingBody(inputs);
+    delete body.model;
+    return body;
+  }
+}
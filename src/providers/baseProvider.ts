@@ -0,0 +1,430 @@
+import { requestUrl } from "obsidian";
+import { ProviderType, Settings } from "../settings";
+import { logDebug, logError } from "../utils";
+import { checkBudget } from "../usageTracker";
+import { RetryListener, parseRetryAfter, withRetry } from "./retry";
+import { withTimeout } from "./timeout";
+import { SSEParser, ServerSentEvent, StreamParser } from "./sse";
+import { ReasoningSplit, ThinkTagParser, splitReasoning } from "./reasoning";
+import {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingResult,
+  LLMProvider,
+  ProviderConfig,
+  ProviderError,
+  RequestOperation,
+  StreamEvent,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+
+// Error responses can be whole HTML pages
+const MAX_ERROR_DETAIL_LENGTH = 300;
+
+/**
+ * Shared HTTP plumbing for providers. Subclasses describe their wire format
+ * (headers, request bodies and response shapes) and inherit the transport.
+ */
+export abstract class BaseProvider implements LLMProvider {
+  abstract readonly label: string;
+  protected config: ProviderConfig;
+  protected settings: Settings;
+  // Notified before a failed request is retried
+  onRetry?: RetryListener;
+
+  constructor(config: ProviderConfig, settings: Settings) {
+    this.config = config;
+    this.settings = settings;
+  }
+
+  get type(): ProviderType {
+    return this.config.type;
+  }
+
+  get model(): string | undefined {
+    return this.config.model;
+  }
+
+  // Provider and model, as shown to the user
+  get description(): string {
+    return this.model ? `${this.label} (${this.model})` : this.label;
+  }
+
+  protected abstract buildHeaders(): Record<string, string>;
+
+  // Endpoint of a request, the configured API URL unless the provider
+  // derives it from the configuration. Models are listed next to the
+  // configured endpoint, e.g. /v1/models for /v1/chat/completions.
+  protected buildUrl(operation: RequestOperation): string {
+    const apiUrl = this.config.apiUrl as string;
+    if (operation !== "models") return apiUrl;
+    return `${apiUrl.replace(/\/+$/, "").replace(/\/(chat\/completions|completions|embeddings|messages)$/, "")}/models`;
+  }
+
+  // Model names in a models response, OpenAI's list format by default
+  protected parseModels(data: any): string[] {
+    if (!Array.isArray(data?.data)) return [];
+    return data.data
+      .map((model: { id?: string }) => model.id)
+      .filter((id: unknown): id is string => typeof id === "string");
+  }
+
+  protected abstract buildCompletionBody(
+    request: CompletionRequest,
+    stream: boolean,
+  ): Record<string, unknown>;
+
+  protected abstract parseCompletion(data: any): string | undefined;
+
+  // Reasoning that the API returns separately from the answer
+  protected parseReasoning(data: any): string | undefined {
+    return undefined;
+  }
+
+  // Tool calls requested in a non-streaming response
+  protected abstract parseToolCalls(data: any): ToolCall[];
+
+  // Token usage of a completion or embeddings response
+  protected abstract parseUsage(data: any): TokenUsage | undefined;
+
+  protected abstract parseStreamEvent(
+    event: ServerSentEvent,
+  ): StreamEvent | null;
+
+  // Streams are Server-Sent Events unless the provider uses another framing
+  protected createStreamParser(): StreamParser {
+    return new SSEParser();
+  }
+
+  protected abstract buildEmbeddingBody(
+    inputs: string[],
+  ): Record<string, unknown>;
+
+  protected abstract parseEmbeddings(data: any): number[][] | undefined;
+
+  // Check the configuration before any request is made
+  validate(): void {
+    if (!this.config.apiUrl) {
+      throw new ProviderError(
+        `${this.label} API URL is missing. Please configure it in the settings.`,
+        this.type,
+      );
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const content = this.parseCompletion(data);
+    const toolCalls = this.parseToolCalls(data);
+
+    // A response that only calls tools may come without text
+    if (typeof content !== "string" && toolCalls.length === 0) {
+      throw new ProviderError(
+        `Invalid response format from ${this.label} API`,
+        this.type,
+      );
+    }
+
+    // Reasoning models may also think inline in <think> tags
+    const split = splitReasoning(content || "");
+    const reasoning = [this.parseReasoning(data), split.reasoning]
+      .filter((text) => text)
+      .join("\n\n");
+
+    const result: CompletionResult =
+      toolCalls.length > 0
+        ? { content: split.content, toolCalls }
+        : { content: split.content };
+    if (reasoning) result.reasoning = reasoning;
+    const usage = this.parseUsage(data);
+    return usage ? { ...result, usage } : result;
+  }
+
+  /**
+   * Stream a completion. Answer text goes to `onDelta`, the thinking of
+   * reasoning models (reasoning deltas or <think> blocks) to `onReasoning`.
+   */
+  async stream(
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+    onReasoning?: (delta: string) => void,
+  ): Promise<CompletionResult> {
+    const response = await this.post(request, true);
+
+    if (!response.body) {
+      throw new ProviderError("Response body is null", this.type);
+    }
+
+    const reader = response.body.getReader();
+    // Decoding in stream mode keeps characters split across reads intact
+    const decoder = new TextDecoder();
+    const parser = this.createStreamParser();
+    const thinkTags = new ThinkTagParser();
+    let content = "";
+    let reasoning = "";
+    let usage: Partial<TokenUsage> | undefined;
+
+    const emit = (split: ReasoningSplit) => {
+      if (split.reasoning) {
+        reasoning += split.reasoning;
+        onReasoning?.(split.reasoning);
+      }
+      if (split.content) {
+        content += split.content;
+        onDelta(split.content);
+      }
+    };
+
+    const handleEvents = (events: ServerSentEvent[]): boolean => {
+      let done = false;
+      for (const sseEvent of events) {
+        try {
+          const event = this.parseStreamEvent(sseEvent);
+          if (!event) continue;
+          if (event.reasoning) {
+            emit({ content: "", reasoning: event.reasoning });
+          }
+          if (event.content) {
+            emit(thinkTags.push(event.content));
+          }
+          if (event.usage) {
+            usage = mergeUsage(usage, event.usage);
+          }
+          if (event.done) {
+            done = true;
+          }
+        } catch (e) {
+          // Errors reported by the provider end the stream, malformed
+          // events are skipped
+          if (e instanceof ProviderError) throw e;
+          logError(
+            `Error parsing ${this.label} stream event: ${sseEvent.data}`,
+            e,
+          );
+        }
+      }
+      return done;
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        // Process whatever the decoder and parser still hold
+        handleEvents([...parser.push(decoder.decode()), ...parser.end()]);
+        break;
+      }
+
+      // Stop reading once the provider signals the end of the message
+      if (handleEvents(parser.push(decoder.decode(value, { stream: true })))) {
+        break;
+      }
+    }
+    emit(thinkTags.end());
+
+    const result: CompletionResult = { content };
+    if (reasoning.trim()) result.reasoning = reasoning.trim();
+    return usage
+      ? {
+          ...result,
+          usage: {
+            inputTokens: usage.inputTokens || 0,
+            outputTokens: usage.outputTokens || 0,
+          },
+        }
+      : result;
+  }
+
+  // Names of the models the provider offers, sorted
+  async listModels(): Promise<string[]> {
+    this.validate();
+
+    const response = await this.withTimeout(() =>
+      requestUrl({
+        url: this.buildUrl("models"),
+        method: "GET",
+        headers: this.getHeaders(),
+        throw: false,
+      }),
+    );
+    if (response.status >= 400) {
+      throw new ProviderError(
+        `HTTP error! Status: ${response.status}`,
+        this.type,
+        response.status,
+        undefined,
+        parseErrorDetail(response.text),
+      );
+    }
+    return this.parseModels(response.json).sort();
+  }
+
+  async embed(inputs: string[]): Promise<Float32Array[]> {
+    return (await this.embedWithUsage(inputs)).vectors;
+  }
+
+  // Embeddings together with the tokens the provider billed for them
+  async embedWithUsage(inputs: string[]): Promise<EmbeddingResult> {
+    this.validate();
+    checkBudget(this.type);
+
+    try {
+      const response = await withRetry(async () => {
+        const response = await this.withTimeout(() =>
+          requestUrl({
+            url: this.buildUrl("embeddings"),
+            method: "POST",
+            headers: this.getHeaders(),
+            body: JSON.stringify(this.buildEmbeddingBody(inputs)),
+            throw: false,
+          }),
+        );
+
+        if (response.status >= 400) {
+          throw new ProviderError(
+            `HTTP error! Status: ${response.status}`,
+            this.type,
+            response.status,
+            parseRetryAfter(getHeader(response.headers, "retry-after")),
+            parseErrorDetail(response.text),
+          );
+        }
+
+        return response;
+      }, this.retryOptions());
+
+      const vectors = this.parseEmbeddings(response.json);
+      if (!vectors || vectors.length !== inputs.length) {
+        throw new ProviderError(
+          `Invalid response format from ${this.label} embeddings API`,
+          this.type,
+        );
+      }
+
+      const result: EmbeddingResult = {
+        vectors: vectors.map((vector) => new Float32Array(vector)),
+      };
+      const usage = this.parseUsage(response.json);
+      return usage ? { ...result, usage } : result;
+    } catch (error) {
+      logError(`Error requesting ${this.label} embeddings`, error);
+      throw error;
+    }
+  }
+
+  // Streams are only retried while connecting, never after content arrived
+  private async post(
+    request: CompletionRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    this.validate();
+    checkBudget(this.type);
+
+    return withRetry(async () => {
+      logDebug(
+        this.settings,
+        `Sending ${stream ? "streaming " : ""}request to ${this.label} (${this.config.model})`,
+      );
+
+      // Use fetch instead of requestUrl to support abort signals and streaming
+      const response = await this.withTimeout(
+        (signal) =>
+          fetch(this.buildUrl("chat"), {
+            method: "POST",
+            headers: this.getHeaders(),
+            body: JSON.stringify(this.buildCompletionBody(request, stream)),
+            signal,
+          }),
+        request.signal,
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        logError(
+          `${this.label} request failed with status ${response.status}: ${errorText}`,
+        );
+        throw new ProviderError(
+          `HTTP error! Status: ${response.status}`,
+          this.type,
+          response.status,
+          parseRetryAfter(response.headers?.get("retry-after")),
+          parseErrorDetail(errorText),
+        );
+      }
+
+      return response;
+    }, this.retryOptions(request.signal));
+  }
+
+  // Only the wait for the response is limited, not reading a stream.
+  // requestUrl can't be aborted, its late answer is ignored.
+  private withTimeout<T>(
+    request: (signal?: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return withTimeout(
+      request,
+      (this.config.timeout || 0) * 1000,
+      this.description,
+      signal,
+    );
+  }
+
+  // Custom headers win, so a gateway can replace the authentication
+  private getHeaders(): Record<string, string> {
+    return { ...this.buildHeaders(), ...this.config.headers };
+  }
+
+  private retryOptions(signal?: AbortSignal) {
+    return {
+      label: this.label,
+      settings: this.settings,
+      signal,
+      onRetry: this.onRetry,
+    };
+  }
+}
+
+// Later stream events override the counts reported by earlier ones
+function mergeUsage(
+  usage: Partial<TokenUsage> | undefined,
+  update: Partial<TokenUsage>,
+): Partial<TokenUsage> {
+  return {
+    inputTokens: update.inputTokens ?? usage?.inputTokens,
+    outputTokens: update.outputTokens ?? usage?.outputTokens,
+  };
+}
+
+// Providers explain errors in JSON ({"error": {"message": ...}} or
+// {"error": "..."}), some servers in plain text
+function parseErrorDetail(text: string | undefined): string | undefined {
+  const body = (text || "").trim();
+  if (!body) return undefined;
+
+  let detail = body;
+  try {
+    const data = JSON.parse(body);
+    const message =
+      data?.error?.message ?? data?.error ?? data?.message ?? data?.detail;
+    if (typeof message === "string") detail = message;
+  } catch (e) {
+    // Not JSON, use the text as it is
+  }
+  return detail.length > MAX_ERROR_DETAIL_LENGTH
+    ? `${detail.slice(0, MAX_ERROR_DETAIL_LENGTH)}...`
+    : detail;
+}
+
+// requestUrl does not normalise header names
+function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string,
+): string | undefined {
+  const key = Object.keys(headers || {}).find(
+    (header) => header.toLowerCase() === name,
+  );
+  return key ? headers?.[key] : undefined;
+}
@@ -0,0 +1,140 @@
+import { BaseProvider } from "./baseProvider";
+import {
+  CompletionResult,
+  EmbeddingResult,
+  ProviderError,
+  StreamEvent,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+
+// Recorded in the index as the model name, so changing how vectors are
+// computed means a new name and a rebuild of indexes made with the old one
+export const BUILTIN_EMBEDDING_MODEL = "hashed-ngrams-v1";
+export const BUILTIN_EMBEDDING_DIMENSIONS = 512;
+
+// Words carry most of the meaning, word pairs the phrasing, and character
+// trigrams match inflections, compounds and typos
+const FEATURE_WEIGHTS = { word: 1, pair: 0.5, trigram: 0.25 };
+
+/**
+ * Embeddings computed in-process, for vaults without any embeddings server.
+ * Words, word pairs and character trigrams are hashed into a fixed number of
+ * buckets, weighted by a sublinear term frequency. The result only depends
+ * on the text, so vectors stay comparable however the vault changes; a
+ * vault-wide inverse document frequency would not.
+ */
+export class BuiltinProvider extends BaseProvider {
+  readonly label = "Built-in";
+
+  // Nothing to configure or reach
+  validate(): void {}
+
+  async listModels(): Promise<string[]> {
+    return [BUILTIN_EMBEDDING_MODEL];
+  }
+
+  async embedWithUsage(inputs: string[]): Promise<EmbeddingResult> {
+    return { vectors: inputs.map(embedText) };
+  }
+
+  async complete(): Promise<CompletionResult> {
+    throw this.embeddingsOnly();
+  }
+
+  async stream(): Promise<CompletionResult> {
+    throw this.embeddingsOnly();
+  }
+
+  private embeddingsOnly(): ProviderError {
+    return new ProviderError(
+      "The built-in provider only computes embeddings",
+      this.type,
+    );
+  }
+
+  // There is no wire format, everything above is answered in-process
+
+  protected buildHeaders(): Record<string, string> {
+    return {};
+  }
+
+  protected buildCompletionBody(): Record<string, unknown> {
+    throw this.embeddingsOnly();
+  }
+
+  protected parseCompletion(): string | undefined {
+    return undefined;
+  }
+
+  protected parseToolCalls(): ToolCall[] {
+    return [];
+  }
+
+  protected parseUsage(): TokenUsage | undefined {
+    return undefined;
+  }
+
+  protected parseStreamEvent(): StreamEvent | null {
+    return null;
+  }
+
+  protected buildEmbeddingBody(): Record<string, unknown> {
+    throw this.embeddingsOnly();
+  }
+
+  protected parseEmbeddings(): number[][] | undefined {
+    return undefined;
+  }
+}
+
+// Unit-length vector of the text's hashed features, all zero without words
+export function embedText(text: string): Float32Array {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const features = new Map<string, { weight: number; count: number }>();
+  const add = (feature: string, weight: number) => {
+    const entry = features.get(feature);
+    if (entry) {
+      entry.count++;
+    } else {
+      features.set(feature, { weight, count: 1 });
+    }
+  };
+
+  words.forEach((word, i) => {
+    add(`w:${word}`, FEATURE_WEIGHTS.word);
+    if (i > 0) add(`p:${words[i - 1]} ${word}`, FEATURE_WEIGHTS.pair);
+    const padded = `<${word}>`;
+    for (let start = 0; start + 3 <= padded.length; start++) {
+      add(`t:${padded.slice(start, start + 3)}`, FEATURE_WEIGHTS.trigram);
+    }
+  });
+
+  const vector = new Float32Array(BUILTIN_EMBEDDING_DIMENSIONS);
+  features.forEach(({ weight, count }, feature) => {
+    const hash = fnv1a(feature);
+    // The top bit picks a sign, so that collisions cancel out on average
+    // instead of adding up
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % BUILTIN_EMBEDDING_DIMENSIONS] +=
+      sign * weight * (1 + Math.log(count));
+  });
+
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+// 32-bit FNV-1a, unsigned
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
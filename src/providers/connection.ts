@@ -0,0 +1,59 @@
+import { Settings } from "../settings";
+import { createProvider } from "./index";
+import { ProviderConfig, ProviderError } from "./types";
+
+export interface ConnectionTestResult {
+  // Provider and model, as shown to the user
+  provider: string;
+  ok: boolean;
+  // Milliseconds until the provider answered or failed
+  latency: number;
+  error?: string;
+}
+
+/**
+ * Send the smallest possible request to a provider: a one-token completion
+ * for chat and summarize, a single short embedding for embeddings. Failed
+ * requests are not retried, so the result reflects the first attempt.
+ */
+export async function testConnection(
+  config: ProviderConfig,
+  settings: Settings,
+  kind: "chat" | "embeddings",
+): Promise<ConnectionTestResult> {
+  const started = Date.now();
+  let provider = config.model
+    ? `${config.type} (${config.model})`
+    : config.type;
+
+  try {
+    const instance = createProvider(config, { ...settings, maxRetries: 0 });
+    provider = instance.description;
+
+    if (kind === "embeddings") {
+      await instance.embed(["test"]);
+    } else {
+      await instance.complete({
+        messages: [{ role: "user", content: "Hi" }],
+        maxTokens: 1,
+        temperature: 0,
+      });
+    }
+    return { provider, ok: true, latency: Date.now() - started };
+  } catch (error) {
+    return {
+      provider,
+      ok: false,
+      latency: Date.now() - started,
+      error: describeError(error),
+    };
+  }
+}
+
+// The error as the provider reported it, with its explanation if it sent one
+export function describeError(error: unknown): string {
+  if (error instanceof ProviderError && error.detail) {
+    return `${error.message}: ${error.detail}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
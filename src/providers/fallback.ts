@@ -0,0 +1,72 @@
+import { Settings } from "../settings";
+import { BudgetExceededError } from "../usageTracker";
+import { logDebug } from "../utils";
+import { BaseProvider } from "./baseProvider";
+import { isConnectionError } from "./retry";
+import { ProviderError } from "./types";
+
+export interface FallbackResult<T> {
+  result: T;
+  // The provider that answered
+  provider: BaseProvider;
+  // Labels of the providers that were unavailable before it
+  failed: string[];
+}
+
+/**
+ * Decide whether the next provider in the chain should be tried. Only an
+ * unavailable provider is skipped: connection errors, timeouts, server
+ * errors and an exhausted monthly budget. Auth errors, rate limits and
+ * invalid requests are reported as is.
+ */
+export function isFailoverError(error: any): boolean {
+  if (!error || error.name === "AbortError") return false;
+
+  // A cloud provider over budget can still be replaced by a local one
+  if (error instanceof BudgetExceededError) return true;
+
+  if (typeof error.status === "number") {
+    return error.status >= 500 || error.status === 408;
+  }
+
+  if (error.name === "TimeoutError") return true;
+
+  if (error instanceof ProviderError) return false;
+
+  return isConnectionError(error);
+}
+
+/**
+ * Run a request against each provider in order until one succeeds. Errors
+ * that don't qualify for failover, and the error of the last provider, are
+ * thrown to the caller.
+ */
+export async function withFallback<T>(
+  providers: BaseProvider[],
+  operation: (provider: BaseProvider) => Promise<T>,
+  settings: Settings,
+  canFallback: (error: any) => boolean = isFailoverError,
+): Promise<FallbackResult<T>> {
+  if (providers.length === 0) {
+    throw new Error("No AI provider configured");
+  }
+
+  const failed: string[] = [];
+  for (let index = 0; ; index++) {
+    const provider = providers[index];
+    try {
+      return { result: await operation(provider), provider, failed };
+    } catch (error) {
+      const next = providers[index + 1];
+      if (!next || !canFallback(error)) {
+        throw error;
+      }
+
+      logDebug(
+        settings,
+        `${provider.label} is unavailable (${error.message}), falling back to ${next.label}`,
+      );
+      failed.push(provider.label);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { ProviderSettings, ProviderType, Settings } from "../settings";
+import { logError } from "../utils";
+import { AnthropicProvider } from "./anthropicProvider";
+import { AzureOpenAIProvider } from "./azureOpenAIProvider";
+import { BaseProvider } from "./baseProvider";
+import { BUILTIN_EMBEDDING_MODEL, BuiltinProvider } from "./builtinProvider";
+import { OllamaProvider } from "./ollamaProvider";
+import { OpenAIProvider } from "./openaiProvider";
+import { ProviderConfig, ProviderError } from "./types";
+
+export * from "./types";
+export type { BaseProvider } from "./baseProvider";
+export type { RetryEvent, RetryListener } from "./retry";
+export { isFailoverError, withFallback } from "./fallback";
+export { TimeoutError } from "./timeout";
+export type { FallbackResult } from "./fallback";
+export { JSONLinesParser, LineSplitter, SSEParser } from "./sse";
+export type { ServerSentEvent, StreamParser } from "./sse";
+export { describeError, testConnection } from "./connection";
+export type { ConnectionTestResult } from "./connection";
+
+// Providers that expose an embeddings endpoint
+const EMBEDDING_PROVIDERS = ["openai", "local", "ollama", "azure", "builtin"];
+
+/**
+ * Pick the connection details for the selected provider out of a feature's
+ * settings section (chat, summarize or embeddings)
+ */
+export function getProviderConfig(
+  section: ProviderSettings,
+  provider: ProviderType = section.provider,
+): ProviderConfig {
+  const headers = getCustomHeaders(section);
+  const timeout = section.requestTimeout;
+  switch (provider) {
+    case "local":
+      return {
+        type: "local",
+        apiUrl: section.localApiUrl,
+        model: section.localModel,
+        headers,
+        timeout,
+      };
+    case "anthropic":
+      return {
+        type: "anthropic",
+        apiUrl: section.anthropicApiUrl,
+        apiKey: section.anthropicApiKey,
+        model: section.anthropicModel,
+        headers,
+        timeout,
+      };
+    case "ollama":
+      return {
+        type: "ollama",
+        apiUrl: section.ollamaApiUrl,
+        model: section.ollamaModel,
+        headers,
+        timeout,
+      };
+    case "builtin":
+      return { type: "builtin", model: BUILTIN_EMBEDDING_MODEL };
+    case "azure":
+      return {
+        type: "azure",
+        apiUrl: section.azureEndpoint,
+        apiKey: section.azureApiKey,
+        model: section.azureDeployment,
+        apiVersion: section.azureApiVersion,
+        headers,
+        timeout,
+      };
+    default:
+      return {
+        type: "openai",
+        apiUrl: section.openaiApiUrl,
+        apiKey: section.openaiApiKey,
+        model: section.openaiModel,
+        headers,
+        timeout,
+      };
+  }
+}
+
+// Custom headers of a section, leaving out rows without a name
+function getCustomHeaders(
+  section: ProviderSettings,
+): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const header of section.customHeaders || []) {
+    const name = header.name.trim();
+    if (name) {
+      headers[name] = header.value;
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+/**
+ * Create a provider for the given configuration. The configuration is
+ * validated up front so missing URLs or keys fail before any request.
+ */
+export function createProvider(
+  config: ProviderConfig,
+  settings: Settings,
+): BaseProvider {
+  let provider: BaseProvider;
+  switch (config.type) {
+    case "openai":
+    case "local":
+      provider = new OpenAIProvider(config, settings);
+      break;
+    case "anthropic":
+      provider = new AnthropicProvider(config, settings);
+      break;
+    case "ollama":
+      provider = new OllamaProvider(config, settings);
+      break;
+    case "azure":
+      provider = new AzureOpenAIProvider(config, settings);
+      break;
+    case "builtin":
+      provider = new BuiltinProvider(config, settings);
+      break;
+    default:
+      throw new ProviderError(
+        `Unknown AI provider "${config.type}"`,
+        config.type,
+      );
+  }
+  provider.validate();
+  return provider;
+}
+
+export function supportsEmbeddings(type: string): boolean {
+  return EMBEDDING_PROVIDERS.includes(type);
+}
+
+// The selected provider followed by its fallbacks, without duplicates
+export function getProviderChain(section: ProviderSettings): ProviderType[] {
+  const chain: ProviderType[] = [section.provider];
+  for (const provider of section.fallbackProviders || []) {
+    if (!chain.includes(provider)) {
+      chain.push(provider);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Create the providers of a settings section in the order they should be
+ * tried. Configuration errors of the selected provider are thrown, fallbacks
+ * that are not configured are left out.
+ */
+export function createProviderChain(
+  section: ProviderSettings,
+  settings: Settings,
+): BaseProvider[] {
+  const [primary, ...fallbacks] = getProviderChain(section);
+  const providers = [
+    createProvider(getProviderConfig(section, primary), settings),
+  ];
+
+  for (const type of fallbacks) {
+    try {
+      providers.push(
+        createProvider(getProviderConfig(section, type), settings),
+      );
+    } catch (error) {
+      logError(`Skipping fallback provider ${type}`, error);
+    }
+  }
+  return providers;
+}
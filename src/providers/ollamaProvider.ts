@@ -0,0 +1,143 @@
+import { ChatMessage } from "../chat";
+import { BaseProvider } from "./baseProvider";
+import { JSONLinesParser, ServerSentEvent, StreamParser } from "./sse";
+import {
+  CompletionRequest,
+  ProviderError,
+  RequestOperation,
+  StreamEvent,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+
+/**
+ * Ollama's native API: /api/chat streams newline-delimited JSON and
+ * /api/embed returns a list of embeddings.
+ */
+export class OllamaProvider extends BaseProvider {
+  readonly label = "Ollama";
+
+  protected buildHeaders(): Record<string, string> {
+    return { "Content-Type": "application/json" };
+  }
+
+  protected buildCompletionBody(
+    request: CompletionRequest,
+    stream: boolean,
+  ): Record<string, unknown> {
+    // Sampling parameters go under options rather than the top level
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: request.messages.map(formatMessage),
+      stream,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+      },
+    };
+    // Ollama has no tool_choice, so tools are only sent when calls are allowed
+    if (request.tools?.length && request.toolChoice !== "none") {
+      body.tools = request.tools.map((tool) => ({
+        type: "function",
+        function: tool,
+      }));
+    }
+    return body;
+  }
+
+  protected parseCompletion(data: any): string | undefined {
+    return data?.message?.content;
+  }
+
+  // Installed models are listed at /api/tags next to /api/chat and /api/embed
+  protected buildUrl(operation: RequestOperation): string {
+    const apiUrl = this.config.apiUrl as string;
+    if (operation !== "models") return apiUrl;
+    return `${apiUrl.replace(/\/+$/, "").replace(/\/api\/\w+$/, "")}/api/tags`;
+  }
+
+  protected parseModels(data: any): string[] {
+    if (!Array.isArray(data?.models)) return [];
+    return data.models
+      .map((model: { name?: string }) => model.name)
+      .filter((name: unknown): name is string => typeof name === "string");
+  }
+
+  // Sent by Ollama when thinking is enabled for the model
+  protected parseReasoning(data: any): string | undefined {
+    return data?.message?.thinking || undefined;
+  }
+
+  // Ollama reports token counts on the final message, and on embeddings
+  protected parseUsage(data: any): TokenUsage | undefined {
+    if (typeof data?.prompt_eval_count !== "number") return undefined;
+    return {
+      inputTokens: data.prompt_eval_count,
+      outputTokens: data.eval_count || 0,
+    };
+  }
+
+  protected parseToolCalls(data: any): ToolCall[] {
+    const calls = data?.message?.tool_calls;
+    if (!Array.isArray(calls)) return [];
+
+    // Older Ollama versions don't assign ids to tool calls
+    return calls.map((call: any, index: number) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name,
+      arguments: call.function?.arguments || {},
+    }));
+  }
+
+  // Ollama streams one JSON object per line instead of Server-Sent Events
+  protected createStreamParser(): StreamParser {
+    return new JSONLinesParser();
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent): StreamEvent | null {
+    const data = JSON.parse(event.data);
+    if (data.error) {
+      throw new ProviderError(`Ollama stream error: ${data.error}`, this.type);
+    }
+    return {
+      content: data.message?.content || undefined,
+      reasoning: data.message?.thinking || undefined,
+      done: !!data.done,
+      usage: data.done ? this.parseUsage(data) : undefined,
+    };
+  }
+
+  protected buildEmbeddingBody(inputs: string[]): Record<string, unknown> {
+    return {
+      model: this.config.model,
+      input: inputs.length === 1 ? inputs[0] : inputs,
+    };
+  }
+
+  protected parseEmbeddings(data: any): number[][] | undefined {
+    return Array.isArray(data?.embeddings) ? data.embeddings : undefined;
+  }
+}
+
+// Tool arguments are sent as objects and results are matched by tool name
+function formatMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      content: message.content,
+      tool_name: message.toolName,
+    };
+  }
+
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls.map((call) => ({
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
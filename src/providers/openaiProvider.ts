@@ -0,0 +1,161 @@
+import { ChatMessage } from "../chat";
+import { BaseProvider } from "./baseProvider";
+import { ServerSentEvent } from "./sse";
+import {
+  CompletionRequest,
+  ProviderError,
+  StreamEvent,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+
+/**
+ * OpenAI and OpenAI-compatible servers such as LM Studio. The local flavour
+ * is the same wire format without an API key.
+ */
+export class OpenAIProvider extends BaseProvider {
+  get label(): string {
+    return this.type === "local" ? "Local" : "OpenAI";
+  }
+
+  validate(): void {
+    super.validate();
+    if (this.type === "openai" && !this.config.apiKey) {
+      throw new ProviderError(
+        "OpenAI API key is missing. Please configure it in the settings.",
+        this.type,
+      );
+    }
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.config.apiKey && this.type === "openai") {
+      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  protected buildCompletionBody(
+    request: CompletionRequest,
+    stream: boolean,
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: request.messages.map(formatMessage),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream,
+    };
+    if (stream) {
+      // Ask for a final chunk with the token usage of the whole response
+      body.stream_options = { include_usage: true };
+    }
+    if (request.tools?.length) {
+      body.tools = request.tools.map((tool) => ({
+        type: "function",
+        function: tool,
+      }));
+      body.tool_choice = request.toolChoice || "auto";
+    }
+    return body;
+  }
+
+  protected parseCompletion(data: any): string | undefined {
+    return data?.choices?.[0]?.message?.content ?? undefined;
+  }
+
+  // reasoning_content as sent by DeepSeek, vLLM and LM Studio, reasoning by
+  // OpenRouter and newer LM Studio versions
+  protected parseReasoning(data: any): string | undefined {
+    const message = data?.choices?.[0]?.message;
+    return message?.reasoning_content || message?.reasoning || undefined;
+  }
+
+  protected parseUsage(data: any): TokenUsage | undefined {
+    if (!data?.usage) return undefined;
+    return {
+      inputTokens: data.usage.prompt_tokens || 0,
+      outputTokens: data.usage.completion_tokens || 0,
+    };
+  }
+
+  protected parseToolCalls(data: any): ToolCall[] {
+    const calls = data?.choices?.[0]?.message?.tool_calls;
+    if (!Array.isArray(calls)) return [];
+
+    return calls.map((call: any) => ({
+      id: call.id,
+      name: call.function?.name,
+      arguments: parseArguments(call.function?.arguments),
+    }));
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent): StreamEvent | null {
+    const payload = event.data.trim();
+    if (payload === "[DONE]") return { done: true };
+
+    const data = JSON.parse(payload);
+    const delta = data.choices?.[0]?.delta;
+    return {
+      content: delta?.content || undefined,
+      reasoning: delta?.reasoning_content || delta?.reasoning || undefined,
+      usage: this.parseUsage(data),
+    };
+  }
+
+  protected buildEmbeddingBody(inputs: string[]): Record<string, unknown> {
+    return {
+      model: this.config.model,
+      input: inputs.length === 1 ? inputs[0] : inputs,
+    };
+  }
+
+  protected parseEmbeddings(data: any): number[][] | undefined {
+    if (!Array.isArray(data?.data)) return undefined;
+    const vectors = data.data.map(
+      (item: { embedding?: number[] }) => item.embedding,
+    );
+    return vectors.every(Array.isArray) ? vectors : undefined;
+  }
+}
+
+// Tool calls and results use their own message shapes on the wire
+function formatMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: message.toolCallId,
+      content: message.content,
+    };
+  }
+
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+// Arguments arrive as a JSON string, which models occasionally malform
+function parseArguments(value: unknown): Record<string, any> {
+  if (typeof value !== "string") return (value as Record<string, any>) || {};
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return {};
+  }
+}
@@ -0,0 +1,89 @@
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+// Text of a response split into the answer and the model's reasoning
+export interface ReasoningSplit {
+  content: string;
+  reasoning: string;
+}
+
+/**
+ * Separates <think>...</think> blocks, as emitted by local reasoning models,
+ * from the answer while it streams in. Tags split across deltas are held
+ * back until it is clear whether they are tags or text.
+ */
+export class ThinkTagParser {
+  private inThink = false;
+  private pending = "";
+  // Models put blank lines after the closing tag, which aren't part of the
+  // answer
+  private trimAnswer = false;
+
+  push(text: string): ReasoningSplit {
+    const result: ReasoningSplit = { content: "", reasoning: "" };
+    let input = this.pending + text;
+    this.pending = "";
+
+    while (input) {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+      const index = input.indexOf(tag);
+      if (index !== -1) {
+        this.append(result, input.slice(0, index));
+        input = input.slice(index + tag.length);
+        this.inThink = !this.inThink;
+        if (!this.inThink) this.trimAnswer = true;
+        continue;
+      }
+
+      const keep = partialTagLength(input, tag);
+      this.append(result, input.slice(0, input.length - keep));
+      this.pending = input.slice(input.length - keep);
+      break;
+    }
+    return result;
+  }
+
+  // Text held back at the end of the stream was not a tag after all
+  end(): ReasoningSplit {
+    const result: ReasoningSplit = { content: "", reasoning: "" };
+    this.append(result, this.pending);
+    this.pending = "";
+    return result;
+  }
+
+  private append(result: ReasoningSplit, text: string) {
+    if (this.inThink) {
+      result.reasoning += text;
+      return;
+    }
+    if (this.trimAnswer) {
+      text = text.replace(/^\s+/, "");
+      if (!text) return;
+      this.trimAnswer = false;
+    }
+    result.content += text;
+  }
+}
+
+// Split a complete response into answer and reasoning
+export function splitReasoning(text: string): ReasoningSplit {
+  const parser = new ThinkTagParser();
+  const result = parser.push(text);
+  const rest = parser.end();
+  return {
+    content: result.content + rest.content,
+    reasoning: (result.reasoning + rest.reasoning).trim(),
+  };
+}
+
+// Length of the longest start of `tag` the text ends with
+function partialTagLength(text: string, tag: string): number {
+  for (
+    let length = Math.min(tag.length - 1, text.length);
+    length > 0;
+    length--
+  ) {
+    if (text.endsWith(tag.slice(0, length))) return length;
+  }
+  return 0;
+}
@@ -0,0 +1,159 @@
+import { Settings } from "../settings";
+import { logDebug } from "../utils";
+import { ProviderError } from "./types";
+
+// Upper bound for a single wait, including waits requested via Retry-After
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Statuses that indicate a temporary problem on the provider side
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Low-level connection failures reported by fetch and Electron's requestUrl
+const NETWORK_ERROR_PATTERN = /net::ERR_|ECONNRESET|ECONNREFUSED|ETIMEDOUT|Failed to fetch/;
+
+export interface RetryEvent {
+  label: string;
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: Error;
+}
+
+export type RetryListener = (event: RetryEvent) => void;
+
+export interface RetryOptions {
+  label: string;
+  settings: Settings;
+  signal?: AbortSignal;
+  onRetry?: RetryListener;
+}
+
+/**
+ * Decide whether a failed request is worth repeating. Auth and other client
+ * errors are final, rate limits, server errors and dropped connections are not.
+ */
+export function isRetryableError(error: any): boolean {
+  if (!error || error.name === "AbortError") return false;
+
+  // A provider that doesn't answer in time is left to the fallbacks
+  if (error.name === "TimeoutError") return false;
+
+  if (typeof error.status === "number") {
+    return RETRYABLE_STATUSES.has(error.status);
+  }
+
+  if (error instanceof ProviderError) return false;
+
+  return isConnectionError(error);
+}
+
+// Requests that never reached the provider, such as refused connections
+export function isConnectionError(error: any): boolean {
+  return (
+    error instanceof TypeError ||
+    NETWORK_ERROR_PATTERN.test(String(error?.message))
+  );
+}
+
+/**
+ * Parse a Retry-After header, which is either a number of seconds or an
+ * HTTP date. Returns the wait in milliseconds.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter: the wait doubles for every attempt and a
+ * random half of it is kept so concurrent requests don't retry in lockstep.
+ */
+export function getRetryDelay(
+  attempt: number,
+  baseDelay: number,
+  retryAfter?: number,
+): number {
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, MAX_RETRY_DELAY_MS);
+  }
+
+  const exponential = Math.min(
+    baseDelay * Math.pow(2, attempt - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+  return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      const error = new Error("The operation was aborted");
+      error.name = "AbortError";
+      reject(error);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort);
+    }
+  });
+}
+
+/**
+ * Run a provider request, repeating it after retryable failures according to
+ * the retry settings.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions,
+): Promise<T> {
+  const { label, settings, signal, onRetry } = options;
+  const maxRetries = Math.max(0, settings.maxRetries ?? 0);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt > maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfter =
+        error instanceof ProviderError ? error.retryAfter : undefined;
+      const delayMs = getRetryDelay(
+        attempt,
+        settings.retryBaseDelay ?? 1000,
+        retryAfter,
+      );
+
+      logDebug(
+        settings,
+        `${label} request failed (${error.message}), retrying in ${delayMs}ms (attempt ${attempt}/${maxRetries})`,
+      );
+      onRetry?.({ label, attempt, maxRetries, delayMs, error });
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
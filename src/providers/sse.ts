@@ -0,0 +1,173 @@
+/**
+ * Incremental parsers for streamed response bodies. Network reads split the
+ * body at arbitrary points, so partial lines are buffered until the rest
+ * arrives instead of being parsed on their own.
+ */
+
+// One event of a stream, as defined by the Server-Sent Events spec
+export interface ServerSentEvent {
+  // Value of the event: field, "message" when the event has none
+  event: string;
+  // data: fields of the event, joined with newlines
+  data: string;
+  // Last event ID seen in the stream, if the server sends any
+  id?: string;
+  // Reconnection time in milliseconds requested by the server
+  retry?: number;
+}
+
+// Turns decoded text chunks into events
+export interface StreamParser {
+  push(text: string): ServerSentEvent[];
+  // Handle whatever is left once the body has ended
+  end(): ServerSentEvent[];
+}
+
+/**
+ * Splits text into lines across chunk boundaries. Lines end with \n, \r\n
+ * or a lone \r, even when the \r and \n arrive in separate chunks.
+ */
+export class LineSplitter {
+  private buffer = "";
+  // The previous chunk ended with \r, so a leading \n belongs to it
+  private skipLineFeed = false;
+
+  push(text: string): string[] {
+    if (this.skipLineFeed && text.startsWith("\n")) {
+      text = text.slice(1);
+    }
+    this.skipLineFeed = false;
+
+    const lines: string[] = [];
+    let start = 0;
+    const input = this.buffer + text;
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (char !== "\n" && char !== "\r") continue;
+
+      lines.push(input.slice(start, i));
+      if (char === "\r") {
+        if (i + 1 === input.length) {
+          this.skipLineFeed = true;
+        } else if (input[i + 1] === "\n") {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+
+    this.buffer = input.slice(start);
+    return lines;
+  }
+
+  // The unterminated last line, if any
+  end(): string[] {
+    const rest = this.buffer;
+    this.buffer = "";
+    this.skipLineFeed = false;
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Server-Sent Events parser following the WHATWG event stream rules:
+ * comments are ignored, data: fields of one event are joined with newlines
+ * and an event is dispatched at the blank line that ends it.
+ */
+export class SSEParser implements StreamParser {
+  private lines = new LineSplitter();
+  private eventName = "";
+  private data: string[] = [];
+  private lastEventId?: string;
+  private retry?: number;
+
+  push(text: string): ServerSentEvent[] {
+    return this.handleLines(this.lines.push(text));
+  }
+
+  // An event without its closing blank line is incomplete and dropped,
+  // as the spec requires
+  end(): ServerSentEvent[] {
+    const events = this.handleLines(this.lines.end());
+    this.eventName = "";
+    this.data = [];
+    return events;
+  }
+
+  private handleLines(lines: string[]): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    for (const line of lines) {
+      if (line === "") {
+        const event = this.dispatch();
+        if (event) events.push(event);
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+      this.handleField(field, value);
+    }
+    return events;
+  }
+
+  private handleField(field: string, value: string) {
+    switch (field) {
+      case "event":
+        this.eventName = value;
+        break;
+      case "data":
+        this.data.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^[0-9]+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    const eventName = this.eventName;
+    const data = this.data;
+    this.eventName = "";
+    this.data = [];
+    if (data.length === 0) return null;
+
+    const event: ServerSentEvent = {
+      event: eventName || "message",
+      data: data.join("\n"),
+    };
+    if (this.lastEventId !== undefined) event.id = this.lastEventId;
+    if (this.retry !== undefined) event.retry = this.retry;
+    return event;
+  }
+}
+
+/**
+ * Newline-delimited JSON, as streamed by Ollama. Every non-blank line is one
+ * message event, and a last line without a newline still counts.
+ */
+export class JSONLinesParser implements StreamParser {
+  private lines = new LineSplitter();
+
+  push(text: string): ServerSentEvent[] {
+    return toEvents(this.lines.push(text));
+  }
+
+  end(): ServerSentEvent[] {
+    return toEvents(this.lines.end());
+  }
+}
+
+function toEvents(lines: string[]): ServerSentEvent[] {
+  return lines
+    .filter((line) => line.trim() !== "")
+    .map((line) => ({ event: "message", data: line.trim() }));
+}
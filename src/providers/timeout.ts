@@ -0,0 +1,45 @@
+// Raised when a provider doesn't start answering in time, which moves the
+// request on to the next provider of the chain
+export class TimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} did not answer within ${timeoutMs / 1000} seconds`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Give up on a request that takes longer than the timeout. The request gets
+ * a signal that aborts when it times out or when the caller's signal does,
+ * and stays tied to the caller's signal after it returned, so that a
+ * stream can still be stopped. A timeout of 0 waits as long as it takes.
+ */
+export async function withTimeout<T>(
+  request: (signal?: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  label: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!(timeoutMs > 0)) return request(signal);
+
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener("abort", () => controller.abort(), {
+      once: true,
+    });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      reject(new TimeoutError(label, timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([request(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,114 @@
+import { ChatMessage } from "../chat";
+import { ProviderType } from "../settings";
+
+// Everything needed to reach one provider endpoint for one feature
+export interface ProviderConfig {
+  type: ProviderType;
+  apiUrl?: string;
+  apiKey?: string;
+  model?: string;
+  // Azure API version, sent as the api-version query parameter
+  apiVersion?: string;
+  // Custom headers, added to (and overriding) the provider's own headers
+  headers?: Record<string, string>;
+  // Seconds to wait for the provider to start answering, 0 for no limit
+  timeout?: number;
+}
+
+// Endpoints a provider talks to
+export type RequestOperation = "chat" | "embeddings" | "models";
+
+// A function the model may call, described with a JSON schema
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  tools?: ToolDefinition[];
+  // "none" keeps the tools visible but asks for a plain answer
+  toolChoice?: "auto" | "none";
+}
+
+// Tokens billed for one request, as reported by the provider
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  // Thinking of reasoning models, kept apart from the answer
+  reasoning?: string;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+}
+
+export interface EmbeddingResult {
+  vectors: Float32Array[];
+  usage?: TokenUsage;
+}
+
+// A single parsed event from a streamed completion. Usage may arrive in
+// parts, e.g. input tokens at the start and output tokens at the end.
+export interface StreamEvent {
+  content?: string;
+  reasoning?: string;
+  done?: boolean;
+  usage?: Partial<TokenUsage>;
+}
+
+/**
+ * Common interface implemented by every AI backend. Chat, summarize and
+ * embeddings only talk to providers through this interface.
+ */
+export interface LLMProvider {
+  readonly type: ProviderType;
+  readonly label: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+    onReasoning?: (delta: string) => void,
+  ): Promise<CompletionResult>;
+  embed(inputs: string[]): Promise<Float32Array[]>;
+}
+
+/**
+ * Error raised by the provider layer. `status` is set when the provider
+ * answered with a non-success HTTP status, `retryAfter` (milliseconds) when
+ * it also asked us to wait before trying again, and `detail` when the error
+ * response explained what went wrong.
+ */
+export class ProviderError extends Error {
+  provider: ProviderType;
+  status?: number;
+  retryAfter?: number;
+  detail?: string;
+
+  constructor(
+    message: string,
+    provider: ProviderType,
+    status?: number,
+    retryAfter?: number,
+    detail?: string,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.detail = detail;
+  }
+}
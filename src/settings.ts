@@ -1,48 +1,82 @@
-import { Plugin, PluginSettingTab, App, Setting } from 'obsidian';
+import { Plugin, PluginSettingTab, App, Setting, TextComponent } from 'obsidian';
 import AIHelperPlugin from './main';
+import { createProvider, getProviderChain, getProviderConfig, testConnection } from './providers';
+import { logError } from './utils';
+import { UsageTotals, formatCost, formatTokens, globalUsageTracker } from './usageTracker';
+import { IndexRules, INDEX_PROPERTY, getExclusionReason } from './chat/indexRules';
+import { extractNoteMetadata } from './chat/noteMetadata';
+import { getContentExtractors, getIndexableFiles } from './extractors';
+import { globalEmbeddingStore } from './chat/embeddingStore';
+import { EmbeddingTemplates, getEmbeddingTemplates, getRecommendedTemplates } from './chat/embeddingInput';
 
-export interface EmbeddingSettings {
-  provider: 'openai' | 'local';
+export type ProviderType = 'openai' | 'local' | 'anthropic' | 'ollama' | 'azure' | 'builtin';
+
+// Extra HTTP header sent with every request of a settings section
+export interface CustomHeader {
+  name: string;
+  value: string;
+}
+
+// Connection settings shared by every feature that talks to an AI provider
+export interface ProviderSettings {
+  provider: ProviderType;
   openaiModel: string;
   openaiApiUrl?: string;
   openaiApiKey?: string;
   localApiUrl?: string;
   localModel?: string;
+  anthropicApiUrl?: string;
+  anthropicApiKey?: string;
+  anthropicModel?: string;
+  ollamaApiUrl?: string;
+  ollamaModel?: string;
+  azureEndpoint?: string; // Resource endpoint, e.g. https://my-resource.openai.azure.com
+  azureApiKey?: string;
+  azureDeployment?: string;
+  azureApiVersion?: string;
+  fallbackProviders?: ProviderType[]; // Tried in order when the provider is unavailable
+  customHeaders?: CustomHeader[]; // Sent to every provider of the section, e.g. for a gateway
+  requestTimeout?: number; // Seconds to wait for a provider to start answering, 0 for no limit
+}
+
+export interface EmbeddingSettings extends ProviderSettings, IndexRules {
+  provider: 'openai' | 'local' | 'ollama' | 'azure' | 'builtin';
+  fallbackProviders?: EmbeddingSettings['provider'][];
   chunkSize: number;
   chunkOverlap: number;
-  dimensions: number;
   updateMode: 'onLoad' | 'onUpdate' | 'none';
+  maxConcurrentRequests: number; // Embedding requests in flight at once while indexing
+  extractors?: Record<string, boolean>; // File extensions besides md indexed through their content extractor
+  rawText?: boolean; // Embed text as written instead of normalized like search terms
+  templates?: Record<string, EmbeddingTemplates>; // Query and document templates by model name
 }
 
-export interface ChatSettings {
-  provider: 'openai' | 'local';
-  openaiModel: string;
-  openaiApiUrl?: string;
-  openaiApiKey?: string;
-  localApiUrl?: string;
-  localModel?: string;
+export interface ChatSettings extends ProviderSettings {
   maxTokens: number;
   temperature: number;
   maxNotesToSearch: number;
   displayWelcomeMessage: boolean;
   similarity: number;
-  maxContextLength: number;
+  contextWindow: number; // Model context window in tokens, 0 to detect it from the model
   titleMatchBoost: number;
   enableStreaming: boolean;
   maxRecencyBoost: number;
   recencyBoostWindow: number;
+  enableAgentMode: boolean;
+  maxToolIterations: number;
 }
 
-export interface SummarizeSettings {
-  provider: 'openai' | 'local';
-  openaiModel: string;
-  openaiApiUrl?: string;
-  openaiApiKey?: string;
-  localApiUrl?: string;
-  localModel?: string;
+export interface SummarizeSettings extends ProviderSettings {
   maxTokens: number;
   temperature: number;
   maxContextLength: number;
+  enableStreaming: boolean;
+}
+
+// Price in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
 export interface Settings {
@@ -52,6 +86,10 @@ export interface Settings {
   openChatOnStartup: boolean;
   debugMode: boolean;
   fileUpdateFrequency: number; // Time in seconds before reindexing modified files
+  maxRetries: number; // Times a failed provider request is retried
+  retryBaseDelay: number; // Time in milliseconds before the first retry, doubled for each attempt
+  modelPrices: Record<string, ModelPrice>; // Matched by model name or name prefix
+  monthlyBudget: number; // USD per calendar month for cloud providers, 0 for no limit
 }
 
 export const DEFAULT_SETTINGS: Settings = {
@@ -62,16 +100,30 @@ export const DEFAULT_SETTINGS: Settings = {
     openaiApiKey: '',
     localApiUrl: 'http://localhost:1234/v1/chat/completions',
     localModel: 'gemma-3-12b-it',
+    anthropicApiUrl: 'https://api.anthropic.com/v1/messages',
+    anthropicApiKey: '',
+    anthropicModel: 'claude-3-5-haiku-latest',
+    ollamaApiUrl: 'http://localhost:11434/api/chat',
+    ollamaModel: 'gemma3:12b',
+    azureEndpoint: '',
+    azureApiKey: '',
+    azureDeployment: '',
+    azureApiVersion: '2024-10-21',
     maxTokens: 1000,
     temperature: 0.7,
     maxNotesToSearch: 20,
     displayWelcomeMessage: true,
     similarity: 0.5,
-    maxContextLength: 10000,
+    contextWindow: 0,
     titleMatchBoost: 0.3,
     enableStreaming: true,
     maxRecencyBoost: 0.3,
     recencyBoostWindow: 185,
+    enableAgentMode: false,
+    maxToolIterations: 5,
+    fallbackProviders: [],
+    requestTimeout: 120,
+    customHeaders: [],
   },
   embeddingSettings: {
     provider: 'local',
@@ -80,14 +132,43 @@ export const DEFAULT_SETTINGS: Settings = {
     openaiApiKey: '',
     localApiUrl: 'http://localhost:1234/v1/embeddings',
     localModel: 'text-embedding-all-minilm-l6-v2-embedding',
+    ollamaApiUrl: 'http://localhost:11434/api/embed',
+    ollamaModel: 'all-minilm',
+    azureEndpoint: '',
+    azureApiKey: '',
+    azureDeployment: '',
+    azureApiVersion: '2024-10-21',
     chunkSize: 1000,
     chunkOverlap: 200,
-    dimensions: 384,
-    updateMode: 'none'
+    updateMode: 'none',
+    maxConcurrentRequests: 2,
+    includePaths: [],
+    excludePaths: [],
+    excludeTags: [],
+    extractors: { canvas: false, txt: false, csv: false },
+    rawText: false,
+    templates: {},
+    fallbackProviders: [],
+    requestTimeout: 120,
+    customHeaders: []
   },
   openChatOnStartup: false,
   debugMode: false,
   fileUpdateFrequency: 60,
+  maxRetries: 3,
+  retryBaseDelay: 1000,
+  modelPrices: {
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-sonnet-4': { input: 3, output: 15 }
+  },
+  monthlyBudget: 0,
   summarizeSettings: {
     provider: 'local',
     openaiModel: 'gpt-4.1-nano',
@@ -95,20 +176,55 @@ export const DEFAULT_SETTINGS: Settings = {
     openaiApiKey: '',
     localApiUrl: 'http://localhost:1234/v1/chat/completions',
     localModel: 'gemma-3-12b-it',
+    anthropicApiUrl: 'https://api.anthropic.com/v1/messages',
+    anthropicApiKey: '',
+    anthropicModel: 'claude-3-5-haiku-latest',
+    ollamaApiUrl: 'http://localhost:11434/api/chat',
+    ollamaModel: 'gemma3:12b',
+    azureEndpoint: '',
+    azureApiKey: '',
+    azureDeployment: '',
+    azureApiVersion: '2024-10-21',
     maxTokens: 1000,
     temperature: 0.7,
-    maxContextLength: 10000
+    maxContextLength: 10000,
+    enableStreaming: true,
+    customHeaders: []
   },
 };
 
+const CHAT_PROVIDER_NAMES: Record<string, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  anthropic: 'Anthropic',
+  ollama: 'Ollama',
+  local: 'Local'
+};
+
+const EMBEDDING_PROVIDER_NAMES: Record<string, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  ollama: 'Ollama',
+  local: 'Local'
+};
+
 export class AIHelperSettingTab extends PluginSettingTab {
   plugin: AIHelperPlugin;
+  // Model lists by provider and URL, fetched once per settings session
+  private modelLists = new Map<string, Promise<string[]>>();
+  private datalistCount = 0;
 
   constructor(app: App, plugin: AIHelperPlugin) {
     super(app, plugin);
     this.plugin = plugin;
   }
 
+  // Offer a rebuild when the changed settings no longer fit the index
+  hide(): void {
+    super.hide();
+    globalEmbeddingStore?.reportMismatch();
+  }
+
   display(): void {
     const { containerEl } = this;
     containerEl.empty();
@@ -122,16 +238,23 @@ export class AIHelperSettingTab extends PluginSettingTab {
       .addDropdown(dropdown => {
         dropdown
           .addOption('openai', 'OpenAI')
+          .addOption('azure', 'Azure OpenAI')
+          .addOption('anthropic', 'Anthropic')
+          .addOption('ollama', 'Ollama')
           .addOption('local', 'Local')
           .setValue(this.plugin.settings.chatSettings.provider)
           .onChange(async (value) => {
-            this.plugin.settings.chatSettings.provider = value as 'openai' | 'local';
+            this.plugin.settings.chatSettings.provider = value as ProviderType;
             await this.plugin.saveSettings();
             this.display();
           });
       });
 
-    if (this.plugin.settings.chatSettings.provider === 'openai') {
+    this.addFallbackSettings(containerEl, this.plugin.settings.chatSettings, CHAT_PROVIDER_NAMES);
+
+    const chatProviders = getProviderChain(this.plugin.settings.chatSettings);
+
+    if (chatProviders.includes('openai')) {
       new Setting(containerEl)
         .setName('OpenAI API key')
         .setDesc('Your OpenAI API key')
@@ -146,7 +269,7 @@ export class AIHelperSettingTab extends PluginSettingTab {
       new Setting(containerEl)
         .setName('OpenAI model')
         .setDesc('The model to use for chat')
-        .addText(text => text
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.chatSettings, 'openai')
           .setPlaceholder('Enter model name')
           .setValue(this.plugin.settings.chatSettings.openaiModel)
           .onChange(async (value) => {
@@ -164,7 +287,72 @@ export class AIHelperSettingTab extends PluginSettingTab {
             this.plugin.settings.chatSettings.openaiApiUrl = value;
             await this.plugin.saveSettings();
           }));
-    } else {
+    }
+
+    if (chatProviders.includes('azure')) {
+      this.addAzureSettings(containerEl, this.plugin.settings.chatSettings, 'chat');
+    }
+
+    if (chatProviders.includes('anthropic')) {
+      new Setting(containerEl)
+        .setName('Anthropic API key')
+        .setDesc('Your Anthropic API key')
+        .addText(text => text
+          .setPlaceholder('Enter your Anthropic API key')
+          .setValue(this.plugin.settings.chatSettings.anthropicApiKey || '')
+          .onChange(async (value) => {
+            this.plugin.settings.chatSettings.anthropicApiKey = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Anthropic model')
+        .setDesc('The model to use for chat')
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.chatSettings, 'anthropic')
+          .setPlaceholder('Enter model name')
+          .setValue(this.plugin.settings.chatSettings.anthropicModel || '')
+          .onChange(async (value) => {
+            this.plugin.settings.chatSettings.anthropicModel = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Anthropic API URL')
+        .setDesc('The URL for the Anthropic Messages API')
+        .addText(text => text
+          .setPlaceholder('Enter API URL')
+          .setValue(this.plugin.settings.chatSettings.anthropicApiUrl || '')
+          .onChange(async (value) => {
+            this.plugin.settings.chatSettings.anthropicApiUrl = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    if (chatProviders.includes('ollama')) {
+      new Setting(containerEl)
+        .setName('Ollama API URL')
+        .setDesc('The URL for the Ollama API')
+        .addText(text => text
+          .setPlaceholder('Enter API URL')
+          .setValue(this.plugin.settings.chatSettings.ollamaApiUrl || '')
+          .onChange(async (value) => {
+            this.plugin.settings.chatSettings.ollamaApiUrl = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Ollama model')
+        .setDesc('The model to use for chat')
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.chatSettings, 'ollama')
+          .setPlaceholder('Enter model name')
+          .setValue(this.plugin.settings.chatSettings.ollamaModel || '')
+          .onChange(async (value) => {
+            this.plugin.settings.chatSettings.ollamaModel = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    if (chatProviders.includes('local')) {
       new Setting(containerEl)
         .setName('Local API URL')
         .setDesc('The URL for the local API')
@@ -179,7 +367,7 @@ export class AIHelperSettingTab extends PluginSettingTab {
       new Setting(containerEl)
         .setName('Local model')
         .setDesc('The model to use for chat')
-        .addText(text => text
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.chatSettings, 'local')
           .setPlaceholder('Enter model name')
           .setValue(this.plugin.settings.chatSettings.localModel || '')
           .onChange(async (value) => {
@@ -188,14 +376,17 @@ export class AIHelperSettingTab extends PluginSettingTab {
           }));
     }
 
+    this.addCustomHeaderSettings(containerEl, this.plugin.settings.chatSettings);
+    this.addConnectionTest(containerEl, this.plugin.settings.chatSettings, 'chat');
+
     new Setting(containerEl)
-      .setName('Max context length')
-      .setDesc('Maximum number of characters to include in the context. This will impact the number of notes that can be searched for context.')
+      .setName('Context window')
+      .setDesc('Number of tokens the chat model accepts, including the response. Leave at 0 to use the known window for cloud models and 4096 for local servers. Notes are added until the window, minus max tokens, is full.')
       .addText(text => text
-        .setPlaceholder('Enter max context length')
-        .setValue(this.plugin.settings.chatSettings.maxContextLength.toString())
+        .setPlaceholder('0')
+        .setValue(this.plugin.settings.chatSettings.contextWindow.toString())
         .onChange(async (value) => {
-          this.plugin.settings.chatSettings.maxContextLength = parseInt(value) || DEFAULT_SETTINGS.chatSettings.maxContextLength;
+          this.plugin.settings.chatSettings.contextWindow = Math.max(0, parseInt(value) || DEFAULT_SETTINGS.chatSettings.contextWindow);
           await this.plugin.saveSettings();
         }));
 
@@ -308,6 +499,27 @@ export class AIHelperSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Agent mode')
+      .setDesc('Let the model search and read your notes itself through tool calls, which helps with questions that span several notes. The model must support tool calling. Responses are not streamed in this mode.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.chatSettings.enableAgentMode)
+        .onChange(async (value) => {
+          this.plugin.settings.chatSettings.enableAgentMode = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Max tool iterations')
+      .setDesc('Maximum number of tool-calling rounds in agent mode before the model has to answer')
+      .addText(text => text
+        .setPlaceholder('Enter max tool iterations')
+        .setValue(this.plugin.settings.chatSettings.maxToolIterations.toString())
+        .onChange(async (value) => {
+          this.plugin.settings.chatSettings.maxToolIterations = parseInt(value) || DEFAULT_SETTINGS.chatSettings.maxToolIterations;
+          await this.plugin.saveSettings();
+        }));
+
     // Embedding Settings
     new Setting(containerEl).setName('Embeddings').setHeading();
 
@@ -317,16 +529,23 @@ export class AIHelperSettingTab extends PluginSettingTab {
       .addDropdown(dropdown => {
         dropdown
           .addOption('openai', 'OpenAI')
+          .addOption('azure', 'Azure OpenAI')
+          .addOption('ollama', 'Ollama')
           .addOption('local', 'Local')
+          .addOption('builtin', 'Built-in (offline)')
           .setValue(this.plugin.settings.embeddingSettings.provider)
           .onChange(async (value) => {
-            this.plugin.settings.embeddingSettings.provider = value as 'openai' | 'local';
+            this.plugin.settings.embeddingSettings.provider = value as EmbeddingSettings['provider'];
             await this.plugin.saveSettings();
             this.display();
           });
       });
 
-    if (this.plugin.settings.embeddingSettings.provider === 'openai') {
+    this.addFallbackSettings(containerEl, this.plugin.settings.embeddingSettings, EMBEDDING_PROVIDER_NAMES);
+
+    const embeddingProviders = getProviderChain(this.plugin.settings.embeddingSettings);
+
+    if (embeddingProviders.includes('openai')) {
       new Setting(containerEl)
         .setName('OpenAI API key')
         .setDesc('Your OpenAI API key')
@@ -341,7 +560,7 @@ export class AIHelperSettingTab extends PluginSettingTab {
       new Setting(containerEl)
         .setName('OpenAI model')
         .setDesc('The model to use for embeddings')
-        .addText(text => text
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.embeddingSettings, 'openai')
           .setPlaceholder('Enter model name')
           .setValue(this.plugin.settings.embeddingSettings.openaiModel)
           .onChange(async (value) => {
@@ -359,7 +578,37 @@ export class AIHelperSettingTab extends PluginSettingTab {
             this.plugin.settings.embeddingSettings.openaiApiUrl = value;
             await this.plugin.saveSettings();
           }));
-    } else {
+    }
+
+    if (embeddingProviders.includes('azure')) {
+      this.addAzureSettings(containerEl, this.plugin.settings.embeddingSettings, 'embeddings');
+    }
+
+    if (embeddingProviders.includes('ollama')) {
+      new Setting(containerEl)
+        .setName('Ollama API URL')
+        .setDesc('The URL for the Ollama API')
+        .addText(text => text
+          .setPlaceholder('Enter API URL')
+          .setValue(this.plugin.settings.embeddingSettings.ollamaApiUrl || '')
+          .onChange(async (value) => {
+            this.plugin.settings.embeddingSettings.ollamaApiUrl = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Ollama model')
+        .setDesc('The model to use for embeddings')
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.embeddingSettings, 'ollama')
+          .setPlaceholder('Enter model name')
+          .setValue(this.plugin.settings.embeddingSettings.ollamaModel || '')
+          .onChange(async (value) => {
+            this.plugin.settings.embeddingSettings.ollamaModel = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    if (embeddingProviders.includes('local')) {
       new Setting(containerEl)
         .setName('Local API URL')
         .setDesc('The URL for the local API')
@@ -374,7 +623,7 @@ export class AIHelperSettingTab extends PluginSettingTab {
       new Setting(containerEl)
         .setName('Local model')
         .setDesc('The model to use for embeddings')
-        .addText(text => text
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.embeddingSettings, 'local')
           .setPlaceholder('Enter model name')
           .setValue(this.plugin.settings.embeddingSettings.localModel || '')
           .onChange(async (value) => {
@@ -383,6 +632,16 @@ export class AIHelperSettingTab extends PluginSettingTab {
           }));
     }
 
+    if (embeddingProviders.includes('builtin')) {
+      new Setting(containerEl)
+        .setName('Built-in embeddings')
+        .setDesc('Computed on this device from the words of each note, without any server or network access. Matches wording rather than meaning, so results are less semantic than with an embedding model.');
+    }
+
+    this.addCustomHeaderSettings(containerEl, this.plugin.settings.embeddingSettings);
+    this.addConnectionTest(containerEl, this.plugin.settings.embeddingSettings, 'embeddings');
+    this.addEmbeddingInputSettings(containerEl);
+
     new Setting(containerEl)
       .setName('Chunk size')
       .setDesc('Size of text chunks for embedding')
@@ -406,13 +665,13 @@ export class AIHelperSettingTab extends PluginSettingTab {
         }));
 
     new Setting(containerEl)
-      .setName('Dimensions')
-      .setDesc('Number of dimensions for embeddings')
+      .setName('Parallel requests')
+      .setDesc('Maximum number of embedding requests sent at the same time while indexing')
       .addText(text => text
-        .setPlaceholder('Enter dimensions')
-        .setValue(this.plugin.settings.embeddingSettings.dimensions.toString())
+        .setPlaceholder('Enter number of requests')
+        .setValue(this.plugin.settings.embeddingSettings.maxConcurrentRequests.toString())
         .onChange(async (value) => {
-          this.plugin.settings.embeddingSettings.dimensions = parseInt(value) || DEFAULT_SETTINGS.embeddingSettings.dimensions;
+          this.plugin.settings.embeddingSettings.maxConcurrentRequests = Math.max(1, parseInt(value) || DEFAULT_SETTINGS.embeddingSettings.maxConcurrentRequests);
           await this.plugin.saveSettings();
         }));
 
@@ -435,6 +694,9 @@ export class AIHelperSettingTab extends PluginSettingTab {
           this.plugin.rescanVaultFiles();
         }));
 
+    this.addExtractorSettings(containerEl);
+    this.addIndexRuleSettings(containerEl);
+
     new Setting(containerEl)
       .setName('File update frequency')
       .setDesc('Time in seconds before reindexing modified files')
@@ -455,10 +717,13 @@ export class AIHelperSettingTab extends PluginSettingTab {
       .addDropdown(dropdown => {
         dropdown
           .addOption('openai', 'OpenAI')
+          .addOption('azure', 'Azure OpenAI')
+          .addOption('anthropic', 'Anthropic')
+          .addOption('ollama', 'Ollama')
           .addOption('local', 'Local')
           .setValue(this.plugin.settings.summarizeSettings.provider)
           .onChange(async (value) => {
-            this.plugin.settings.summarizeSettings.provider = value as 'openai' | 'local';
+            this.plugin.settings.summarizeSettings.provider = value as ProviderType;
             await this.plugin.saveSettings();
             this.display();
           });
@@ -479,7 +744,7 @@ export class AIHelperSettingTab extends PluginSettingTab {
       new Setting(containerEl)
         .setName('OpenAI model')
         .setDesc('The model to use for summarization')
-        .addText(text => text
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.summarizeSettings, 'openai')
           .setPlaceholder('Enter model name')
           .setValue(this.plugin.settings.summarizeSettings.openaiModel)
           .onChange(async (value) => {
@@ -497,6 +762,63 @@ export class AIHelperSettingTab extends PluginSettingTab {
             this.plugin.settings.summarizeSettings.openaiApiUrl = value;
             await this.plugin.saveSettings();
           }));
+    } else if (this.plugin.settings.summarizeSettings.provider === 'azure') {
+      this.addAzureSettings(containerEl, this.plugin.settings.summarizeSettings, 'summarization');
+    } else if (this.plugin.settings.summarizeSettings.provider === 'anthropic') {
+      new Setting(containerEl)
+        .setName('Anthropic API key')
+        .setDesc('Your Anthropic API key')
+        .addText(text => text
+          .setPlaceholder('Enter your Anthropic API key')
+          .setValue(this.plugin.settings.summarizeSettings.anthropicApiKey || '')
+          .onChange(async (value) => {
+            this.plugin.settings.summarizeSettings.anthropicApiKey = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Anthropic model')
+        .setDesc('The model to use for summarization')
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.summarizeSettings, 'anthropic')
+          .setPlaceholder('Enter model name')
+          .setValue(this.plugin.settings.summarizeSettings.anthropicModel || '')
+          .onChange(async (value) => {
+            this.plugin.settings.summarizeSettings.anthropicModel = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Anthropic API URL')
+        .setDesc('The URL for the Anthropic Messages API')
+        .addText(text => text
+          .setPlaceholder('Enter API URL')
+          .setValue(this.plugin.settings.summarizeSettings.anthropicApiUrl || '')
+          .onChange(async (value) => {
+            this.plugin.settings.summarizeSettings.anthropicApiUrl = value;
+            await this.plugin.saveSettings();
+          }));
+    } else if (this.plugin.settings.summarizeSettings.provider === 'ollama') {
+      new Setting(containerEl)
+        .setName('Ollama API URL')
+        .setDesc('The URL for the Ollama API')
+        .addText(text => text
+          .setPlaceholder('Enter API URL')
+          .setValue(this.plugin.settings.summarizeSettings.ollamaApiUrl || '')
+          .onChange(async (value) => {
+            this.plugin.settings.summarizeSettings.ollamaApiUrl = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Ollama model')
+        .setDesc('The model to use for summarization')
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.summarizeSettings, 'ollama')
+          .setPlaceholder('Enter model name')
+          .setValue(this.plugin.settings.summarizeSettings.ollamaModel || '')
+          .onChange(async (value) => {
+            this.plugin.settings.summarizeSettings.ollamaModel = value;
+            await this.plugin.saveSettings();
+          }));
     } else {
       new Setting(containerEl)
         .setName('Local API URL')
@@ -512,7 +834,7 @@ export class AIHelperSettingTab extends PluginSettingTab {
       new Setting(containerEl)
         .setName('Local model')
         .setDesc('The model to use for summarization')
-        .addText(text => text
+        .addText(text => this.addModelSuggestions(text, this.plugin.settings.summarizeSettings, 'local')
           .setPlaceholder('Enter model name')
           .setValue(this.plugin.settings.summarizeSettings.localModel || '')
           .onChange(async (value) => {
@@ -521,6 +843,9 @@ export class AIHelperSettingTab extends PluginSettingTab {
           }));
     }
 
+    this.addCustomHeaderSettings(containerEl, this.plugin.settings.summarizeSettings);
+    this.addConnectionTest(containerEl, this.plugin.settings.summarizeSettings, 'chat');
+
     new Setting(containerEl)
       .setName('Max tokens')
       .setDesc('Maximum number of tokens to generate')
@@ -554,6 +879,16 @@ export class AIHelperSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Enable streaming')
+      .setDesc('Stream the summary from the AI as it\'s being generated')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.summarizeSettings.enableStreaming)
+        .onChange(async (value) => {
+          this.plugin.settings.summarizeSettings.enableStreaming = value;
+          await this.plugin.saveSettings();
+        }));
+
     // General Settings
     new Setting(containerEl).setName('General').setHeading();
 
@@ -576,5 +911,468 @@ export class AIHelperSettingTab extends PluginSettingTab {
           this.plugin.settings.debugMode = value;
           await this.plugin.saveSettings();
         }));
+
+    new Setting(containerEl)
+      .setName('Max retries')
+      .setDesc('How often to retry AI requests that fail because of rate limits, server errors or dropped connections')
+      .addText(text => text
+        .setPlaceholder('Enter max retries')
+        .setValue(this.plugin.settings.maxRetries.toString())
+        .onChange(async (value) => {
+          const retries = parseInt(value);
+          this.plugin.settings.maxRetries = isNaN(retries) ? DEFAULT_SETTINGS.maxRetries : Math.max(0, retries);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Retry delay')
+      .setDesc('Milliseconds to wait before the first retry. The wait doubles for every further attempt unless the provider asks for a specific delay.')
+      .addText(text => text
+        .setPlaceholder('Enter retry delay')
+        .setValue(this.plugin.settings.retryBaseDelay.toString())
+        .onChange(async (value) => {
+          this.plugin.settings.retryBaseDelay = parseInt(value) || DEFAULT_SETTINGS.retryBaseDelay;
+          await this.plugin.saveSettings();
+        }));
+
+    // Usage Settings
+    new Setting(containerEl).setName('Usage').setHeading();
+
+    this.addUsageStats(containerEl);
+
+    new Setting(containerEl)
+      .setName('Monthly budget')
+      .setDesc('Block requests to OpenAI, Azure OpenAI and Anthropic once this many US dollars have been spent in the current month. 0 for no limit.')
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(this.plugin.settings.monthlyBudget.toString())
+        .onChange(async (value) => {
+          const budget = parseFloat(value);
+          this.plugin.settings.monthlyBudget = isNaN(budget) ? DEFAULT_SETTINGS.monthlyBudget : Math.max(0, budget);
+          await this.plugin.saveSettings();
+        }));
+
+    this.addPriceSettings(containerEl);
+  }
+
+  // Connection settings of an Azure OpenAI deployment
+  private addAzureSettings(containerEl: HTMLElement, section: ProviderSettings, purpose: string) {
+    new Setting(containerEl)
+      .setName('Azure OpenAI endpoint')
+      .setDesc('The endpoint of your Azure OpenAI resource or gateway, e.g. https://my-resource.openai.azure.com')
+      .addText(text => text
+        .setPlaceholder('Enter endpoint')
+        .setValue(section.azureEndpoint || '')
+        .onChange(async (value) => {
+          section.azureEndpoint = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Azure OpenAI API key')
+      .setDesc('Sent in the api-key header')
+      .addText(text => text
+        .setPlaceholder('Enter your Azure OpenAI API key')
+        .setValue(section.azureApiKey || '')
+        .onChange(async (value) => {
+          section.azureApiKey = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Azure OpenAI deployment')
+      .setDesc(`The deployment to use for ${purpose}`)
+      .addText(text => text
+        .setPlaceholder('Enter deployment name')
+        .setValue(section.azureDeployment || '')
+        .onChange(async (value) => {
+          section.azureDeployment = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Azure OpenAI API version')
+      .setDesc('Sent as the api-version query parameter')
+      .addText(text => text
+        .setPlaceholder('Enter API version')
+        .setValue(section.azureApiVersion || '')
+        .onChange(async (value) => {
+          section.azureApiVersion = value;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  // Suggest the provider's models in a model field. The list is fetched
+  // when the field is first focused, so opening the settings sends nothing.
+  private addModelSuggestions(text: TextComponent, section: ProviderSettings, provider: ProviderType): TextComponent {
+    const listId = `ai-helper-models-${++this.datalistCount}`;
+    const datalist = createEl('datalist', { attr: { id: listId } });
+    text.inputEl.insertAdjacentElement('afterend', datalist);
+    text.inputEl.setAttr('list', listId);
+
+    text.inputEl.addEventListener('focus', async () => {
+      const models = await this.getModels(section, provider);
+      datalist.empty();
+      models.forEach(model => datalist.createEl('option', { attr: { value: model } }));
+    });
+    return text;
+  }
+
+  private getModels(section: ProviderSettings, provider: ProviderType): Promise<string[]> {
+    const config = getProviderConfig(section, provider);
+    const key = `${provider} ${config.apiUrl}`;
+    let models = this.modelLists.get(key);
+    if (!models) {
+      // Configuration errors surface here as well, e.g. a missing API key
+      models = Promise.resolve().then(() => createProvider(config, this.plugin.settings).listModels()).catch(error => {
+        logError(`Could not list the models of ${provider}`, error);
+        this.modelLists.delete(key);
+        return [];
+      });
+      this.modelLists.set(key, models);
+    }
+    return models;
+  }
+
+  // Send a tiny request to every provider of the section and report the
+  // latency or the error
+  private addConnectionTest(containerEl: HTMLElement, section: ProviderSettings, kind: 'chat' | 'embeddings') {
+    const setting = new Setting(containerEl)
+      .setName('Test connection')
+      .setDesc('Check that the providers above are reachable and accept the configuration');
+
+    setting.addButton(button => button
+      .setButtonText('Test connection')
+      .onClick(async () => {
+        button.setDisabled(true);
+        setting.setDesc('Testing...');
+        const lines: string[] = [];
+        for (const provider of getProviderChain(section)) {
+          const result = await testConnection(getProviderConfig(section, provider), this.plugin.settings, kind);
+          lines.push(result.ok
+            ? `✓ ${result.provider}: connected in ${result.latency} ms`
+            : `✗ ${result.provider}: ${result.error} (after ${result.latency} ms)`);
+        }
+        setting.setDesc(lines.join('\n'));
+        setting.descEl.addClass('ai-helper-connection-result');
+        button.setDisabled(false);
+      }));
+  }
+
+  // Key/value editor for headers sent with every request of the section
+  private addCustomHeaderSettings(containerEl: HTMLElement, section: ProviderSettings) {
+    const headers = section.customHeaders || [];
+
+    headers.forEach((header, index) => {
+      new Setting(containerEl)
+        .setName(index === 0 ? 'Custom headers' : '')
+        .setDesc(index === 0 ? 'Sent with every request to the providers above. They replace headers of the same name, such as Authorization.' : '')
+        .addText(text => text
+          .setPlaceholder('Header name')
+          .setValue(header.name)
+          .onChange(async (value) => {
+            header.name = value;
+            await this.plugin.saveSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('Value')
+          .setValue(header.value)
+          .onChange(async (value) => {
+            header.value = value;
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('cross')
+          .setTooltip('Remove header')
+          .onClick(async () => {
+            section.customHeaders = headers.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .setName(headers.length === 0 ? 'Custom headers' : '')
+      .setDesc(headers.length === 0 ? 'Extra HTTP headers for the providers above, e.g. for an API gateway' : '')
+      .addButton(button => button
+        .setButtonText('Add header')
+        .onClick(async () => {
+          section.customHeaders = [...headers, { name: '', value: '' }];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+  }
+
+  // How queries and note chunks are written for the selected embedding model
+  private addEmbeddingInputSettings(containerEl: HTMLElement) {
+    const section = this.plugin.settings.embeddingSettings;
+    const model = getProviderConfig(section).model || '';
+    const rebuildNote = 'The index keeps the current way until it is rebuilt, which is offered when the settings close.';
+
+    new Setting(containerEl)
+      .setName('Embed raw text')
+      .setDesc('Send notes and queries to the embedding model as written. When off, they are lowercased and stemmed without punctuation and stopwords first, which suits the built-in embeddings more than embedding models. ' + rebuildNote)
+      .addToggle(toggle => toggle
+        .setValue(!!section.rawText)
+        .onChange(async (value) => {
+          section.rawText = value;
+          await this.plugin.saveSettings();
+        }));
+
+    if (section.provider === 'builtin') return;
+
+    const templates = getEmbeddingTemplates(section, model);
+    const recommended = getRecommendedTemplates(model);
+    const setTemplates = async (changed: Partial<EmbeddingTemplates>) => {
+      const next = { ...getEmbeddingTemplates(section, model), ...changed };
+      const all = { ...section.templates };
+      if (next.query || next.document) {
+        all[model] = next;
+      } else {
+        delete all[model];
+      }
+      section.templates = all;
+      await this.plugin.saveSettings();
+    };
+    const describe = (text: string, template?: string) =>
+      recommended ? `${text} Recommended for this model: ${template ? `"${template}"` : 'none'}` : text;
+
+    new Setting(containerEl)
+      .setName('Query template')
+      .setDesc(describe(`How searches are written for ${model || 'this model'}, with {text} standing for the query. Text without {text} is put before the query. ${rebuildNote}`, recommended?.query))
+      .addText(text => text
+        .setPlaceholder('{text}')
+        .setValue(templates.query)
+        .onChange(async (value) => {
+          await setTemplates({ query: value });
+        }));
+
+    const documentSetting = new Setting(containerEl)
+      .setName('Document template')
+      .setDesc(describe(`How note chunks are written for ${model || 'this model'}, with {text} standing for the chunk. ${rebuildNote}`, recommended?.document))
+      .addText(text => text
+        .setPlaceholder('{text}')
+        .setValue(templates.document)
+        .onChange(async (value) => {
+          await setTemplates({ document: value });
+        }));
+
+    if (recommended) {
+      documentSetting.addButton(button => button
+        .setButtonText('Use recommended')
+        .onClick(async () => {
+          await setTemplates(recommended);
+          this.display();
+        }));
+    }
+  }
+
+  // File types besides Markdown notes, indexed as the text their extractor
+  // finds in them
+  private addExtractorSettings(containerEl: HTMLElement) {
+    const section = this.plugin.settings.embeddingSettings;
+    Object.entries(getContentExtractors()).forEach(([extension, extractor]) => {
+      new Setting(containerEl)
+        .setName(`Index ${extractor.label} files`)
+        .setDesc(`Index .${extension} files alongside notes. Files already in the vault are indexed, or removed from the index, on the next sync.`)
+        .addToggle(toggle => toggle
+          .setValue(!!section.extractors?.[extension])
+          .onChange(async (value) => {
+            section.extractors = { ...section.extractors, [extension]: value };
+            await this.plugin.saveSettings();
+          }));
+    });
+  }
+
+  // Paths and tags that keep notes out of the index, with the notes they
+  // currently leave out
+  private addIndexRuleSettings(containerEl: HTMLElement) {
+    const rules = this.plugin.settings.embeddingSettings;
+    let preview: Setting | undefined;
+    const updatePreview = () => preview?.setDesc(this.describeExcludedNotes(rules));
+
+    const addList = (name: string, desc: string, placeholder: string, key: keyof IndexRules) => {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addTextArea(text => text
+          .setPlaceholder(placeholder)
+          .setValue((rules[key] || []).join('\n'))
+          .onChange(async (value) => {
+            rules[key] = value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+            await this.plugin.saveSettings();
+            updatePreview();
+          }));
+    };
+
+    addList('Indexed paths', 'Only index notes in these folders or matching these globs, one per line. Leave empty to index the whole vault.', 'Projects\nAreas/**/*.md', 'includePaths');
+    addList('Excluded paths', 'Never index notes in these folders or matching these globs, one per line. "*" matches within a folder, "**" across folders.', 'Templates\nPrivate\n**/*.excalidraw.md', 'excludePaths');
+    addList('Excluded tags', `Never index notes with these tags or tags nested below them, one per line. Notes with "${INDEX_PROPERTY}: false" in their properties are never indexed either.`, '#private\n#dataview', 'excludeTags');
+
+    preview = new Setting(containerEl).setName('Excluded notes');
+    preview.descEl.addClass('ai-helper-index-preview');
+    updatePreview();
+  }
+
+  private describeExcludedNotes(rules: IndexRules): string {
+    const files = getIndexableFiles(this.app, this.plugin.settings.embeddingSettings);
+    const excluded: string[] = [];
+    files.forEach(file => {
+      const metadata = extractNoteMetadata(this.app.metadataCache.getFileCache(file));
+      const reason = getExclusionReason(file.path, metadata, rules);
+      if (reason) excluded.push(`${file.path} (${reason})`);
+    });
+
+    if (excluded.length === 0) return `All ${files.length} notes are indexed.`;
+    const shown = excluded.sort().slice(0, 20);
+    if (excluded.length > shown.length) shown.push(`...and ${excluded.length - shown.length} more`);
+    return [
+      `${files.length - excluded.length} of ${files.length} notes are indexed. Indexed notes that are now excluded are removed on the next sync.`,
+      ...shown
+    ].join('\n');
+  }
+
+  // Token totals and costs for today, this month and overall, per model
+  private addUsageStats(containerEl: HTMLElement) {
+    const tracker = globalUsageTracker;
+    if (!tracker) return;
+
+    const now = new Date();
+    const periods: [string, { [model: string]: UsageTotals }][] = [
+      ['Today', tracker.getTotals(new Date(now.getFullYear(), now.getMonth(), now.getDate()))],
+      ['This month', tracker.getTotals(new Date(now.getFullYear(), now.getMonth(), 1))],
+      ['All time', tracker.getTotals()]
+    ];
+
+    const table = containerEl.createEl('table', { cls: 'ai-helper-usage-table' });
+    const header = table.createEl('tr');
+    ['', 'Model', 'Requests', 'Input tokens', 'Output tokens', 'Cost'].forEach(text => header.createEl('th', { text }));
+
+    periods.forEach(([label, totals]) => {
+      const models = Object.keys(totals).sort();
+      if (models.length === 0) {
+        const row = table.createEl('tr');
+        row.createEl('td', { text: label });
+        row.createEl('td', { text: 'No usage yet', attr: { colspan: '5' } });
+        return;
+      }
+
+      models.forEach((model, index) => {
+        const usage = totals[model];
+        const row = table.createEl('tr');
+        row.createEl('td', { text: index === 0 ? label : '' });
+        row.createEl('td', { text: model });
+        row.createEl('td', { text: formatTokens(usage.requests) });
+        row.createEl('td', { text: formatTokens(usage.inputTokens) });
+        row.createEl('td', { text: formatTokens(usage.outputTokens) });
+        row.createEl('td', { text: formatCost(tracker.getCost({ [model]: usage })) });
+      });
+    });
+
+    const monthlyCost = tracker.getMonthlyCost(now);
+    const budget = this.plugin.settings.monthlyBudget;
+    new Setting(containerEl)
+      .setName('Spent this month')
+      .setDesc(budget > 0
+        ? `${formatCost(monthlyCost)} of the ${formatCost(budget)} monthly budget${monthlyCost >= budget ? ', cloud providers are blocked until next month' : ''}`
+        : formatCost(monthlyCost))
+      .addButton(button => button
+        .setButtonText('Reset statistics')
+        .setWarning()
+        .onClick(async () => {
+          await tracker.reset();
+          this.display();
+        }));
+  }
+
+  // Prices in US dollars per million tokens, for every priced, used or
+  // configured cloud model
+  private addPriceSettings(containerEl: HTMLElement) {
+    const { settings } = this.plugin;
+    const models = new Set(Object.keys(settings.modelPrices));
+    if (globalUsageTracker) {
+      Object.keys(globalUsageTracker.getTotals()).forEach(model => models.add(model));
+    }
+    [settings.chatSettings, settings.summarizeSettings, settings.embeddingSettings].forEach(section => {
+      const chain = getProviderChain(section);
+      if (chain.includes('openai') && section.openaiModel) models.add(section.openaiModel);
+      if (chain.includes('anthropic') && section.anthropicModel) models.add(section.anthropicModel);
+      if (chain.includes('azure') && section.azureDeployment) models.add(section.azureDeployment);
+    });
+
+    new Setting(containerEl)
+      .setName('Model prices')
+      .setDesc('US dollars per million input and output tokens. Prices also apply to models whose name starts with the priced name. Models without a price count as free.');
+
+    Array.from(models).sort().forEach(model => {
+      const price = settings.modelPrices[model];
+      const updatePrice = async (field: keyof ModelPrice, value: string) => {
+        const amount = parseFloat(value);
+        const current = settings.modelPrices[model] || { input: 0, output: 0 };
+        settings.modelPrices = { ...settings.modelPrices, [model]: { ...current, [field]: isNaN(amount) ? 0 : Math.max(0, amount) } };
+        await this.plugin.saveSettings();
+      };
+
+      new Setting(containerEl)
+        .setName(model)
+        .addText(text => text
+          .setPlaceholder('Input')
+          .setValue(price ? price.input.toString() : '')
+          .onChange(value => updatePrice('input', value)))
+        .addText(text => text
+          .setPlaceholder('Output')
+          .setValue(price ? price.output.toString() : '')
+          .onChange(value => updatePrice('output', value)));
+    });
+  }
+
+  // Ordered list of providers to try when the selected one is unavailable.
+  // Their connection settings are shown below together with the primary's.
+  private addFallbackSettings(containerEl: HTMLElement, section: ProviderSettings, names: Record<string, string>) {
+    const fallbacks = section.fallbackProviders || [];
+
+    new Setting(containerEl)
+      .setName('Request timeout')
+      .setDesc('Seconds to wait for a provider to start answering before giving up on it and trying the next one, 0 for no limit')
+      .addText(text => text
+        .setPlaceholder('Enter seconds')
+        .setValue(String(section.requestTimeout ?? 0))
+        .onChange(async (value) => {
+          section.requestTimeout = Math.max(0, parseFloat(value) || 0);
+          await this.plugin.saveSettings();
+        }));
+
+    fallbacks.forEach((provider, index) => {
+      new Setting(containerEl)
+        .setName(`Fallback ${index + 1}: ${names[provider] || provider}`)
+        .setDesc(index === 0 ? 'Used when the provider above fails with a connection error, timeout or server error' : 'Used when the fallback above fails as well')
+        .addExtraButton(button => button
+          .setIcon('cross')
+          .setTooltip('Remove fallback')
+          .onClick(async () => {
+            section.fallbackProviders = fallbacks.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+
+    const available = Object.keys(names).filter(provider => !getProviderChain(section).includes(provider as ProviderType));
+    if (available.length === 0) return;
+
+    new Setting(containerEl)
+      .setName('Add fallback provider')
+      .setDesc('Try another provider when this one is unavailable')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', 'Select provider');
+        available.forEach(provider => dropdown.addOption(provider, names[provider]));
+        dropdown
+          .setValue('')
+          .onChange(async (value) => {
+            if (!value) return;
+            section.fallbackProviders = [...fallbacks, value as ProviderType];
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
   }
 }
@@ -1,6 +1,9 @@
 import { App, Editor, Notice, Modal } from 'obsidian';
 import { Settings } from './settings';
 import { logError } from './utils';
+import { CompletionRequest, CompletionResult, createProvider, getProviderConfig } from './providers';
+import { BudgetExceededError, globalUsageTracker } from './usageTracker';
+import { estimateMessageTokens, estimateTokens } from './chat/tokenBudget';
 
 export enum ModalAction {
   inline,
@@ -114,95 +117,56 @@ class AIHelperModal extends Modal {
 
     contentEl.appendChild(buttonContainer);
 
-    this.streamSummary(markdownPreview, inlineButton, summarizeButton, copyButton);
+    this.generateSummary(markdownPreview, inlineButton, summarizeButton, copyButton);
   }
 
-  async streamSummary(markdownPreview: HTMLTextAreaElement, inlineButton: HTMLButtonElement, summarizeButton: HTMLButtonElement, copyButton: HTMLButtonElement) {
+  async generateSummary(markdownPreview: HTMLTextAreaElement, inlineButton: HTMLButtonElement, summarizeButton: HTMLButtonElement, copyButton: HTMLButtonElement) {
     try {
-      const apiUrl = this.settings.summarizeSettings.provider === 'local'
-        ? this.settings.summarizeSettings.localApiUrl
-        : this.settings.summarizeSettings.openaiApiUrl;
-
-      if (!apiUrl) {
-        throw new Error('API URL is not configured');
-      }
-
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-
-      if (this.settings.summarizeSettings.provider === 'openai') {
-        const apiKey = this.settings.summarizeSettings.openaiApiKey;
-        if (!apiKey) {
-          throw new Error('OpenAI API key is missing. Please configure it in the settings.');
-        }
-        headers['Authorization'] = `Bearer ${apiKey}`;
-      }
-
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          model: this.settings.summarizeSettings.provider === 'local'
-            ? this.settings.summarizeSettings.localModel
-            : this.settings.summarizeSettings.openaiModel,
-          messages: [
-            { role: 'system', content: 'You are an expert at summarizing text clearly and concisely.' },
-            { role: 'system', content: 'I will provide short snippets of text, often without context. Summarize them briefly and accurately.' },
-            { role: 'system', content: 'Provide clear, direct summaries without any special formatting or markdown.' },
-            { role: 'user', content: `Summarize the following text:\n\n${this.text}` }
-          ],
-          stream: true,
-          max_tokens: this.settings.summarizeSettings.maxTokens,
-          temperature: this.settings.summarizeSettings.temperature
-        }),
+      const provider = createProvider(getProviderConfig(this.settings.summarizeSettings), this.settings);
+
+      const request: CompletionRequest = {
+        messages: [
+          { role: 'system', content: 'You are an expert at summarizing text clearly and concisely.' },
+          { role: 'system', content: 'I will provide short snippets of text, often without context. Summarize them briefly and accurately.' },
+          { role: 'system', content: 'Provide clear, direct summaries without any special formatting or markdown.' },
+          { role: 'user', content: `Summarize the following text:\n\n${this.text}` }
+        ],
+        maxTokens: this.settings.summarizeSettings.maxTokens,
+        temperature: this.settings.summarizeSettings.temperature,
         signal: this.controller.signal
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status} - ${response.statusText}`);
-      }
-
-      if (!response.body) {
-        throw new Error('Response body is null');
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let streamInitialized = false;
-
-      while (true) {
-        const { done, value } = await reader.read();
+      };
+
+      let result: CompletionResult;
+      if (this.settings.summarizeSettings.enableStreaming) {
+        let streamInitialized = false;
+        result = await provider.stream(request, (delta) => {
+          if (!streamInitialized) {
+            markdownPreview.value = '';
+            streamInitialized = true;
+          }
+          markdownPreview.value += delta;
+        });
         if (!streamInitialized) {
           markdownPreview.value = '';
-          streamInitialized = true;
-        }
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true }).trim();
-        const lines = chunk.split('\n');
-        for (const line of lines) {
-          if (line.trim() === 'data: [DONE]') {
-            continue;
-          }
-          if (line.startsWith('data: ')) {
-            try {
-              const json = JSON.parse(line.slice(6));
-              if (json.choices && json.choices[0].delta && json.choices[0].delta.content) {
-                markdownPreview.value += json.choices[0].delta.content;
-              }
-            } catch (error) {
-              console.warn('Failed to parse streaming chunk:', line);
-            }
-          }
         }
+      } else {
+        markdownPreview.value = 'Generating summary...';
+        result = await provider.complete(request);
+        markdownPreview.value = result.content;
       }
 
+      globalUsageTracker?.record('summarize', provider.model || provider.label, result.usage || {
+        inputTokens: estimateMessageTokens(request.messages),
+        outputTokens: estimateTokens(result.content)
+      });
+
       markdownPreview.removeAttribute('disabled');
       inlineButton.removeAttribute('disabled');
       summarizeButton.removeAttribute('disabled');
       copyButton.removeAttribute('disabled');
     } catch (error) {
       logError('Error summarizing text', error);
-      new Notice('Error generating summary. Please try again.');
+      new Notice(error instanceof BudgetExceededError ? error.message : 'Error generating summary. Please try again.');
       markdownPreview.value = 'Failed to summarize text:\n' + error;
 
       markdownPreview.setAttribute('disabled', 'true');
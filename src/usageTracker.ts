@@ -0,0 +1,257 @@
+import { App } from 'obsidian';
+import { ModelPrice, ProviderType, Settings } from './settings';
+import { logDebug, logError } from './utils';
+import { ProviderError, TokenUsage } from './providers/types';
+
+const USAGE_FILE = '.obsidian/plugins/obsidian-ai-helper/usage.json';
+const USAGE_VERSION = 1;
+
+// Coalesce the writes of an indexing run, which records every embedding
+const SAVE_DELAY_MS = 2000;
+
+// Providers that bill per token. Local servers and Ollama are free to use.
+const CLOUD_PROVIDERS: ProviderType[] = ['openai', 'anthropic', 'azure'];
+
+export type UsageKind = 'chat' | 'summarize' | 'embedding';
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+}
+
+// Embedding usage of one indexing run
+export interface UsageRun {
+  tokens: number;
+  cost: number;
+}
+
+// Usage of a single response, shown below assistant messages
+export interface UsageSummary extends TokenUsage {
+  model: string;
+  cost: number;
+}
+
+interface PersistedUsage {
+  version: number;
+  // Totals per local date (YYYY-MM-DD) and model
+  days: { [date: string]: { [model: string]: UsageTotals } };
+}
+
+export class BudgetExceededError extends ProviderError {
+  constructor(budget: number, spent: number, provider: ProviderType) {
+    super(
+      `Monthly budget of ${formatCost(budget)} reached (${formatCost(spent)} spent). Raise the budget in the settings or use a local provider.`,
+      provider
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export let globalUsageTracker: UsageTracker | null = null;
+
+export async function initializeUsageTracker(settings: Settings, app: App): Promise<UsageTracker> {
+  globalUsageTracker = new UsageTracker(settings, app);
+  await globalUsageTracker.load();
+  return globalUsageTracker;
+}
+
+export function isCloudProvider(type: ProviderType): boolean {
+  return CLOUD_PROVIDERS.includes(type);
+}
+
+// Refuse cloud requests once the monthly budget is used up
+export function checkBudget(type: ProviderType): void {
+  if (globalUsageTracker && isCloudProvider(type)) {
+    globalUsageTracker.assertWithinBudget(type);
+  }
+}
+
+/**
+ * Price of a model, looked up by exact name first and then by the longest
+ * matching prefix, so dated snapshots like gpt-4.1-nano-2025-04-14 use the
+ * price of gpt-4.1-nano.
+ */
+export function getModelPrice(settings: Settings, model: string): ModelPrice | undefined {
+  const prices = settings.modelPrices || {};
+  if (prices[model]) return prices[model];
+
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export function calculateCost(settings: Settings, model: string, usage: TokenUsage): number {
+  const price = getModelPrice(settings, model);
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000;
+}
+
+export function summarizeUsage(settings: Settings, model: string, usage: TokenUsage): UsageSummary {
+  return { ...usage, model, cost: calculateCost(settings, model, usage) };
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
+
+// Summary for indexing notices, empty when nothing was embedded
+export function formatRun(run: UsageRun | undefined): string {
+  if (!run || run.tokens === 0) return '';
+  return ` (${formatTokens(run.tokens)} tokens, ${formatCost(run.cost)})`;
+}
+
+// Local calendar date, so daily totals roll over at the user's midnight
+export function getDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Keeps daily token totals per model, persisted next to the embeddings.
+ * Costs are calculated from the current prices when totals are read, so
+ * editing a price also corrects past totals.
+ */
+export class UsageTracker {
+  private settings: Settings;
+  private app: App;
+  private days: PersistedUsage['days'] = {};
+  // Embedding usage of indexing runs in progress
+  private runs: Set<UsageRun> = new Set();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(settings: Settings, app: App) {
+    this.settings = settings;
+    this.app = app;
+  }
+
+  async load() {
+    try {
+      if (!(await this.app.vault.adapter.exists(USAGE_FILE))) {
+        logDebug(this.settings, 'No usage file found, starting with empty usage statistics');
+        return;
+      }
+
+      const data: PersistedUsage = JSON.parse(await this.app.vault.adapter.read(USAGE_FILE));
+      // Requests recorded before loading finished are kept
+      for (const [date, models] of Object.entries(data.days || {})) {
+        for (const [model, totals] of Object.entries(models)) {
+          this.add(date, model, totals);
+        }
+      }
+    } catch (error) {
+      logError('Error loading usage statistics', error);
+    }
+  }
+
+  record(kind: UsageKind, model: string, usage: TokenUsage, date: Date = new Date()) {
+    logDebug(this.settings, `Recorded ${kind} usage for ${model}: ${usage.inputTokens} input, ${usage.outputTokens} output tokens`);
+    const totals = { ...usage, requests: 1 };
+    this.add(getDateKey(date), model || 'unknown', totals);
+
+    if (kind === 'embedding') {
+      const cost = calculateCost(this.settings, model, usage);
+      this.runs.forEach(run => {
+        run.tokens += usage.inputTokens + usage.outputTokens;
+        run.cost += cost;
+      });
+    }
+    this.scheduleSave();
+  }
+
+  // Collect the embedding usage from now until the run is finished
+  startRun(): UsageRun {
+    const run = { tokens: 0, cost: 0 };
+    this.runs.add(run);
+    return run;
+  }
+
+  finishRun(run: UsageRun): UsageRun {
+    this.runs.delete(run);
+    return run;
+  }
+
+  // Totals per model for the days from `since` (inclusive) until today
+  getTotals(since?: Date): { [model: string]: UsageTotals } {
+    const from = since ? getDateKey(since) : '';
+    const result: { [model: string]: UsageTotals } = {};
+
+    for (const [date, models] of Object.entries(this.days)) {
+      if (date < from) continue;
+      for (const [model, totals] of Object.entries(models)) {
+        result[model] = addTotals(result[model] || { inputTokens: 0, outputTokens: 0, requests: 0 }, totals);
+      }
+    }
+    return result;
+  }
+
+  getCost(totals: { [model: string]: UsageTotals }): number {
+    return Object.entries(totals).reduce(
+      (sum, [model, usage]) => sum + calculateCost(this.settings, model, usage),
+      0
+    );
+  }
+
+  getMonthlyCost(now: Date = new Date()): number {
+    return this.getCost(this.getTotals(new Date(now.getFullYear(), now.getMonth(), 1)));
+  }
+
+  assertWithinBudget(provider: ProviderType) {
+    const budget = this.settings.monthlyBudget || 0;
+    if (budget <= 0) return;
+
+    const spent = this.getMonthlyCost();
+    if (spent >= budget) {
+      throw new BudgetExceededError(budget, spent, provider);
+    }
+  }
+
+  async reset() {
+    this.days = {};
+    await this.save();
+  }
+
+  async save() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      const data: PersistedUsage = { version: USAGE_VERSION, days: this.days };
+      await this.app.vault.adapter.write(USAGE_FILE, JSON.stringify(data));
+    } catch (error) {
+      logError('Error saving usage statistics', error);
+    }
+  }
+
+  // Write pending changes right away, e.g. when the plugin unloads
+  async flush() {
+    if (this.saveTimer) {
+      await this.save();
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+  }
+
+  private add(date: string, model: string, totals: UsageTotals) {
+    const models = this.days[date] || (this.days[date] = {});
+    models[model] = addTotals(models[model] || { inputTokens: 0, outputTokens: 0, requests: 0 }, totals);
+  }
+}
+
+function addTotals(target: UsageTotals, totals: UsageTotals): UsageTotals {
+  target.inputTokens += totals.inputTokens || 0;
+  target.outputTokens += totals.outputTokens || 0;
+  target.requests += totals.requests || 0;
+  return target;
+}